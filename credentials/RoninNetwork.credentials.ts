@@ -48,6 +48,39 @@ export class RoninNetwork implements ICredentialType {
 				},
 			},
 		},
+		{
+			displayName: 'WebSocket URL',
+			name: 'wsUrl',
+			type: 'string',
+			default: '',
+			placeholder: 'wss://api.roninchain.com/ws',
+			description: 'Optional WebSocket endpoint. When set, the Ronin Trigger subscribes to new blocks and logs instead of waiting for the next poll.',
+		},
+		{
+			displayName: 'Signer Type',
+			name: 'signerType',
+			type: 'options',
+			options: [
+				{
+					name: 'Private Key',
+					value: 'privateKey',
+				},
+				{
+					name: 'Encrypted Keystore',
+					value: 'keystore',
+				},
+				{
+					name: 'Mnemonic',
+					value: 'mnemonic',
+				},
+				{
+					name: 'Remote Signer',
+					value: 'remote',
+				},
+			],
+			default: 'privateKey',
+			description: 'How transactions, messages and marketplace orders are signed',
+		},
 		{
 			displayName: 'Private Key',
 			name: 'privateKey',
@@ -58,6 +91,129 @@ export class RoninNetwork implements ICredentialType {
 			default: '',
 			description: 'Private key for signing transactions. Never share this with anyone.',
 			hint: 'Your private key is stored securely and never logged',
+			displayOptions: {
+				show: {
+					signerType: ['privateKey'],
+				},
+			},
+		},
+		{
+			displayName: 'Keystore JSON',
+			name: 'keystore',
+			type: 'string',
+			typeOptions: {
+				rows: 4,
+			},
+			default: '',
+			description: 'Encrypted JSON keystore (V3), as exported by Ronin Wallet, geth or ethers',
+			displayOptions: {
+				show: {
+					signerType: ['keystore'],
+				},
+			},
+		},
+		{
+			displayName: 'Keystore Password',
+			name: 'keystorePassword',
+			type: 'string',
+			typeOptions: {
+				password: true,
+			},
+			default: '',
+			description: 'Password the keystore is encrypted with',
+			displayOptions: {
+				show: {
+					signerType: ['keystore'],
+				},
+			},
+		},
+		{
+			displayName: 'Mnemonic',
+			name: 'mnemonic',
+			type: 'string',
+			typeOptions: {
+				password: true,
+			},
+			default: '',
+			description: 'BIP-39 recovery phrase. Never share this with anyone.',
+			displayOptions: {
+				show: {
+					signerType: ['mnemonic'],
+				},
+			},
+		},
+		{
+			displayName: 'Derivation Path',
+			name: 'derivationPath',
+			type: 'string',
+			default: "m/44'/60'/0'/0",
+			description: 'BIP-32 path the account index is appended to, or a template with an {index} placeholder',
+			displayOptions: {
+				show: {
+					signerType: ['mnemonic'],
+				},
+			},
+		},
+		{
+			displayName: 'Account Index',
+			name: 'accountIndex',
+			type: 'number',
+			default: 0,
+			description: 'Index of the account derived from the mnemonic',
+			displayOptions: {
+				show: {
+					signerType: ['mnemonic'],
+				},
+			},
+		},
+		{
+			displayName: 'Remote Signer URL',
+			name: 'remoteSignerUrl',
+			type: 'string',
+			default: '',
+			placeholder: 'https://signer.example.com',
+			description: 'JSON-RPC endpoint of a signing service implementing eth_signTransaction (e.g. Web3Signer or Clef). Keys stay in the service.',
+			displayOptions: {
+				show: {
+					signerType: ['remote'],
+				},
+			},
+		},
+		{
+			displayName: 'Remote Signer Address',
+			name: 'remoteSignerAddress',
+			type: 'string',
+			default: '',
+			placeholder: '0x...',
+			description: 'Account to sign with. Leave empty to use the first account of eth_accounts.',
+			displayOptions: {
+				show: {
+					signerType: ['remote'],
+				},
+			},
+		},
+		{
+			displayName: 'Remote Signer Token',
+			name: 'remoteSignerToken',
+			type: 'string',
+			typeOptions: {
+				password: true,
+			},
+			default: '',
+			description: 'Optional bearer token sent to the remote signer',
+			displayOptions: {
+				show: {
+					signerType: ['remote'],
+				},
+			},
+		},
+		{
+			displayName: 'Spend Policy',
+			name: 'spendPolicy',
+			type: 'json',
+			default: '',
+			placeholder: '{"limits": {"RON": {"maxPerTransaction": "100", "maxPer24h": "1000"}}, "allowedRecipients": [], "blockedRecipients": [], "blockedMethods": ["approve(address,uint256)"], "requireConfirmation": true}',
+			description: 'Optional guardrails checked before any transaction is signed: per-transaction and rolling 24h caps per token (RON, a symbol or an address), recipient allowlist and denylist, blocked method selectors, and whether nodes must enable Confirm Transactions',
 		},
 		{
 			displayName: 'Chain ID',
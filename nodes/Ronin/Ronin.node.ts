@@ -24,6 +24,11 @@ import { blockOperations, blockFields, executeBlock } from './actions/block';
 import { transactionOperations, transactionFields, executeTransaction } from './actions/transaction';
 import { mavisHubOperations, mavisHubFields, executeMavisHub } from './actions/mavisHub';
 import { utilityOperations, utilityFields, executeUtility } from './actions/utility';
+import { executionOptionFields } from './actions/shared/executionFields';
+import { ClientExecutionOptions, SimulationSession } from './transport/roninClient';
+import { parseAccountIndex } from './transport/signers';
+import { parseBlockTag } from './utils/simulation';
+import { PolicyViolationError } from './utils/spendPolicy';
 
 export class Ronin implements INodeType {
 	description: INodeTypeDescription = {
@@ -118,6 +123,7 @@ export class Ronin implements INodeType {
 			...mavisHubFields,
 			...utilityOperations,
 			...utilityFields,
+			...executionOptionFields(),
 		],
 	};
 
@@ -126,74 +132,49 @@ export class Ronin implements INodeType {
 		const returnData: INodeExecutionData[] = [];
 		const resource = this.getNodeParameter('resource', 0) as string;
 
-		for (let i = 0; i < items.length; i++) {
+		// A batch transfer or bulk listing reading the input items handles them all at once
+		const operation = this.getNodeParameter('operation', 0);
+		const isItemBatch = (operation === 'batchTransfer' && this.getNodeParameter('recipientSource', 0) === 'items')
+			|| (operation === 'createListing' && this.getNodeParameter('listingSource', 0) === 'items');
+		const executions = isItemBatch ? Math.min(items.length, 1) : items.length;
+
+		for (let i = 0; i < executions; i++) {
 			try {
-				let result: unknown;
+				const session: SimulationSession | undefined = this.getNodeParameter('simulateOnly', i, false)
+					? { blockTag: parseBlockTag(this.getNodeParameter('simulationBlock', i, 'latest') as string), simulations: [] }
+					: undefined;
+				const execution: ClientExecutionOptions = {
+					simulation: session,
+					accountIndex: parseAccountIndex(this.getNodeParameter('accountIndex', i, '') as string),
+					confirmed: this.getNodeParameter('confirmTransactions', i, false) as boolean,
+				};
+
+				let result = await executeResource.call(this, resource, i, execution);
 
-				switch (resource) {
-					case 'wallet':
-						result = await executeWallet.call(this, i);
-						break;
-					case 'nft':
-						result = await executeNft.call(this, i);
-						break;
-					case 'axie':
-						result = await executeAxie.call(this, i);
-						break;
-					case 'land':
-						result = await executeLand.call(this, i);
-						break;
-					case 'collection':
-						result = await executeCollection.call(this, i);
-						break;
-					case 'marketplace':
-						result = await executeMarketplace.call(this, i);
-						break;
-					case 'breeding':
-						result = await executeBreeding.call(this, i);
-						break;
-					case 'battle':
-						result = await executeBattle.call(this, i);
-						break;
-					case 'slp':
-						result = await executeSlp.call(this, i);
-						break;
-					case 'axs':
-						result = await executeAxs.call(this, i);
-						break;
-					case 'bridge':
-						result = await executeBridge.call(this, i);
-						break;
-					case 'katana':
-						result = await executeKatana.call(this, i);
-						break;
-					case 'staking':
-						result = await executeStaking.call(this, i);
-						break;
-					case 'contract':
-						result = await executeContract.call(this, i);
-						break;
-					case 'block':
-						result = await executeBlock.call(this, i);
-						break;
-					case 'transaction':
-						result = await executeTransaction.call(this, i);
-						break;
-					case 'mavisHub':
-						result = await executeMavisHub.call(this, i);
-						break;
-					case 'utility':
-						result = await executeUtility.call(this, i);
-						break;
-					default:
-						throw new Error(`Unknown resource: ${resource}`);
+				// Write operations return the simulated transactions instead of their (empty) results
+				if (session && session.simulations.length > 0) {
+					result = {
+						simulated: true,
+						resource,
+						operation: this.getNodeParameter('operation', i),
+						success: session.simulations.every((simulation) => simulation.success !== false),
+						requiresApproval: session.simulations.some((simulation) => simulation.requiresApproval),
+						transactions: session.simulations,
+					};
 				}
 
-				returnData.push({ json: result as IDataObject });
+				// Batch operations return one result per recipient
+				const results = Array.isArray(result) ? result : [result];
+				returnData.push(...results.map((json) => ({ json: json as IDataObject })));
 			} catch (error) {
 				if (this.continueOnFail()) {
 					returnData.push({
-						json: { error: (error as Error).message },
+						json: {
+							error: (error as Error).message,
+							...(error instanceof PolicyViolationError
+								? { policyViolations: error.violations as unknown as IDataObject[] }
+								: {}),
+						},
 						pairedItem: { item: i },
 					});
 					continue;
@@ -205,3 +186,55 @@ export class Ronin implements INodeType {
 		return [returnData];
 	}
 }
+
+/**
+ * Execute the operation of a resource for one item
+ * @param execution Simulation, account and confirmation options for the operations that sign
+ */
+async function executeResource(
+	this: IExecuteFunctions,
+	resource: string,
+	i: number,
+	execution: ClientExecutionOptions
+): Promise<unknown> {
+	switch (resource) {
+		case 'wallet':
+			return executeWallet.call(this, i, execution);
+		case 'nft':
+			return executeNft.call(this, i, execution);
+		case 'axie':
+			return executeAxie.call(this, i);
+		case 'land':
+			return executeLand.call(this, i);
+		case 'collection':
+			return executeCollection.call(this, i);
+		case 'marketplace':
+			return executeMarketplace.call(this, i, execution);
+		case 'breeding':
+			return executeBreeding.call(this, i);
+		case 'battle':
+			return executeBattle.call(this, i);
+		case 'slp':
+			return executeSlp.call(this, i, execution);
+		case 'axs':
+			return executeAxs.call(this, i, execution);
+		case 'bridge':
+			return executeBridge.call(this, i);
+		case 'katana':
+			return executeKatana.call(this, i, execution);
+		case 'staking':
+			return executeStaking.call(this, i, execution);
+		case 'contract':
+			return executeContract.call(this, i, execution);
+		case 'block':
+			return executeBlock.call(this, i);
+		case 'transaction':
+			return executeTransaction.call(this, i, execution);
+		case 'mavisHub':
+			return executeMavisHub.call(this, i);
+		case 'utility':
+			return executeUtility.call(this, i, execution);
+		default:
+			throw new Error(`Unknown resource: ${resource}`);
+	}
+}
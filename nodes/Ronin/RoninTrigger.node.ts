@@ -1,4 +1,5 @@
 import {
+	IDataObject,
 	INodeType,
 	INodeTypeDescription,
 	ITriggerFunctions,
@@ -6,9 +7,64 @@ import {
 } from 'n8n-workflow';
 import { ethers } from 'ethers';
 import { MAINNET, TESTNET } from './constants/networks';
-import { MAINNET_CONTRACTS } from './constants/contracts';
-import { hexToRonin, normalizeAddress } from './utils/addressUtils';
-import { weiToRon } from './utils/unitConverter';
+import { AXIE_ABI, KATANA_FACTORY_ABI, NFT_CONTRACTS, getContracts } from './constants/contracts';
+import { KATANA_PAIRS, getToken } from './constants/tokens';
+import { AXIE_CLASSES } from './constants/axieData';
+import { createSkynetClient } from './transport/skynetApi';
+import { createRoninClient } from './transport/roninClient';
+import { SubscriptionLogFilter, WsSubscriber } from './transport/wsSubscriber';
+import { hexToRonin, matchWatchedAddresses, normalizeAddress, parseAddressList } from './utils/addressUtils';
+import { formatUnits, parseUnits, weiToRon } from './utils/unitConverter';
+import {
+	BlockCursorOptions,
+	BlockCursorState,
+	BlockRange,
+	StartFrom,
+	getNextBlockRange,
+	resolveStartingBlock,
+	saveCheckpoint,
+} from './utils/blockCursor';
+import {
+	ReorgState,
+	getTrackedBlocks,
+	pruneEmissions,
+	recordEmission,
+	takeReorgedBlocks,
+} from './utils/reorgTracker';
+import { TRANSFER_TOPIC, buildTransferQueries, scanLogs, topicToAddress } from './utils/logScanner';
+import { ORDERS_MATCHED_TOPIC, decodeMarketplaceSale } from './utils/marketplaceSale';
+import { AxieFilters, AxieProfile, buildAxieProfile, matchesAxieFilters } from './utils/axieUtils';
+import {
+	BRIDGE_INTERFACE,
+	BRIDGE_TRIGGER_EVENTS,
+	DecodedProtocolEvent,
+	KATANA_PAIR_INTERFACE,
+	KATANA_TRIGGER_EVENTS,
+	KatanaPair,
+	STAKING_INTERFACE,
+	STAKING_TRIGGER_EVENTS,
+	buildKatanaPair,
+	decodeBridgeLog,
+	decodeKatanaLog,
+	decodeStakingLog,
+	getEventTopic,
+} from './utils/protocolEvents';
+import {
+	BalanceState,
+	BalanceThresholds,
+	evaluateBalance,
+	getBalanceKey,
+	getChangePercent,
+} from './utils/balanceWatch';
+import { decodeCalldata, getSelector, parseSelectorList } from './utils/abiUtils';
+import {
+	PendingTransaction,
+	RawPoolTransaction,
+	SeenTransactions,
+	TxpoolContent,
+	flattenTxpool,
+	toPendingTransaction,
+} from './utils/mempool';
 
 export class RoninTrigger implements INodeType {
 	description: INodeTypeDescription = {
@@ -29,6 +85,10 @@ export class RoninTrigger implements INodeType {
 				name: 'roninNetwork',
 				required: true,
 			},
+			{
+				name: 'roninApi',
+				required: false,
+			},
 		],
 		properties: [
 			{
@@ -54,31 +114,68 @@ export class RoninTrigger implements INodeType {
 					
 					// Marketplace events
 					{ name: 'Marketplace Sale', value: 'marketplaceSale', description: 'Trigger on marketplace sales' },
+					
+					// Staking events
+					{ name: 'Staking Delegated', value: 'stakingDelegated', description: 'Trigger when RON is delegated to a validator' },
+					{ name: 'Staking Undelegated', value: 'stakingUndelegated', description: 'Trigger when RON is undelegated from a validator' },
+					{ name: 'Staking Reward Claimed', value: 'stakingRewardClaimed', description: 'Trigger when staking rewards are claimed' },
+					
+					// Bridge events
+					{ name: 'Bridge Deposit', value: 'bridgeDeposit', description: 'Trigger on bridge deposits to Ronin' },
+					{ name: 'Bridge Withdrawal Requested', value: 'bridgeWithdrawalRequested', description: 'Trigger when a withdrawal to Ethereum is requested' },
+					{ name: 'Bridge Withdrawal Completed', value: 'bridgeWithdrawalCompleted', description: 'Trigger when a withdrawal is completed' },
+					
+					// Katana events
+					{ name: 'Katana Swap', value: 'katanaSwap', description: 'Trigger on swaps in Katana pairs' },
+					{ name: 'Katana Sync', value: 'katanaSync', description: 'Trigger on reserve updates in Katana pairs' },
+					
+					// State events
+					{ name: 'Balance Changed / Crossed Threshold', value: 'balanceChange', description: 'Poll balances and trigger on threshold crossings or large changes' },
+					
+					// Mempool events
+					{ name: 'Pending Transaction', value: 'pendingTransaction', description: 'Trigger when a matching transaction is broadcast, before it is mined' },
 				],
 				default: 'newBlock',
 			},
 			// Address filter for wallet events
 			{
-				displayName: 'Watch Address',
+				displayName: 'Watch Addresses',
 				name: 'watchAddress',
 				type: 'string',
+				typeOptions: {
+					rows: 2,
+				},
 				default: '',
-				placeholder: 'ronin:1234... or 0x1234...',
-				description: 'Address to watch for events',
+				placeholder: 'ronin:1234..., 0x5678...',
+				description: 'Addresses to watch, separated by commas or new lines. Supports both ronin: and 0x formats. Each transfer match is emitted with the watched address and its direction (in, out or self).',
 				displayOptions: {
 					show: {
-						event: ['ronReceived', 'ronSent', 'tokenTransfer', 'nftTransfer', 'axieTransfer'],
+						event: [
+							'ronReceived',
+							'ronSent',
+							'tokenTransfer',
+							'nftTransfer',
+							'axieTransfer',
+							'stakingDelegated',
+							'stakingUndelegated',
+							'stakingRewardClaimed',
+							'bridgeDeposit',
+							'bridgeWithdrawalRequested',
+							'katanaSwap',
+							'balanceChange',
+							'pendingTransaction',
+						],
 					},
 				},
 			},
-			// Token address for token events
+			// Token addresses for token events
 			{
-				displayName: 'Token Address',
+				displayName: 'Token Addresses',
 				name: 'tokenAddress',
 				type: 'string',
 				default: '',
 				placeholder: 'ronin:1234... or leave empty for all',
-				description: 'Specific token to watch (optional)',
+				description: 'Tokens to watch, separated by commas (optional)',
 				displayOptions: {
 					show: {
 						event: ['tokenTransfer'],
@@ -87,13 +184,13 @@ export class RoninTrigger implements INodeType {
 			},
 			// Contract event settings
 			{
-				displayName: 'Contract Address',
+				displayName: 'Contract Addresses',
 				name: 'contractAddress',
 				type: 'string',
 				default: '',
 				required: true,
-				placeholder: 'ronin:1234... or 0x1234...',
-				description: 'Contract to listen for events',
+				placeholder: 'ronin:1234..., 0x5678...',
+				description: 'Contracts to listen for events, separated by commas',
 				displayOptions: {
 					show: {
 						event: ['contractEvent'],
@@ -125,6 +222,229 @@ export class RoninTrigger implements INodeType {
 					},
 				},
 			},
+			// Pending transaction settings
+			{
+				displayName: 'Method Selectors',
+				name: 'methodSelectors',
+				type: 'string',
+				default: '',
+				placeholder: '0xa9059cbb, transfer(address,uint256)',
+				description: 'Only trigger for calls to these methods, separated by commas or new lines. Accepts 4-byte selectors or function signatures such as transfer(address,uint256). Leave empty for all transactions.',
+				displayOptions: {
+					show: {
+						event: ['pendingTransaction'],
+					},
+				},
+			},
+			{
+				displayName: 'Decode ABI',
+				name: 'decodeAbi',
+				type: 'json',
+				default: '[]',
+				description: 'Contract ABI used to decode the calldata of matching transactions (optional)',
+				displayOptions: {
+					show: {
+						event: ['pendingTransaction'],
+					},
+				},
+			},
+			// Balance watch settings
+			{
+				displayName: 'Balance Tokens',
+				name: 'balanceTokens',
+				type: 'string',
+				default: 'RON',
+				placeholder: 'RON, AXS, 0x1234...',
+				description: 'Balances to watch for each address, separated by commas. Use RON for the native balance, a token symbol or a token address.',
+				displayOptions: {
+					show: {
+						event: ['balanceChange'],
+					},
+				},
+			},
+			{
+				displayName: 'Low Watermark',
+				name: 'lowWatermark',
+				type: 'string',
+				default: '',
+				placeholder: '5',
+				description: 'Trigger when a balance falls below (or recovers to) this amount, in token units. Leave empty to disable.',
+				displayOptions: {
+					show: {
+						event: ['balanceChange'],
+					},
+				},
+			},
+			{
+				displayName: 'High Watermark',
+				name: 'highWatermark',
+				type: 'string',
+				default: '',
+				placeholder: '1000',
+				description: 'Trigger when a balance rises above (or drops back to) this amount, in token units. Leave empty to disable.',
+				displayOptions: {
+					show: {
+						event: ['balanceChange'],
+					},
+				},
+			},
+			{
+				displayName: 'Change Percentage',
+				name: 'changePercent',
+				type: 'number',
+				default: 0,
+				typeOptions: {
+					minValue: 0,
+				},
+				description: 'Trigger when a balance changes by more than this percentage since the last poll (0 to disable)',
+				displayOptions: {
+					show: {
+						event: ['balanceChange'],
+					},
+				},
+			},
+			// Katana pairs
+			{
+				displayName: 'Pairs',
+				name: 'katanaPairs',
+				type: 'multiOptions',
+				options: KATANA_PAIRS.map((pair) => ({
+					name: `${pair.tokenA}/${pair.tokenB}`,
+					value: `${pair.tokenA}/${pair.tokenB}`,
+				})),
+				default: [],
+				description: 'Katana pairs to watch (empty for all listed pairs)',
+				displayOptions: {
+					show: {
+						event: ['katanaSwap', 'katanaSync'],
+					},
+				},
+			},
+			// Axie enrichment
+			{
+				displayName: 'Enrich With Axie Details',
+				name: 'enrichAxies',
+				type: 'boolean',
+				default: false,
+				description: 'Whether to add class, parts, purity, breed count and stats to each event. Uses the Skynet API when Ronin API credentials are configured, otherwise reads the genes on-chain.',
+				displayOptions: {
+					show: {
+						event: ['axieTransfer'],
+					},
+				},
+			},
+			{
+				displayName: 'Classes',
+				name: 'axieClasses',
+				type: 'multiOptions',
+				options: AXIE_CLASSES.map((axieClass) => ({
+					name: axieClass.charAt(0).toUpperCase() + axieClass.slice(1),
+					value: axieClass,
+				})),
+				default: [],
+				description: 'Only trigger for Axies of these classes (empty for all)',
+				displayOptions: {
+					show: {
+						event: ['axieTransfer'],
+						enrichAxies: [true],
+					},
+				},
+			},
+			{
+				displayName: 'Minimum Purity (%)',
+				name: 'axieMinPurity',
+				type: 'number',
+				default: 0,
+				typeOptions: {
+					minValue: 0,
+					maxValue: 100,
+				},
+				description: 'Only trigger for Axies whose dominant parts match their class at least this much',
+				displayOptions: {
+					show: {
+						event: ['axieTransfer'],
+						enrichAxies: [true],
+					},
+				},
+			},
+			{
+				displayName: 'Max Breed Count',
+				name: 'axieMaxBreedCount',
+				type: 'number',
+				default: 7,
+				typeOptions: {
+					minValue: 0,
+					maxValue: 7,
+				},
+				description: 'Only trigger for Axies bred at most this many times',
+				displayOptions: {
+					show: {
+						event: ['axieTransfer'],
+						enrichAxies: [true],
+					},
+				},
+			},
+			// Marketplace sale filters
+			{
+				displayName: 'Collection',
+				name: 'saleCollection',
+				type: 'options',
+				options: [
+					{ name: 'All Collections', value: 'all' },
+					{ name: 'Axie', value: 'axie' },
+					{ name: 'Land', value: 'land' },
+					{ name: 'Item', value: 'item' },
+				],
+				default: 'all',
+				description: 'Only trigger on sales of this collection',
+				displayOptions: {
+					show: {
+						event: ['marketplaceSale'],
+					},
+				},
+			},
+			{
+				displayName: 'Minimum Price',
+				name: 'saleMinPrice',
+				type: 'number',
+				default: 0,
+				typeOptions: {
+					minValue: 0,
+					numberPrecision: 6,
+				},
+				description: 'Only trigger on sales at or above this price, in units of the payment token (0 for any price)',
+				displayOptions: {
+					show: {
+						event: ['marketplaceSale'],
+					},
+				},
+			},
+			{
+				displayName: 'Seller Address',
+				name: 'saleSeller',
+				type: 'string',
+				default: '',
+				placeholder: 'ronin:1234... or leave empty for all',
+				description: 'Only trigger on sales by this seller (optional)',
+				displayOptions: {
+					show: {
+						event: ['marketplaceSale'],
+					},
+				},
+			},
+			{
+				displayName: 'Buyer Address',
+				name: 'saleBuyer',
+				type: 'string',
+				default: '',
+				placeholder: 'ronin:1234... or leave empty for all',
+				description: 'Only trigger on sales to this buyer (optional)',
+				displayOptions: {
+					show: {
+						event: ['marketplaceSale'],
+					},
+				},
+			},
 			// Polling interval
 			{
 				displayName: 'Polling Interval (seconds)',
@@ -133,17 +453,103 @@ export class RoninTrigger implements INodeType {
 				default: 15,
 				description: 'How often to check for new events',
 			},
+			// Checkpointing
+			{
+				displayName: 'Start From',
+				name: 'startFrom',
+				type: 'options',
+				options: [
+					{ name: 'Latest Block', value: 'latest', description: 'Start at the chain head on first activation' },
+					{ name: 'Specific Block', value: 'block', description: 'Replay history starting at a given block' },
+				],
+				default: 'latest',
+				description: 'Where to start when no checkpoint has been stored yet. Once running, the trigger resumes from its last processed block after restarts.',
+				displayOptions: {
+					hide: {
+						event: ['balanceChange', 'pendingTransaction'],
+					},
+				},
+			},
+			{
+				displayName: 'Start Block',
+				name: 'startBlock',
+				type: 'number',
+				default: 0,
+				description: 'First block to process',
+				displayOptions: {
+					show: {
+						startFrom: ['block'],
+					},
+					hide: {
+						event: ['balanceChange', 'pendingTransaction'],
+					},
+				},
+			},
+			{
+				displayName: 'Max Blocks Per Poll',
+				name: 'maxBlocksPerPoll',
+				type: 'number',
+				default: 100,
+				typeOptions: {
+					minValue: 1,
+				},
+				description: 'Maximum number of blocks processed per poll, so catching up after downtime is spread over several polls',
+				displayOptions: {
+					hide: {
+						event: ['balanceChange', 'pendingTransaction'],
+					},
+				},
+			},
+			// Reorg protection
+			{
+				displayName: 'Required Confirmations',
+				name: 'requiredConfirmations',
+				type: 'number',
+				default: 0,
+				typeOptions: {
+					minValue: 0,
+				},
+				description: 'Number of blocks that must be built on top of a block before its events are emitted',
+				displayOptions: {
+					hide: {
+						event: ['balanceChange', 'pendingTransaction'],
+					},
+				},
+			},
+			{
+				displayName: 'Reorg Check Depth',
+				name: 'reorgCheckDepth',
+				type: 'number',
+				default: 20,
+				typeOptions: {
+					minValue: 0,
+				},
+				description: 'How many recent blocks to re-check for hash changes. When an emitted block is orphaned, a "reorged" item with the original transaction hash is emitted. Set to 0 to disable.',
+				displayOptions: {
+					hide: {
+						event: ['balanceChange', 'pendingTransaction'],
+					},
+				},
+			},
 		],
 	};
 
 	async trigger(this: ITriggerFunctions): Promise<ITriggerResponse> {
 		const event = this.getNodeParameter('event') as string;
 		const pollingInterval = this.getNodeParameter('pollingInterval') as number;
+		const maxBlocksPerPoll = this.getNodeParameter('maxBlocksPerPoll', 100) as number;
+		const requiredConfirmations = this.getNodeParameter('requiredConfirmations', 0) as number;
+		const reorgCheckDepth = this.getNodeParameter('reorgCheckDepth', 20) as number;
+		const cursorOptions: BlockCursorOptions = {
+			startFrom: this.getNodeParameter('startFrom', 'latest') as StartFrom,
+			startBlock: this.getNodeParameter('startBlock', 0) as number,
+		};
 		
 		// Get credentials
 		const credentials = await this.getCredentials('roninNetwork');
 		const network = credentials.network as string;
 		const customRpcUrl = credentials.rpcUrl as string;
+		const wsUrl = credentials.wsUrl as string | undefined;
 		
 		let rpcUrl: string;
 		if (network === 'custom' && customRpcUrl) {
@@ -155,251 +561,740 @@ export class RoninTrigger implements INodeType {
 		}
 		
 		const provider = new ethers.JsonRpcProvider(rpcUrl);
+		const contractNetwork = network === 'testnet' ? 'testnet' : 'mainnet';
+		const contracts = getContracts(contractNetwork);
+		const fetchLogs = (filter: ethers.Filter) => provider.getLogs(filter);
+		// Balance polls share one client instead of building one per poll
+		const balanceClient = event === 'balanceChange' ? await createRoninClient(this) : undefined;
 		
-		let lastBlockNumber = await provider.getBlockNumber();
-		let intervalId: NodeJS.Timeout;
+		// Resume from the stored checkpoint so restarts don't skip blocks
+		const cursorState = this.getWorkflowStaticData('node') as BlockCursorState & ReorgState;
+		let lastBlockNumber = resolveStartingBlock(
+			cursorState,
+			cursorOptions,
+			Math.max(0, (await provider.getBlockNumber()) - requiredConfirmations),
+		);
+		saveCheckpoint(cursorState, cursorOptions, lastBlockNumber);
 		
-		const checkForEvents = async () => {
+		const getWatchAddresses = (): Set<string> => {
+			const watchAddress = this.getNodeParameter('watchAddress', '') as string;
+			return new Set(parseAddressList(watchAddress).map((address) => address.toLowerCase()));
+		};
+		
+		// One annotation per watched address involved; a single empty one when watching everything
+		const annotateMatches = (from: string, to: string | null, watched: Set<string>): IDataObject[] => {
+			if (watched.size === 0) {
+				return [{}];
+			}
+			return matchWatchedAddresses(from, to, watched).map((match) => ({
+				watchedAddress: hexToRonin(match.address),
+				direction: match.direction,
+			}));
+		};
+		
+		/**
+		 * Fetch all blocks of a range concurrently (sent as one JSON-RPC batch).
+		 * The range is truncated at the first block the node cannot serve yet.
+		 */
+		const fetchBlocks = async (range: BlockRange, prefetchTxs: boolean) => {
+			const heights: number[] = [];
+			for (let blockNum = range.fromBlock; blockNum <= range.toBlock; blockNum++) {
+				heights.push(blockNum);
+			}
+			
+			const blocks = await Promise.all(heights.map((blockNum) => provider.getBlock(blockNum, prefetchTxs)));
+			const missing = blocks.findIndex((block) => !block);
+			
+			return {
+				blocks: (missing === -1 ? blocks : blocks.slice(0, missing)) as ethers.Block[],
+				toBlock: missing === -1 ? range.toBlock : range.fromBlock + missing - 1,
+			};
+		};
+		
+		/**
+		 * Look up Axie profiles, through Skynet when an API key is configured
+		 * and from the on-chain genes otherwise
+		 */
+		const fetchAxieProfiles = async (axieIds: string[]): Promise<Map<string, AxieProfile>> => {
+			const profiles = new Map<string, AxieProfile>();
+			
+			let hasApiCredentials = false;
 			try {
-				const currentBlock = await provider.getBlockNumber();
+				await this.getCredentials('roninApi');
+				hasApiCredentials = true;
+			} catch {
+				// No Skynet credentials configured
+			}
+			
+			if (hasApiCredentials) {
+				const skynetClient = await createSkynetClient(this);
+				const axies = await Promise.all(axieIds.map((axieId) => skynetClient.getAxie(axieId)));
 				
-				if (currentBlock <= lastBlockNumber) {
-					return;
+				axies.forEach((axie, i) => {
+					if (!axie) return;
+					const parts = axie.parts.map((part) => ({
+						part: part.type.toLowerCase(),
+						id: part.id,
+						name: part.name,
+						class: part.class.toLowerCase(),
+					}));
+					const axieClass = axie.class.toLowerCase();
+					
+					profiles.set(axieIds[i], {
+						class: axieClass,
+						parts,
+						purity: parts.length > 0
+							? (parts.filter((part) => part.class === axieClass).length / parts.length) * 100
+							: 0,
+						breedCount: axie.breedCount,
+						stats: axie.stats,
+					});
+				});
+				return profiles;
+			}
+			
+			// Concurrent calls are sent as a single JSON-RPC batch
+			const axieContract = new ethers.Contract(contracts.AXIE_NFT, AXIE_ABI, provider);
+			const axies = await Promise.all(axieIds.map((axieId) => axieContract.getAxie(axieId)));
+			
+			axies.forEach((axie, i) => {
+				const geneHex = ethers.toBeHex(axie.genes, 32);
+				profiles.set(axieIds[i], buildAxieProfile(geneHex, Number(axie.breedCount)));
+			});
+			return profiles;
+		};
+		
+		// Pair addresses are looked up once per activation
+		let katanaPairs: KatanaPair[] | undefined;
+		const getKatanaPairs = async (): Promise<KatanaPair[]> => {
+			if (katanaPairs) return katanaPairs;
+			
+			const selected = this.getNodeParameter('katanaPairs', []) as string[];
+			const pairs = KATANA_PAIRS
+				.filter((pair) => selected.length === 0 || selected.includes(`${pair.tokenA}/${pair.tokenB}`))
+				.map((pair) => [pair.tokenA, pair.tokenB].map((symbol) =>
+					// Pairs hold wrapped RON
+					getToken(contractNetwork, symbol === 'RON' ? 'WRON' : symbol),
+				))
+				.filter(([tokenA, tokenB]) => tokenA && tokenB);
+			
+			const factory = new ethers.Contract(contracts.KATANA_FACTORY, KATANA_FACTORY_ABI, provider);
+			const addresses: string[] = await Promise.all(
+				pairs.map(([tokenA, tokenB]) => factory.getPair(tokenA!.address, tokenB!.address)),
+			);
+			
+			katanaPairs = pairs
+				.map(([tokenA, tokenB], i) => buildKatanaPair(addresses[i], tokenA!, tokenB!))
+				.filter((pair) => pair.address !== ethers.ZeroAddress);
+			return katanaPairs;
+		};
+		
+		/**
+		 * Collect the events of a block range, grouped by block
+		 */
+		const collectEvents = async (range: BlockRange) => {
+			const collected = new Map<number, { blockHash: string; items: IDataObject[] }>();
+			const addItem = (blockNumber: number, blockHash: string, item: IDataObject) => {
+				const entry = collected.get(blockNumber) ?? { blockHash, items: [] };
+				entry.items.push(item);
+				collected.set(blockNumber, entry);
+			};
+			let toBlock = range.toBlock;
+			
+			switch (event) {
+				case 'newBlock': {
+					const result = await fetchBlocks(range, false);
+					toBlock = result.toBlock;
+					
+					for (const block of result.blocks) {
+						addItem(block.number, block.hash as string, {
+							blockNumber: block.number,
+							blockHash: block.hash,
+							timestamp: block.timestamp,
+							timestampDate: new Date(block.timestamp * 1000).toISOString(),
+							transactionCount: block.transactions.length,
+							gasUsed: block.gasUsed.toString(),
+							miner: block.miner,
+						});
+					}
+					break;
 				}
 				
-				// Process new blocks
-				for (let blockNum = lastBlockNumber + 1; blockNum <= currentBlock; blockNum++) {
-					const block = await provider.getBlock(blockNum, true);
-					if (!block) continue;
+				case 'ronReceived':
+				case 'ronSent': {
+					// Native transfers emit no logs, so scan the prefetched block transactions
+					const watched = getWatchAddresses();
+					if (watched.size === 0) break;
 					
-					switch (event) {
-						case 'newBlock': {
-							this.emit([
-								this.helpers.returnJsonArray([{
-									blockNumber: block.number,
-									blockHash: block.hash,
-									timestamp: block.timestamp,
-									timestampDate: new Date(block.timestamp * 1000).toISOString(),
-									transactionCount: block.transactions.length,
-									gasUsed: block.gasUsed.toString(),
-									miner: block.miner,
-								}]),
-							]);
-							break;
-						}
-						
-						case 'ronReceived':
-						case 'ronSent': {
-							const watchAddress = this.getNodeParameter('watchAddress') as string;
-							if (!watchAddress) break;
-							
-							const normalizedWatch = normalizeAddress(watchAddress).toLowerCase();
+					const result = await fetchBlocks(range, true);
+					toBlock = result.toBlock;
+					
+					for (const block of result.blocks) {
+						for (const tx of block.prefetchedTransactions) {
+							if (tx.value === BigInt(0)) continue;
 							
-							for (const txHash of block.transactions) {
-								const tx = typeof txHash === 'string' 
-									? await provider.getTransaction(txHash)
-									: txHash;
-								
-								if (!tx || tx.value === BigInt(0)) continue;
-								
-								const isReceived = tx.to?.toLowerCase() === normalizedWatch;
-								const isSent = tx.from.toLowerCase() === normalizedWatch;
+							for (const match of matchWatchedAddresses(tx.from, tx.to, watched)) {
+								const isReceived = match.direction !== 'out';
+								const isSent = match.direction !== 'in';
 								
 								if ((event === 'ronReceived' && isReceived) || (event === 'ronSent' && isSent)) {
-									this.emit([
-										this.helpers.returnJsonArray([{
-											event: event === 'ronReceived' ? 'received' : 'sent',
-											txHash: tx.hash,
-											from: hexToRonin(tx.from),
-											to: tx.to ? hexToRonin(tx.to) : null,
-											amount: weiToRon(tx.value.toString()),
-											blockNumber: block.number,
-											timestamp: block.timestamp,
-										}]),
-									]);
+									addItem(block.number, block.hash as string, {
+										event: event === 'ronReceived' ? 'received' : 'sent',
+										txHash: tx.hash,
+										from: hexToRonin(tx.from),
+										to: tx.to ? hexToRonin(tx.to) : null,
+										amount: weiToRon(tx.value.toString()),
+										watchedAddress: hexToRonin(match.address),
+										direction: match.direction,
+										blockNumber: block.number,
+										timestamp: block.timestamp,
+									});
 								}
 							}
-							break;
 						}
+					}
+					break;
+				}
+				
+				case 'tokenTransfer': {
+					const watched = getWatchAddresses();
+					const tokenAddresses = parseAddressList(this.getNodeParameter('tokenAddress') as string);
+					
+					const queries = buildTransferQueries(Array.from(watched), tokenAddresses);
+					const logs = await scanLogs(fetchLogs, queries, range.fromBlock, range.toBlock);
+					
+					for (const log of logs) {
+						// ERC20 transfers carry the amount in data; ERC721 index the token id
+						if (log.topics.length !== 3) continue;
 						
-						case 'tokenTransfer': {
-							const watchAddress = this.getNodeParameter('watchAddress') as string;
-							const tokenAddress = this.getNodeParameter('tokenAddress') as string;
-							
-							// Get Transfer event logs
-							const transferTopic = ethers.id('Transfer(address,address,uint256)');
-							
-							const filter: ethers.Filter = {
-								fromBlock: blockNum,
-								toBlock: blockNum,
-								topics: [transferTopic],
-							};
-							
-							if (tokenAddress) {
-								filter.address = normalizeAddress(tokenAddress);
-							}
-							
-							const logs = await provider.getLogs(filter);
-							
-							for (const log of logs) {
-								const from = '0x' + log.topics[1].slice(26);
-								const to = '0x' + log.topics[2].slice(26);
-								
-								if (watchAddress) {
-									const normalizedWatch = normalizeAddress(watchAddress).toLowerCase();
-									if (from.toLowerCase() !== normalizedWatch && to.toLowerCase() !== normalizedWatch) {
-										continue;
-									}
-								}
-								
-								const amount = BigInt(log.data).toString();
-								
-								this.emit([
-									this.helpers.returnJsonArray([{
-										event: 'tokenTransfer',
-										token: log.address,
-										from: hexToRonin(from),
-										to: hexToRonin(to),
-										amount,
-										txHash: log.transactionHash,
-										blockNumber: log.blockNumber,
-									}]),
-								]);
-							}
-							break;
+						const from = topicToAddress(log.topics[1]);
+						const to = topicToAddress(log.topics[2]);
+						
+						for (const annotation of annotateMatches(from, to, watched)) {
+							addItem(log.blockNumber, log.blockHash, {
+								event: 'tokenTransfer',
+								token: log.address,
+								from: hexToRonin(from),
+								to: hexToRonin(to),
+								amount: BigInt(log.data).toString(),
+								...annotation,
+								txHash: log.transactionHash,
+								blockNumber: log.blockNumber,
+							});
 						}
+					}
+					break;
+				}
+				
+				case 'nftTransfer':
+				case 'axieTransfer': {
+					const watched = getWatchAddresses();
+					
+					const queries = buildTransferQueries(
+						Array.from(watched),
+						event === 'axieTransfer' ? [contracts.AXIE_NFT] : undefined,
+					);
+					// NFTs have tokenId in topics[3]; anything shorter is not ERC721
+					const logs = (await scanLogs(fetchLogs, queries, range.fromBlock, range.toBlock))
+						.filter((log) => log.topics.length >= 4);
+					
+					const enrichAxies = event === 'axieTransfer' && (this.getNodeParameter('enrichAxies', false) as boolean);
+					let profiles = new Map<string, AxieProfile>();
+					const axieFilters: AxieFilters = {};
+					if (enrichAxies && logs.length > 0) {
+						axieFilters.classes = this.getNodeParameter('axieClasses', []) as string[];
+						axieFilters.minPurity = this.getNodeParameter('axieMinPurity', 0) as number;
+						axieFilters.maxBreedCount = this.getNodeParameter('axieMaxBreedCount', 7) as number;
 						
-						case 'nftTransfer':
-						case 'axieTransfer': {
-							const watchAddress = this.getNodeParameter('watchAddress') as string;
-							
-							// ERC721 Transfer event
-							const transferTopic = ethers.id('Transfer(address,address,uint256)');
-							
-							const filter: ethers.Filter = {
-								fromBlock: blockNum,
-								toBlock: blockNum,
-								topics: [transferTopic],
-							};
-							
-							if (event === 'axieTransfer') {
-								filter.address = MAINNET_CONTRACTS.AXIE_NFT;
-							}
-							
-							const logs = await provider.getLogs(filter);
-							
-							for (const log of logs) {
-								// NFTs have tokenId in topics[3] or data
-								if (log.topics.length < 4) continue; // Not ERC721
-								
-								const from = '0x' + log.topics[1].slice(26);
-								const to = '0x' + log.topics[2].slice(26);
-								const tokenId = BigInt(log.topics[3]).toString();
-								
-								if (watchAddress) {
-									const normalizedWatch = normalizeAddress(watchAddress).toLowerCase();
-									if (from.toLowerCase() !== normalizedWatch && to.toLowerCase() !== normalizedWatch) {
-										continue;
-									}
-								}
-								
-								this.emit([
-									this.helpers.returnJsonArray([{
-										event: event === 'axieTransfer' ? 'axieTransfer' : 'nftTransfer',
-										contract: log.address,
-										tokenId,
-										from: hexToRonin(from),
-										to: hexToRonin(to),
-										txHash: log.transactionHash,
-										blockNumber: log.blockNumber,
-									}]),
-								]);
-							}
-							break;
+						const axieIds = Array.from(new Set(logs.map((log) => BigInt(log.topics[3]).toString())));
+						profiles = await fetchAxieProfiles(axieIds);
+					}
+					
+					for (const log of logs) {
+						const tokenId = BigInt(log.topics[3]).toString();
+						const from = topicToAddress(log.topics[1]);
+						const to = topicToAddress(log.topics[2]);
+						
+						let details: IDataObject = {};
+						if (enrichAxies) {
+							const profile = profiles.get(tokenId);
+							if (!profile || !matchesAxieFilters(profile, axieFilters)) continue;
+							details = { axie: profile as unknown as IDataObject };
 						}
 						
-						case 'contractEvent': {
-							const contractAddress = this.getNodeParameter('contractAddress') as string;
-							const eventAbiInput = this.getNodeParameter('eventAbi') as string | object;
-							const eventName = this.getNodeParameter('eventName') as string;
-							
-							const eventAbi = typeof eventAbiInput === 'string' 
-								? JSON.parse(eventAbiInput) 
-								: eventAbiInput;
-							
-							const iface = new ethers.Interface(eventAbi);
-							const eventFragment = iface.getEvent(eventName);
-							
-							if (!eventFragment) break;
-							
-							const eventTopic = eventFragment.topicHash;
-							
-							const logs = await provider.getLogs({
-								address: normalizeAddress(contractAddress),
-								fromBlock: blockNum,
-								toBlock: blockNum,
-								topics: [eventTopic],
+						for (const annotation of annotateMatches(from, to, watched)) {
+							addItem(log.blockNumber, log.blockHash, {
+								event: event === 'axieTransfer' ? 'axieTransfer' : 'nftTransfer',
+								contract: log.address,
+								tokenId,
+								from: hexToRonin(from),
+								to: hexToRonin(to),
+								...details,
+								...annotation,
+								txHash: log.transactionHash,
+								blockNumber: log.blockNumber,
 							});
-							
-							for (const log of logs) {
-								try {
-									const decoded = iface.parseLog({
-										topics: log.topics as string[],
-										data: log.data,
-									});
-									
-									this.emit([
-										this.helpers.returnJsonArray([{
-											event: eventName,
-											contract: log.address,
-											args: decoded?.args.toObject(),
-											txHash: log.transactionHash,
-											blockNumber: log.blockNumber,
-										}]),
-									]);
-								} catch {
-									// Skip logs that fail to decode
-								}
-							}
-							break;
 						}
-						
-						case 'marketplaceSale': {
-							// Listen for OrdersMatched event on marketplace
-							const orderMatchedTopic = ethers.id('OrdersMatched(bytes32,bytes32,address,address,uint256)');
-							
-							const logs = await provider.getLogs({
-								address: MAINNET_CONTRACTS.MARKETPLACE_V2,
-								fromBlock: blockNum,
-								toBlock: blockNum,
-								topics: [orderMatchedTopic],
+					}
+					break;
+				}
+				
+				case 'contractEvent': {
+					const contractAddresses = parseAddressList(this.getNodeParameter('contractAddress') as string);
+					const eventAbiInput = this.getNodeParameter('eventAbi') as string | object;
+					const eventName = this.getNodeParameter('eventName') as string;
+					
+					const eventAbi = typeof eventAbiInput === 'string' 
+						? JSON.parse(eventAbiInput) 
+						: eventAbiInput;
+					
+					const iface = new ethers.Interface(eventAbi);
+					const eventFragment = iface.getEvent(eventName);
+					
+					if (!eventFragment) break;
+					
+					const logs = await scanLogs(
+						fetchLogs,
+						[{ address: contractAddresses, topics: [eventFragment.topicHash] }],
+						range.fromBlock,
+						range.toBlock,
+					);
+					
+					for (const log of logs) {
+						try {
+							const decoded = iface.parseLog({
+								topics: log.topics as string[],
+								data: log.data,
 							});
 							
-							for (const log of logs) {
-								this.emit([
-									this.helpers.returnJsonArray([{
-										event: 'marketplaceSale',
-										contract: log.address,
-										txHash: log.transactionHash,
-										blockNumber: log.blockNumber,
-										data: log.data,
-									}]),
-								]);
-							}
-							break;
+							addItem(log.blockNumber, log.blockHash, {
+								event: eventName,
+								contract: log.address,
+								args: decoded?.args.toObject(),
+								txHash: log.transactionHash,
+								blockNumber: log.blockNumber,
+							});
+						} catch {
+							// Skip logs that fail to decode
 						}
 					}
+					break;
+				}
+				
+				case 'marketplaceSale': {
+					// Listen for OrdersMatched event on marketplace
+					const logs = await scanLogs(
+						fetchLogs,
+						[{ address: contracts.MARKETPLACE_V2, topics: [ORDERS_MATCHED_TOPIC] }],
+						range.fromBlock,
+						range.toBlock,
+					);
+					if (logs.length === 0) break;
+					
+					const collection = this.getNodeParameter('saleCollection', 'all') as string;
+					const minPrice = this.getNodeParameter('saleMinPrice', 0) as number;
+					const [seller] = parseAddressList(this.getNodeParameter('saleSeller', '') as string);
+					const [buyer] = parseAddressList(this.getNodeParameter('saleBuyer', '') as string);
+					const collectionAddress = collection !== 'all'
+						? NFT_CONTRACTS[collection][contractNetwork].toLowerCase()
+						: undefined;
+					
+					// The NFT and payment transfers are in the settling transaction's receipt
+					const txHashes = Array.from(new Set(logs.map((log) => log.transactionHash)));
+					const receipts = await Promise.all(txHashes.map((hash) => provider.getTransactionReceipt(hash)));
+					const receiptLogs = new Map<string, readonly ethers.Log[]>();
+					txHashes.forEach((hash, i) => receiptLogs.set(hash, receipts[i]?.logs ?? []));
+					
+					for (const log of logs) {
+						const sale = decodeMarketplaceSale(log, receiptLogs.get(log.transactionHash)!, contractNetwork);
+						
+						if (collectionAddress && sale.nftContract !== collectionAddress) continue;
+						if (seller && sale.seller !== seller.toLowerCase()) continue;
+						if (buyer && sale.buyer !== buyer.toLowerCase()) continue;
+						if (minPrice > 0 && Number(sale.price) < minPrice) continue;
+						
+						addItem(log.blockNumber, log.blockHash, {
+							event: 'marketplaceSale',
+							contract: log.address,
+							orderHash: sale.orderHash,
+							seller: hexToRonin(sale.seller),
+							buyer: hexToRonin(sale.buyer),
+							nftContract: sale.nftContract,
+							tokenId: sale.tokenId,
+							paymentToken: sale.paymentToken,
+							paymentSymbol: sale.paymentSymbol,
+							price: sale.price,
+							priceRaw: sale.priceRaw,
+							marketFee: sale.marketFee,
+							marketFeeRaw: sale.marketFeeRaw,
+							txHash: log.transactionHash,
+							blockNumber: log.blockNumber,
+						});
+					}
+					break;
+				}
+				
+				case 'stakingDelegated':
+				case 'stakingUndelegated':
+				case 'stakingRewardClaimed':
+				case 'bridgeDeposit':
+				case 'bridgeWithdrawalRequested':
+				case 'bridgeWithdrawalCompleted':
+				case 'katanaSwap':
+				case 'katanaSync': {
+					let address: string | string[];
+					let topic: string;
+					let decode: (log: ethers.Log) => DecodedProtocolEvent;
+					
+					if (event in STAKING_TRIGGER_EVENTS) {
+						address = contracts.RON_STAKING;
+						topic = getEventTopic(STAKING_INTERFACE, STAKING_TRIGGER_EVENTS[event]);
+						decode = decodeStakingLog;
+					} else if (event in BRIDGE_TRIGGER_EVENTS) {
+						address = contracts.BRIDGE_GATEWAY;
+						topic = getEventTopic(BRIDGE_INTERFACE, BRIDGE_TRIGGER_EVENTS[event]);
+						decode = (log) => decodeBridgeLog(log, contractNetwork);
+					} else {
+						const pairs = await getKatanaPairs();
+						if (pairs.length === 0) break;
+						
+						const pairsByAddress = new Map(pairs.map((pair) => [pair.address, pair]));
+						address = pairs.map((pair) => pair.address);
+						topic = getEventTopic(KATANA_PAIR_INTERFACE, KATANA_TRIGGER_EVENTS[event]);
+						decode = (log) => decodeKatanaLog(log, pairsByAddress.get(log.address.toLowerCase())!);
+					}
+					
+					const logs = await scanLogs(fetchLogs, [{ address, topics: [topic] }], range.fromBlock, range.toBlock);
+					const watched = getWatchAddresses();
+					
+					for (const log of logs) {
+						const decoded = decode(log);
+						if (watched.size > 0 && !decoded.parties.some((party) => watched.has(party))) continue;
+						
+						addItem(log.blockNumber, log.blockHash, {
+							...decoded.fields,
+							contract: log.address,
+							txHash: log.transactionHash,
+							blockNumber: log.blockNumber,
+						});
+					}
+					break;
+				}
+			}
+			
+			return { collected, toBlock };
+		};
+		
+		let isPolling = false;
+		let pollRequested = false;
+		let subscriber: WsSubscriber | undefined;
+		
+		// Compare balances with the previous poll; the first poll only sets the baseline
+		const checkBalances = async (currentBlock: number) => {
+			const balanceState = cursorState as BalanceState;
+			const addresses = parseAddressList(this.getNodeParameter('watchAddress', '') as string);
+			const tokens = (this.getNodeParameter('balanceTokens', 'RON') as string)
+				.split(/[\s,;]+/)
+				.filter((entry) => entry.length > 0)
+				.map((entry) => {
+					if (entry.toUpperCase() === 'RON') return null;
+					return getToken(contractNetwork, entry)?.address ?? normalizeAddress(entry);
+				});
+			const lowWatermark = this.getNodeParameter('lowWatermark', '') as string;
+			const highWatermark = this.getNodeParameter('highWatermark', '') as string;
+			const changePercent = this.getNodeParameter('changePercent', 0) as number;
+			
+			// Concurrent calls are sent as a single JSON-RPC batch
+			const observations = await Promise.all(
+				addresses.flatMap((address) => tokens.map(async (token) => {
+					if (token === null) {
+						const balance = await balanceClient!.getRonBalance(address);
+						return { address, token, raw: balance.wei, symbol: 'RON', decimals: 18 };
+					}
+					const balance = await balanceClient!.getTokenBalance(token, address);
+					return { address, token, raw: balance.raw, symbol: balance.symbol, decimals: balance.decimals };
+				})),
+			);
+			
+			const items: IDataObject[] = [];
+			const balances = { ...balanceState.balances };
+			for (const observation of observations) {
+				const key = getBalanceKey(observation.address, observation.token);
+				const previous = balances[key] !== undefined ? BigInt(balances[key]) : undefined;
+				const current = BigInt(observation.raw);
+				const thresholds: BalanceThresholds = {
+					lowWatermark: lowWatermark ? parseUnits(lowWatermark, observation.decimals) : undefined,
+					highWatermark: highWatermark ? parseUnits(highWatermark, observation.decimals) : undefined,
+					changePercent,
+				};
+				
+				const alerts = evaluateBalance(previous, current, thresholds);
+				balances[key] = observation.raw;
+				if (alerts.length === 0) continue;
+				
+				items.push({
+					event: 'balanceChanged',
+					alerts,
+					address: hexToRonin(observation.address),
+					token: observation.token,
+					symbol: observation.symbol,
+					previousBalance: formatUnits(previous!, observation.decimals),
+					balance: formatUnits(current, observation.decimals),
+					change: formatUnits(current - previous!, observation.decimals),
+					changePercent: getChangePercent(previous!, current),
+					blockNumber: currentBlock,
+				});
+			}
+			balanceState.balances = balances;
+			
+			if (items.length > 0) {
+				this.emit([this.helpers.returnJsonArray(items)]);
+			}
+		};
+		
+		// Re-check emitted blocks and retract events from orphaned ones
+		const checkForReorgs = async (currentBlock: number) => {
+			if (reorgCheckDepth <= 0) return;
+			
+			pruneEmissions(cursorState, currentBlock - reorgCheckDepth);
+			const tracked = getTrackedBlocks(cursorState);
+			if (tracked.length === 0) return;
+			
+			// Concurrent requests are sent as a single JSON-RPC batch
+			const blocks = await Promise.all(tracked.map((blockNum) => provider.getBlock(blockNum)));
+			const currentHashes = new Map<number, string | null>();
+			tracked.forEach((blockNum, i) => currentHashes.set(blockNum, blocks[i]?.hash ?? null));
+			
+			const reorged = takeReorgedBlocks(cursorState, currentHashes);
+			if (reorged.length === 0) return;
+			
+			const items: IDataObject[] = [];
+			for (const orphan of reorged) {
+				const txHashes = orphan.txHashes.length > 0 ? orphan.txHashes : [null];
+				for (const txHash of txHashes) {
+					items.push({
+						event: 'reorged',
+						originalEvent: event,
+						txHash,
+						blockNumber: orphan.blockNumber,
+						originalBlockHash: orphan.hash,
+						newBlockHash: orphan.newHash,
+					});
+				}
+			}
+			this.emit([this.helpers.returnJsonArray(items)]);
+			
+			// Rescan the orphaned heights on the new canonical chain
+			lastBlockNumber = Math.min(lastBlockNumber, reorged[0].blockNumber - 1);
+			saveCheckpoint(cursorState, cursorOptions, lastBlockNumber);
+		};
+		
+		const checkForEvents = async () => {
+			// Skip this tick if the previous poll is still catching up, but run
+			// again once it finishes so wake-ups during a poll are not dropped
+			if (isPolling) {
+				pollRequested = true;
+				return;
+			}
+			isPolling = true;
+			
+			try {
+				if (event === 'pendingTransaction') {
+					await checkPendingTransactions();
+					return;
+				}
+				
+				const currentBlock = await provider.getBlockNumber();
+				
+				// Balances are polled state, not block-range events
+				if (event === 'balanceChange') {
+					await checkBalances(currentBlock);
+					return;
+				}
+				
+				await checkForReorgs(currentBlock);
+				
+				// Only process blocks with enough confirmations on top
+				const confirmedBlock = currentBlock - requiredConfirmations;
+				const range = getNextBlockRange(lastBlockNumber, confirmedBlock, maxBlocksPerPoll);
+				
+				if (!range) {
+					return;
 				}
 				
-				lastBlockNumber = currentBlock;
+				const { collected, toBlock } = await collectEvents(range);
+				
+				// Emit one execution per block, in chain order
+				const blockNumbers = Array.from(collected.keys()).sort((a, b) => a - b);
+				for (const blockNum of blockNumbers) {
+					const { blockHash, items } = collected.get(blockNum)!;
+					const confirmations = currentBlock - blockNum;
+					
+					this.emit([
+						this.helpers.returnJsonArray(
+							items.map((item) => ({ ...item, blockHash, confirmations })),
+						),
+					]);
+					recordEmission(
+						cursorState,
+						blockNum,
+						blockHash,
+						items.map((item) => item.txHash).filter(Boolean) as string[],
+					);
+				}
+				
+				lastBlockNumber = toBlock;
+				saveCheckpoint(cursorState, cursorOptions, lastBlockNumber);
 			} catch (error) {
 				// Log error but continue polling
-				console.error('Ronin Trigger error:', error);
+				this.logger.error(`Ronin Trigger error: ${(error as Error).message}`);
+			} finally {
+				isPolling = false;
+				if (pollRequested) {
+					pollRequested = false;
+					void checkForEvents();
+				}
+			}
+		};
+		
+		// Pending transactions are not checkpointed; remember what was emitted instead
+		const seenPending = new SeenTransactions();
+		
+		const emitPendingTransactions = (transactions: PendingTransaction[]) => {
+			const watched = getWatchAddresses();
+			const selectors = new Set(parseSelectorList(this.getNodeParameter('methodSelectors', '') as string));
+			const abi = this.getNodeParameter('decodeAbi', '[]') as string | object;
+			
+			const items: IDataObject[] = [];
+			for (const tx of transactions) {
+				const selector = getSelector(tx.input);
+				if (selectors.size > 0 && (!selector || !selectors.has(selector))) continue;
+				
+				const annotations = annotateMatches(tx.from, tx.to, watched);
+				if (annotations.length === 0 || !seenPending.add(tx.hash)) continue;
+				
+				for (const annotation of annotations) {
+					items.push({
+						event: 'pendingTransaction',
+						txHash: tx.hash,
+						from: hexToRonin(tx.from),
+						to: tx.to ? hexToRonin(tx.to) : null,
+						value: weiToRon(tx.value),
+						nonce: tx.nonce,
+						selector,
+						decoded: (decodeCalldata(abi, tx.input) ?? null) as IDataObject | null,
+						...annotation,
+					});
+				}
+			}
+			
+			if (items.length > 0) {
+				this.emit([this.helpers.returnJsonArray(items)]);
+			}
+		};
+		
+		// Poll txpool_content while no pending transaction subscription is active
+		const readTxpool = async (): Promise<TxpoolContent> => {
+			try {
+				return await provider.send('txpool_content', []);
+			} catch (error) {
+				throw new Error(
+					`The RPC node does not expose txpool_content (${(error as Error).message}). Set a WebSocket URL on the credential to subscribe to pending transactions instead.`,
+				);
 			}
 		};
 		
-		// Start polling
-		intervalId = setInterval(checkForEvents, pollingInterval * 1000);
+		const checkPendingTransactions = async () => {
+			if (subscriber?.isSubscribed) return;
+			
+			const transactions = flattenTxpool(await readTxpool());
+			seenPending.retain(transactions.map((tx) => tx.hash));
+			emitPendingTransactions(transactions);
+		};
+		
+		// Subscriptions usually deliver hashes only, so fetch the transaction body
+		const handlePendingNotification = async (result: unknown) => {
+			try {
+				if (typeof result !== 'string') {
+					emitPendingTransactions([toPendingTransaction(result as RawPoolTransaction)]);
+					return;
+				}
+				
+				const tx = await provider.getTransaction(result);
+				if (!tx) return;
+				
+				emitPendingTransactions([{
+					hash: tx.hash,
+					from: tx.from.toLowerCase(),
+					to: tx.to ? tx.to.toLowerCase() : null,
+					input: tx.data,
+					value: tx.value,
+					nonce: tx.nonce,
+				}]);
+			} catch (error) {
+				this.logger.error(`Ronin Trigger error: ${(error as Error).message}`);
+			}
+		};
+		
+		/**
+		 * Logs worth waking up for, or null to wake up on every new block.
+		 * Blocks still need confirmations after a log arrives, so those wait for new heads.
+		 */
+		const getSubscriptionFilter = async (): Promise<SubscriptionLogFilter | null> => {
+			if (requiredConfirmations > 0) return null;
+			
+			if (event in STAKING_TRIGGER_EVENTS) return { address: contracts.RON_STAKING };
+			if (event in BRIDGE_TRIGGER_EVENTS) return { address: contracts.BRIDGE_GATEWAY };
+			if (event in KATANA_TRIGGER_EVENTS) {
+				return { address: (await getKatanaPairs()).map((pair) => pair.address) };
+			}
+			
+			switch (event) {
+				case 'tokenTransfer': {
+					const tokenAddresses = parseAddressList(this.getNodeParameter('tokenAddress') as string);
+					return {
+						address: tokenAddresses.length > 0 ? tokenAddresses : undefined,
+						topics: [TRANSFER_TOPIC],
+					};
+				}
+				case 'nftTransfer':
+					return { topics: [TRANSFER_TOPIC] };
+				case 'axieTransfer':
+					return { address: contracts.AXIE_NFT, topics: [TRANSFER_TOPIC] };
+				case 'contractEvent':
+					return { address: parseAddressList(this.getNodeParameter('contractAddress') as string) };
+				case 'marketplaceSale':
+					return { address: contracts.MARKETPLACE_V2, topics: [ORDERS_MATCHED_TOPIC] };
+				default:
+					return null;
+			}
+		};
+		
+		// Without a subscription the txpool is the only source of pending transactions,
+		// so fail activation instead of logging the same error on every poll
+		if (event === 'pendingTransaction' && !wsUrl) {
+			await readTxpool();
+		}
+		
+		// Start polling; with a WebSocket endpoint the interval is only a fallback
+		const intervalId = setInterval(checkForEvents, pollingInterval * 1000);
+		
+		// Subscription notifications only wake up the poller, which reads from the
+		// checkpoint, so events are not lost while the socket reconnects
+		if (wsUrl) {
+			const isPendingEvent = event === 'pendingTransaction';
+			subscriber = new WsSubscriber({
+				url: wsUrl,
+				type: isPendingEvent ? 'newPendingTransactions' : undefined,
+				logFilter: (await getSubscriptionFilter()) ?? undefined,
+				onNotification: isPendingEvent
+					? (_type, result) => void handlePendingNotification(result)
+					: () => void checkForEvents(),
+				onConnect: () => void checkForEvents(),
+				onError: (error) => this.logger.warn(`Ronin Trigger WebSocket error: ${error.message}`),
+			});
+			subscriber.start();
+		}
 		
 		// Initial check
 		await checkForEvents();
@@ -407,6 +1302,7 @@ export class RoninTrigger implements INodeType {
 		// Cleanup function
 		const closeFunction = async () => {
 			clearInterval(intervalId);
+			subscriber?.close();
 		};
 		
 		return {
@@ -1,9 +1,10 @@
 import { INodeProperties, IExecuteFunctions } from 'n8n-workflow';
 import { ethers } from 'ethers';
-import { createRoninClient } from '../../transport/roninClient';
+import { ClientExecutionOptions, createRoninClient } from '../../transport/roninClient';
 import { normalizeAddress, hexToRonin } from '../../utils/addressUtils';
 import { MAINNET_CONTRACTS, ERC20_ABI } from '../../constants/contracts';
 import { formatUnits, parseUnits } from '../../utils/unitConverter';
+import { batchTransferFields, executeBatchTransfer } from '../shared/batchTransfer';
 
 export const axsOperations: INodeProperties[] = [
 	{
@@ -19,6 +20,7 @@ export const axsOperations: INodeProperties[] = [
 		options: [
 			{ name: 'Get Balance', value: 'getBalance', description: 'Get AXS balance', action: 'Get AXS balance' },
 			{ name: 'Transfer', value: 'transfer', description: 'Transfer AXS', action: 'Transfer AXS' },
+			{ name: 'Batch Transfer', value: 'batchTransfer', description: 'Transfer AXS to many recipients at once', action: 'Batch transfer AXS' },
 			{ name: 'Get Token Info', value: 'getTokenInfo', description: 'Get AXS token information', action: 'Get token info' },
 		],
 		default: 'getBalance',
@@ -69,11 +71,16 @@ export const axsFields: INodeProperties[] = [
 			},
 		},
 	},
+	...batchTransferFields('axs'),
 ];
 
-export async function executeAxs(this: IExecuteFunctions, index: number): Promise<unknown> {
+export async function executeAxs(
+	this: IExecuteFunctions,
+	index: number,
+	execution: ClientExecutionOptions = {}
+): Promise<unknown> {
 	const operation = this.getNodeParameter('operation', index) as string;
-	const roninClient = await createRoninClient(this);
+	const roninClient = await createRoninClient(this, execution);
 
 	const AXS_DECIMALS = 18;
 
@@ -103,9 +110,8 @@ export async function executeAxs(this: IExecuteFunctions, index: number): Promis
 			const toAddress = this.getNodeParameter('toAddress', index) as string;
 			const amount = this.getNodeParameter('amount', index) as string;
 			
-			let signer;
 			try {
-				signer = roninClient.getSigner();
+				await roninClient.getSenderAddress();
 			} catch {
 				throw new Error('Private key required for transfer operations');
 			}
@@ -113,24 +119,26 @@ export async function executeAxs(this: IExecuteFunctions, index: number): Promis
 			const normalizedTo = normalizeAddress(toAddress);
 			const amountWei = parseUnits(amount, AXS_DECIMALS);
 
-			const axsContract = new ethers.Contract(
-				MAINNET_CONTRACTS.AXS,
-				ERC20_ABI,
-				signer
-			);
+			const erc20 = new ethers.Interface(ERC20_ABI);
 
-			const tx = await axsContract.transfer(normalizedTo, amountWei);
-			const receipt = await tx.wait();
+			const { hash, receipt } = await roninClient.sendTransaction({
+				to: MAINNET_CONTRACTS.AXS,
+				data: erc20.encodeFunctionData('transfer', [normalizedTo, amountWei]),
+			});
 
 			return {
 				success: true,
-				txHash: receipt.hash,
+				txHash: hash,
 				to: hexToRonin(normalizedTo),
 				amount,
-				gasUsed: receipt.gasUsed.toString(),
+				gasUsed: receipt?.gasUsed.toString(),
 			};
 		}
 
+		case 'batchTransfer': {
+			return executeBatchTransfer.call(this, index, roninClient, MAINNET_CONTRACTS.AXS, AXS_DECIMALS);
+		}
+
 		case 'getTokenInfo': {
 			const axsContract = new ethers.Contract(
 				MAINNET_CONTRACTS.AXS,
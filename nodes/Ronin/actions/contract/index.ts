@@ -1,7 +1,11 @@
 import { INodeProperties, IExecuteFunctions } from 'n8n-workflow';
 import { ethers } from 'ethers';
-import { createRoninClient } from '../../transport/roninClient';
+import { ClientExecutionOptions, createRoninClient } from '../../transport/roninClient';
+import { parseNonceOverride } from '../../transport/nonceManager';
+import { parseFeeOptions } from '../../utils/gasUtils';
+import { parseBatchCalls, toPlainValue } from '../../utils/multicall';
 import { normalizeAddress } from '../../utils/addressUtils';
+import { transactionOptionFields } from '../shared/transactionFields';
 
 export const contractOperations: INodeProperties[] = [
 	{
@@ -16,6 +20,7 @@ export const contractOperations: INodeProperties[] = [
 		},
 		options: [
 			{ name: 'Read Contract', value: 'read', description: 'Read from a smart contract', action: 'Read contract' },
+			{ name: 'Read Contract (Batch)', value: 'readBatch', description: 'Read many contract calls at once through Multicall3', action: 'Read contract batch' },
 			{ name: 'Write Contract', value: 'write', description: 'Write to a smart contract', action: 'Write contract' },
 			{ name: 'Get Code', value: 'getCode', description: 'Get contract bytecode', action: 'Get contract code' },
 			{ name: 'Estimate Gas', value: 'estimateGas', description: 'Estimate gas for transaction', action: 'Estimate gas' },
@@ -36,6 +41,9 @@ export const contractFields: INodeProperties[] = [
 			show: {
 				resource: ['contract'],
 			},
+			hide: {
+				operation: ['readBatch'],
+			},
 		},
 	},
 	{
@@ -48,7 +56,34 @@ export const contractFields: INodeProperties[] = [
 		displayOptions: {
 			show: {
 				resource: ['contract'],
-				operation: ['read', 'write'],
+				operation: ['read', 'write', 'readBatch'],
+			},
+		},
+	},
+	{
+		displayName: 'Calls',
+		name: 'calls',
+		type: 'json',
+		default: '[\n  {\n    "contractAddress": "",\n    "functionName": "balanceOf",\n    "parameters": []\n  }\n]',
+		required: true,
+		description: 'Calls as a JSON array of objects with contractAddress, functionName, parameters and an optional abi (defaults to the ABI above)',
+		displayOptions: {
+			show: {
+				resource: ['contract'],
+				operation: ['readBatch'],
+			},
+		},
+	},
+	{
+		displayName: 'Allow Failure',
+		name: 'allowFailure',
+		type: 'boolean',
+		default: true,
+		description: 'Whether failed calls are returned with their error instead of failing the whole batch',
+		displayOptions: {
+			show: {
+				resource: ['contract'],
+				operation: ['readBatch'],
 			},
 		},
 	},
@@ -92,12 +127,17 @@ export const contractFields: INodeProperties[] = [
 			},
 		},
 	},
+	...transactionOptionFields('contract', ['write']),
 ];
 
-export async function executeContract(this: IExecuteFunctions, index: number): Promise<unknown> {
+export async function executeContract(
+	this: IExecuteFunctions,
+	index: number,
+	execution: ClientExecutionOptions = {}
+): Promise<unknown> {
 	const operation = this.getNodeParameter('operation', index) as string;
-	const roninClient = await createRoninClient(this);
-	const contractAddress = this.getNodeParameter('contractAddress', index) as string;
+	const roninClient = await createRoninClient(this, execution);
+	const contractAddress = this.getNodeParameter('contractAddress', index, '') as string;
 
 	switch (operation) {
 		case 'read': {
@@ -130,11 +170,36 @@ export async function executeContract(this: IExecuteFunctions, index: number): P
 			};
 		}
 
+		case 'readBatch': {
+			const abiInput = this.getNodeParameter('abi', index) as string | object;
+			const callsInput = this.getNodeParameter('calls', index) as string | unknown[];
+			const allowFailure = this.getNodeParameter('allowFailure', index, true) as boolean;
+
+			const abi = typeof abiInput === 'string' ? JSON.parse(abiInput) : abiInput;
+			const calls = parseBatchCalls(callsInput, abi, allowFailure);
+
+			const results = await roninClient.multicall(calls);
+
+			return {
+				count: calls.length,
+				failed: results.filter((result) => !result.success).length,
+				results: calls.map((call, i) => ({
+					contract: call.target,
+					function: call.method,
+					success: results[i].success,
+					result: toPlainValue(results[i].value),
+					...(results[i].error ? { error: results[i].error } : {}),
+				})),
+			};
+		}
+
 		case 'write': {
 			const abiInput = this.getNodeParameter('abi', index) as string | object;
 			const functionName = this.getNodeParameter('functionName', index) as string;
 			const parametersInput = this.getNodeParameter('parameters', index) as string | unknown[];
 			const value = this.getNodeParameter('value', index) as string;
+			const nonce = parseNonceOverride(this.getNodeParameter('nonce', index, '') as string);
+			const fees = parseFeeOptions((name) => this.getNodeParameter(name, index, undefined));
 
 			const abi = typeof abiInput === 'string' ? JSON.parse(abiInput) : abiInput;
 			const parameters = typeof parametersInput === 'string' ? JSON.parse(parametersInput) : parametersInput;
@@ -144,7 +209,8 @@ export async function executeContract(this: IExecuteFunctions, index: number): P
 				abi,
 				functionName,
 				parameters,
-				value !== '0' ? value : undefined
+				value !== '0' ? value : undefined,
+				{ ...fees, nonce }
 			);
 
 			return {
@@ -153,6 +219,7 @@ export async function executeContract(this: IExecuteFunctions, index: number): P
 				contract: normalizeAddress(contractAddress),
 				function: functionName,
 				gasUsed: result.gasUsed,
+				effectiveGasPrice: result.effectiveGasPrice,
 			};
 		}
 
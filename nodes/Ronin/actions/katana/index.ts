@@ -1,6 +1,6 @@
 import { INodeProperties, IExecuteFunctions } from 'n8n-workflow';
 import { ethers } from 'ethers';
-import { createRoninClient } from '../../transport/roninClient';
+import { ClientExecutionOptions, createRoninClient } from '../../transport/roninClient';
 import { normalizeAddress, hexToRonin } from '../../utils/addressUtils';
 import { MAINNET_CONTRACTS, KATANA_ROUTER_ABI, ERC20_ABI } from '../../constants/contracts';
 import { formatUnits, parseUnits } from '../../utils/unitConverter';
@@ -92,9 +92,13 @@ export const katanaFields: INodeProperties[] = [
 	},
 ];
 
-export async function executeKatana(this: IExecuteFunctions, index: number): Promise<unknown> {
+export async function executeKatana(
+	this: IExecuteFunctions,
+	index: number,
+	execution: ClientExecutionOptions = {}
+): Promise<unknown> {
 	const operation = this.getNodeParameter('operation', index) as string;
-	const roninClient = await createRoninClient(this);
+	const roninClient = await createRoninClient(this, execution);
 	const provider = roninClient.getProvider();
 
 	switch (operation) {
@@ -144,9 +148,9 @@ export async function executeKatana(this: IExecuteFunctions, index: number): Pro
 			const amountIn = this.getNodeParameter('amountIn', index) as string;
 			const slippage = this.getNodeParameter('slippage', index) as number;
 
-			let signer;
+			let walletAddress: string;
 			try {
-				signer = roninClient.getSigner();
+				walletAddress = await roninClient.getSenderAddress();
 			} catch {
 				throw new Error('Private key required for swap operations');
 			}
@@ -166,7 +170,7 @@ export async function executeKatana(this: IExecuteFunctions, index: number): Pro
 			const router = new ethers.Contract(
 				MAINNET_CONTRACTS.KATANA_ROUTER,
 				KATANA_ROUTER_ABI,
-				signer
+				provider
 			);
 
 			const path = [tokenIn, tokenOut];
@@ -177,32 +181,36 @@ export async function executeKatana(this: IExecuteFunctions, index: number): Pro
 			const slippageFactor = BigInt(Math.floor((100 - slippage) * 100));
 			const amountOutMin = (expectedOut * slippageFactor) / BigInt(10000);
 
-			// Approve token spend
-			const tokenInSigner = new ethers.Contract(tokenIn, ERC20_ABI, signer);
-			const approveTx = await tokenInSigner.approve(MAINNET_CONTRACTS.KATANA_ROUTER, amountInWei);
-			await approveTx.wait();
+			// Approve token spend unless the router is already allowed to spend the amount
+			const allowance = await tokenInContract.allowance(walletAddress, MAINNET_CONTRACTS.KATANA_ROUTER) as bigint;
+			if (allowance < amountInWei) {
+				await roninClient.sendTransaction({
+					to: tokenIn,
+					data: tokenInContract.interface.encodeFunctionData('approve', [MAINNET_CONTRACTS.KATANA_ROUTER, amountInWei]),
+				});
+			}
 
 			// Execute swap
 			const deadline = Math.floor(Date.now() / 1000) + 600; // 10 min
-			const walletAddress = await signer.getAddress();
-
-			const tx = await router.swapExactTokensForTokens(
-				amountInWei,
-				amountOutMin,
-				path,
-				walletAddress,
-				deadline
-			);
 
-			const receipt = await tx.wait();
+			const { hash, receipt } = await roninClient.sendTransaction({
+				to: MAINNET_CONTRACTS.KATANA_ROUTER,
+				data: router.interface.encodeFunctionData('swapExactTokensForTokens', [
+					amountInWei,
+					amountOutMin,
+					path,
+					walletAddress,
+					deadline,
+				]),
+			});
 
 			return {
 				success: true,
-				txHash: receipt.hash,
+				txHash: hash,
 				amountIn,
 				expectedAmountOut: formatUnits(expectedOut.toString(), Number(tokenOutDecimals)),
 				minAmountOut: formatUnits(amountOutMin.toString(), Number(tokenOutDecimals)),
-				gasUsed: receipt.gasUsed.toString(),
+				gasUsed: receipt?.gasUsed.toString(),
 			};
 		}
 
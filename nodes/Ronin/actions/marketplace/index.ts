@@ -4,7 +4,11 @@
 
 import { INodeProperties, IExecuteFunctions, IDataObject } from 'n8n-workflow';
 import { createMarketplaceClient } from '../../transport/marketplaceClient';
+import { ClientExecutionOptions, createRoninClient } from '../../transport/roninClient';
+import { createSkynetClient } from '../../transport/skynetApi';
 import { normalizeAddress, hexToRonin } from '../../utils/addressUtils';
+import { ANY_TOKEN_ID, OfferCriteria, getCurrentPrice, hasOfferCriteria, matchesOfferCriteria, parseOrder } from '../../utils/orderUtils';
+import { getContracts } from '../../constants/contracts';
 
 export const marketplaceOperations: INodeProperties[] = [
 	{
@@ -22,6 +26,15 @@ export const marketplaceOperations: INodeProperties[] = [
 			{ name: 'Get Offers', value: 'getOffers', description: 'Get NFT offers', action: 'Get offers' },
 			{ name: 'Get Marketplace Stats', value: 'getMarketplaceStats', description: 'Get stats', action: 'Get marketplace stats' },
 			{ name: 'Get Price History', value: 'getPriceHistory', description: 'Get price history', action: 'Get price history' },
+			{ name: 'Create Listing', value: 'createListing', description: 'Sign and submit sell orders', action: 'Create listing' },
+			{ name: 'Cancel Listing', value: 'cancelListing', description: 'Cancel a listing', action: 'Cancel listing' },
+			{ name: 'Buy NFT', value: 'buyNft', description: 'Buy a listed NFT', action: 'Buy NFT' },
+			{ name: 'Make Offer', value: 'makeOffer', description: 'Sign and submit an offer on an NFT or a collection', action: 'Make offer' },
+			{ name: 'Get Incoming Offers', value: 'getIncomingOffers', description: 'Get offers that NFTs of a wallet can fill', action: 'Get incoming offers' },
+			{ name: 'Get My Offers', value: 'getMyOffers', description: 'Get offers made by the wallet', action: 'Get my offers' },
+			{ name: 'Accept Offer', value: 'acceptOffer', description: 'Sell an NFT to an offer', action: 'Accept offer' },
+			{ name: 'Cancel Offer', value: 'cancelOffer', description: 'Cancel an offer of the wallet', action: 'Cancel offer' },
+			{ name: 'Verify Order Signature', value: 'verifyOrderSignature', description: 'Recover the signer of an order', action: 'Verify order signature' },
 		],
 		default: 'getActiveListings',
 	},
@@ -34,7 +47,15 @@ export const marketplaceFields: INodeProperties[] = [
 		type: 'string',
 		required: true,
 		default: '',
-		displayOptions: { show: { resource: ['marketplace'], operation: ['getListing'] } },
+		displayOptions: { show: { resource: ['marketplace'], operation: ['getListing', 'cancelListing', 'buyNft'] } },
+	},
+	{
+		displayName: 'Offer ID',
+		name: 'offerId',
+		type: 'string',
+		required: true,
+		default: '',
+		displayOptions: { show: { resource: ['marketplace'], operation: ['acceptOffer', 'cancelOffer'] } },
 	},
 	{
 		displayName: 'Collection Address',
@@ -52,13 +73,53 @@ export const marketplaceFields: INodeProperties[] = [
 		default: '',
 		displayOptions: { show: { resource: ['marketplace'], operation: ['getListingsByUser'] } },
 	},
+	{
+		displayName: 'Owner Address',
+		name: 'ownerAddress',
+		type: 'string',
+		default: '',
+		description: 'Wallet whose NFTs the offers are for. Defaults to the wallet of the credential.',
+		displayOptions: { show: { resource: ['marketplace'], operation: ['getIncomingOffers'] } },
+	},
 	{
 		displayName: 'Contract Address',
 		name: 'contractAddress',
 		type: 'string',
 		required: true,
 		default: '',
-		displayOptions: { show: { resource: ['marketplace'], operation: ['getOffers', 'getPriceHistory'] } },
+		displayOptions: { show: { resource: ['marketplace'], operation: ['getOffers', 'getPriceHistory', 'createListing', 'makeOffer'] } },
+	},
+	{
+		displayName: 'Contract Address',
+		name: 'contractAddress',
+		type: 'string',
+		default: '',
+		description: 'Only offers on NFTs of this collection. All collections when empty.',
+		displayOptions: { show: { resource: ['marketplace'], operation: ['getIncomingOffers'] } },
+	},
+	{
+		displayName: 'Offer Type',
+		name: 'offerType',
+		type: 'options',
+		options: [
+			{ name: 'Token', value: 'token', description: 'Offer on the token of the Token ID field' },
+			{ name: 'Collection', value: 'collection', description: 'Offer any token of the collection can fill' },
+			{ name: 'Axie Criteria', value: 'criteria', description: 'Offer any Axie with the given classes and parts can fill' },
+		],
+		default: 'token',
+		displayOptions: { show: { resource: ['marketplace'], operation: ['makeOffer'] } },
+	},
+	{
+		displayName: 'Tokens Source',
+		name: 'listingSource',
+		type: 'options',
+		options: [
+			{ name: 'Token ID', value: 'token', description: 'List the token of the Token ID field' },
+			{ name: 'Input Items', value: 'items', description: 'One token per input item, all listed in one run' },
+		],
+		default: 'token',
+		description: 'Where the token IDs to list come from',
+		displayOptions: { show: { resource: ['marketplace'], operation: ['createListing'] } },
 	},
 	{
 		displayName: 'Token ID',
@@ -68,31 +129,195 @@ export const marketplaceFields: INodeProperties[] = [
 		default: '',
 		displayOptions: { show: { resource: ['marketplace'], operation: ['getOffers', 'getPriceHistory'] } },
 	},
+	{
+		displayName: 'Token ID',
+		name: 'tokenId',
+		type: 'string',
+		required: true,
+		default: '',
+		displayOptions: { show: { resource: ['marketplace'], operation: ['makeOffer'], offerType: ['token'] } },
+	},
+	{
+		displayName: 'Token ID',
+		name: 'tokenId',
+		type: 'string',
+		default: '',
+		description: 'Token sold to the offer. Required for collection offers.',
+		displayOptions: { show: { resource: ['marketplace'], operation: ['acceptOffer'] } },
+	},
+	{
+		displayName: 'Classes',
+		name: 'offerClasses',
+		type: 'multiOptions',
+		default: [],
+		options: [
+			{ name: 'Beast', value: 'beast' },
+			{ name: 'Bug', value: 'bug' },
+			{ name: 'Bird', value: 'bird' },
+			{ name: 'Plant', value: 'plant' },
+			{ name: 'Aquatic', value: 'aquatic' },
+			{ name: 'Reptile', value: 'reptile' },
+			{ name: 'Mech', value: 'mech' },
+			{ name: 'Dawn', value: 'dawn' },
+			{ name: 'Dusk', value: 'dusk' },
+		],
+		description: 'Axie must be one of these classes. Any class when empty.',
+		displayOptions: { show: { resource: ['marketplace'], operation: ['makeOffer'], offerType: ['criteria'] } },
+	},
+	{
+		displayName: 'Parts',
+		name: 'offerParts',
+		type: 'string',
+		default: '',
+		placeholder: 'eyes-zeal, mouth-tiny-turtle',
+		description: 'Comma-separated part IDs the Axie must all have',
+		displayOptions: { show: { resource: ['marketplace'], operation: ['makeOffer'], offerType: ['criteria'] } },
+	},
+	{
+		displayName: 'Token ID',
+		name: 'tokenId',
+		type: 'string',
+		required: true,
+		default: '',
+		displayOptions: { show: { resource: ['marketplace'], operation: ['createListing'], listingSource: ['token'] } },
+	},
+	{
+		displayName: 'Token ID Field',
+		name: 'tokenIdField',
+		type: 'string',
+		default: 'tokenId',
+		description: 'Input item field holding the token ID to list',
+		displayOptions: { show: { resource: ['marketplace'], operation: ['createListing'], listingSource: ['items'] } },
+	},
+	{
+		displayName: 'Price Field',
+		name: 'priceField',
+		type: 'string',
+		default: 'price',
+		description: 'Input item field holding the price of the token. Items without it use the Price field.',
+		displayOptions: { show: { resource: ['marketplace'], operation: ['createListing'], listingSource: ['items'] } },
+	},
+	{
+		displayName: 'Listing Type',
+		name: 'listingType',
+		type: 'options',
+		options: [
+			{ name: 'Fixed Price', value: 'fixed', description: 'Sell at one price until the listing expires' },
+			{ name: 'Dutch Auction', value: 'auction', description: 'Lower the price from a start price to an end price over the auction duration' },
+		],
+		default: 'fixed',
+		displayOptions: { show: { resource: ['marketplace'], operation: ['createListing'] } },
+	},
+	{
+		displayName: 'Price',
+		name: 'price',
+		type: 'string',
+		required: true,
+		default: '',
+		placeholder: '0.01',
+		description: 'Price in units of the payment token. For Dutch auctions, the start price.',
+		displayOptions: { show: { resource: ['marketplace'], operation: ['createListing', 'makeOffer'] } },
+	},
+	{
+		displayName: 'End Price',
+		name: 'endPrice',
+		type: 'string',
+		required: true,
+		default: '',
+		placeholder: '0.005',
+		description: 'Price the auction reaches when it ends, kept until the listing expires',
+		displayOptions: { show: { resource: ['marketplace'], operation: ['createListing'], listingType: ['auction'] } },
+	},
+	{
+		displayName: 'Auction Duration (Hours)',
+		name: 'auctionDuration',
+		type: 'number',
+		default: 24,
+		typeOptions: { minValue: 1 },
+		description: 'Hours the price takes to decline from the start price to the end price',
+		displayOptions: { show: { resource: ['marketplace'], operation: ['createListing'], listingType: ['auction'] } },
+	},
+	{
+		displayName: 'Payment Token',
+		name: 'paymentToken',
+		type: 'string',
+		default: 'WETH',
+		placeholder: 'WETH',
+		description: 'Symbol (such as WETH, AXS or USDC) or address of the ERC20 token the order is paid in',
+		displayOptions: { show: { resource: ['marketplace'], operation: ['createListing', 'makeOffer'] } },
+	},
+	{
+		displayName: 'Expiration (Days)',
+		name: 'expirationDays',
+		type: 'number',
+		default: 7,
+		typeOptions: { minValue: 1 },
+		description: 'Days until the order expires. Auctions must not expire before they end.',
+		displayOptions: { show: { resource: ['marketplace'], operation: ['createListing', 'makeOffer'] } },
+	},
+	{
+		displayName: 'Order',
+		name: 'order',
+		type: 'json',
+		required: true,
+		default: '{}',
+		description: 'Order to verify, such as the order of a listing or offer',
+		displayOptions: { show: { resource: ['marketplace'], operation: ['verifyOrderSignature'] } },
+	},
+	{
+		displayName: 'Signature',
+		name: 'signature',
+		type: 'string',
+		required: true,
+		default: '',
+		placeholder: '0x...',
+		description: 'EIP-712 signature of the order',
+		displayOptions: { show: { resource: ['marketplace'], operation: ['verifyOrderSignature'] } },
+	},
 	{
 		displayName: 'Limit',
 		name: 'limit',
 		type: 'number',
 		default: 20,
-		displayOptions: { show: { resource: ['marketplace'], operation: ['getActiveListings', 'getListingsByUser', 'getRecentSales'] } },
+		description: 'Max number of results. For incoming offers, the number of NFTs checked.',
+		displayOptions: { show: { resource: ['marketplace'], operation: ['getActiveListings', 'getListingsByUser', 'getRecentSales', 'getIncomingOffers', 'getMyOffers'] } },
 	},
 	{
 		displayName: 'Offset',
 		name: 'offset',
 		type: 'number',
 		default: 0,
-		displayOptions: { show: { resource: ['marketplace'], operation: ['getActiveListings', 'getListingsByUser'] } },
+		displayOptions: { show: { resource: ['marketplace'], operation: ['getActiveListings', 'getListingsByUser', 'getMyOffers'] } },
 	},
 ];
 
-export async function executeMarketplace(this: IExecuteFunctions, index: number): Promise<IDataObject> {
+// Operations that use the wallet, or sign, send or verify orders on the network of the Ronin Network credential
+const ORDER_OPERATIONS = [
+	'createListing',
+	'cancelListing',
+	'buyNft',
+	'makeOffer',
+	'verifyOrderSignature',
+	'getIncomingOffers',
+	'getMyOffers',
+	'acceptOffer',
+	'cancelOffer',
+];
+
+export async function executeMarketplace(
+	this: IExecuteFunctions,
+	index: number,
+	execution: ClientExecutionOptions = {}
+): Promise<IDataObject | IDataObject[]> {
 	const operation = this.getNodeParameter('operation', index) as string;
-	const marketplace = await createMarketplaceClient(this);
+	const roninClient = ORDER_OPERATIONS.includes(operation) ? await createRoninClient(this, execution) : undefined;
+	const marketplace = await createMarketplaceClient(this, roninClient);
 
 	switch (operation) {
 		case 'getListing': {
 			const listingId = this.getNodeParameter('listingId', index) as string;
 			const listing = await marketplace.getListing(listingId);
-			return { listing };
+			return listing.order ? { listing, currentPrice: getCurrentPrice(listing.order).toString() } : { listing };
 		}
 		case 'getActiveListings': {
 			const collectionAddress = normalizeAddress(this.getNodeParameter('collectionAddress', index) as string);
@@ -135,6 +360,155 @@ export async function executeMarketplace(this: IExecuteFunctions, index: number)
 			const history = await marketplace.getPriceHistory(contractAddress, tokenId);
 			return { contractAddress: hexToRonin(contractAddress), tokenId, total: Array.isArray(history) ? history.length : 0, history: history || [] };
 		}
+		case 'createListing': {
+			const contractAddress = normalizeAddress(this.getNodeParameter('contractAddress', index) as string);
+			const price = this.getNodeParameter('price', index) as string;
+			const isAuction = this.getNodeParameter('listingType', index, 'fixed') === 'auction';
+			const order = {
+				contractAddress,
+				paymentToken: this.getNodeParameter('paymentToken', index, 'WETH') as string,
+				expirationDays: this.getNodeParameter('expirationDays', index, 7) as number,
+				endPrice: isAuction ? this.getNodeParameter('endPrice', index) as string : undefined,
+				auctionDurationHours: isAuction ? this.getNodeParameter('auctionDuration', index, 24) as number : undefined,
+			};
+
+			if (this.getNodeParameter('listingSource', index, 'token') === 'token') {
+				const tokenId = this.getNodeParameter('tokenId', index) as string;
+				const result = await marketplace.createListing({ ...order, tokenId, price });
+				return { contractAddress: hexToRonin(contractAddress), tokenId, price, ...result };
+			}
+
+			// Listings are independent, so one rejected token does not stop the others
+			const tokenIdField = this.getNodeParameter('tokenIdField', index, 'tokenId') as string;
+			const priceField = this.getNodeParameter('priceField', index, 'price') as string;
+			const results: IDataObject[] = [];
+			for (const item of this.getInputData()) {
+				const tokenId = String(item.json[tokenIdField] ?? '').trim();
+				const itemPrice = item.json[priceField] !== undefined && item.json[priceField] !== '' ? String(item.json[priceField]) : price;
+				try {
+					if (!tokenId) {
+						throw new Error(`Item has no "${tokenIdField}" field`);
+					}
+					const result = await marketplace.createListing({ ...order, tokenId, price: itemPrice });
+					results.push({ contractAddress: hexToRonin(contractAddress), tokenId, price: itemPrice, status: 'listed', ...result });
+				} catch (error) {
+					results.push({ contractAddress: hexToRonin(contractAddress), tokenId, price: itemPrice, status: 'failed', error: (error as Error).message });
+				}
+			}
+
+			const failed = results.filter((result) => result.status === 'failed');
+			if (failed.length > 0 && !this.continueOnFail()) {
+				throw new Error(
+					`Bulk listing partially failed: ${results.length - failed.length} of ${results.length} tokens listed, ` +
+					`failed: ${failed.map((result) => `${result.tokenId || '(none)'} (${result.error})`).join(', ')}`
+				);
+			}
+			return results;
+		}
+		case 'cancelListing': {
+			const listingId = this.getNodeParameter('listingId', index) as string;
+			const result = await marketplace.cancelListing(listingId);
+			return { listingId, ...result };
+		}
+		case 'buyNft': {
+			const listingId = this.getNodeParameter('listingId', index) as string;
+			const result = await marketplace.buyNft(listingId);
+			return { listingId, ...result };
+		}
+		case 'makeOffer': {
+			const contractAddress = normalizeAddress(this.getNodeParameter('contractAddress', index) as string);
+			const offerType = this.getNodeParameter('offerType', index, 'token') as string;
+			const tokenId = offerType === 'token' ? this.getNodeParameter('tokenId', index) as string : undefined;
+			const price = this.getNodeParameter('price', index) as string;
+
+			let criteria: OfferCriteria | undefined;
+			if (offerType === 'criteria') {
+				criteria = {
+					classes: this.getNodeParameter('offerClasses', index, []) as string[],
+					parts: (this.getNodeParameter('offerParts', index, '') as string).split(',').map((part) => part.trim()).filter(Boolean),
+				};
+				if (criteria.classes!.length === 0 && criteria.parts!.length === 0) {
+					throw new Error('Axie criteria offers need at least one class or part');
+				}
+			}
+
+			const result = await marketplace.makeOffer({
+				contractAddress,
+				tokenId,
+				criteria,
+				price,
+				paymentToken: this.getNodeParameter('paymentToken', index, 'WETH') as string,
+				expirationDays: this.getNodeParameter('expirationDays', index, 7) as number,
+			});
+			return { contractAddress: hexToRonin(contractAddress), tokenId: tokenId ?? null, price, ...result };
+		}
+		case 'getIncomingOffers': {
+			const ownerInput = this.getNodeParameter('ownerAddress', index, '') as string;
+			const owner = ownerInput ? normalizeAddress(ownerInput) : await roninClient!.getSenderAddress();
+			const contractInput = this.getNodeParameter('contractAddress', index, '') as string;
+			const contractAddress = contractInput ? normalizeAddress(contractInput) : undefined;
+			const limit = this.getNodeParameter('limit', index) as number;
+
+			const skynetClient = await createSkynetClient(this);
+			const nfts = await skynetClient.getWalletNfts(owner, { contractAddress, size: limit });
+			const tokens = (nfts.results as IDataObject[])
+				.map((nft) => ({
+					contractAddress: String(nft.contractAddress ?? nft.tokenAddress ?? contractAddress ?? ''),
+					tokenId: String(nft.tokenId ?? nft.id ?? ''),
+				}))
+				.filter((token) => token.contractAddress && token.tokenId);
+
+			// Only Axies have the traits that criteria offers ask for
+			const axieContract = getContracts(roninClient!.getNetworkName()).AXIE_CONTRACT;
+			const offers = await marketplace.getIncomingOffers(tokens, async (collection, tokenId) =>
+				collection.toLowerCase() === axieContract.toLowerCase() ? skynetClient.getAxie(tokenId) : null
+			);
+			return { owner: hexToRonin(owner), nftsChecked: tokens.length, total: offers.length, offers };
+		}
+		case 'getMyOffers': {
+			const maker = await roninClient!.getSenderAddress();
+			const limit = this.getNodeParameter('limit', index) as number;
+			const offset = this.getNodeParameter('offset', index) as number;
+			const result = await marketplace.getOffersByMaker(maker, { from: offset, size: limit });
+			const now = Math.floor(Date.now() / 1000);
+			const offers = result.data.map((offer) => ({
+				...offer,
+				scope: offer.order.assets[0]?.id === ANY_TOKEN_ID ? 'collection' : 'token',
+				expired: offer.order.expiredAt <= now,
+			}));
+			return { maker: hexToRonin(maker), total: result.total, offers };
+		}
+		case 'acceptOffer': {
+			const offerId = this.getNodeParameter('offerId', index) as string;
+			const tokenId = (this.getNodeParameter('tokenId', index, '') as string) || undefined;
+
+			// The exchange cannot read Axie traits, so criteria are checked before settling
+			const offer = await marketplace.getOffer(offerId);
+			const { criteria } = offer;
+			if (hasOfferCriteria(criteria)) {
+				if (!tokenId) {
+					throw new Error(`Offer ${offerId} is a collection offer: a token ID is required to accept it`);
+				}
+				const axie = await (await createSkynetClient(this)).getAxie(tokenId);
+				if (!matchesOfferCriteria(axie, criteria)) {
+					throw new Error(`Axie ${tokenId} does not match the criteria of offer ${offerId}`);
+				}
+			}
+
+			const result = await marketplace.acceptOffer(offer, tokenId);
+			return { offerId, ...result };
+		}
+		case 'cancelOffer': {
+			const offerId = this.getNodeParameter('offerId', index) as string;
+			const result = await marketplace.cancelOffer(offerId);
+			return { offerId, ...result };
+		}
+		case 'verifyOrderSignature': {
+			const order = parseOrder(this.getNodeParameter('order', index) as string | object);
+			const signature = this.getNodeParameter('signature', index) as string;
+			const result = await marketplace.verifyOrderSignature(order, signature);
+			return { ...result, signer: hexToRonin(result.signer), maker: hexToRonin(result.maker) };
+		}
 		default: throw new Error(`Unknown operation: ${operation}`);
 	}
 }
@@ -1,8 +1,11 @@
 import { INodeProperties, IExecuteFunctions } from 'n8n-workflow';
-import { createRoninClient } from '../../transport/roninClient';
+import { ClientExecutionOptions, createRoninClient } from '../../transport/roninClient';
 import { createSkynetClient } from '../../transport/skynetApi';
+import { parseNonceOverride } from '../../transport/nonceManager';
+import { parseFeeOptions } from '../../utils/gasUtils';
 import { normalizeAddress, hexToRonin } from '../../utils/addressUtils';
-import { NFT_CONTRACTS } from '../../constants/contracts';
+import { ERC721_ABI, NFT_CONTRACTS } from '../../constants/contracts';
+import { transactionOptionFields } from '../shared/transactionFields';
 
 export const nftOperations: INodeProperties[] = [
 	{
@@ -68,7 +71,7 @@ export const nftFields: INodeProperties[] = [
 		type: 'string',
 		default: '',
 		required: true,
-		description: 'NFT token ID',
+		description: 'NFT token ID. Verify Ownership also accepts several IDs separated by commas.',
 		displayOptions: {
 			show: {
 				resource: ['nft'],
@@ -106,6 +109,7 @@ export const nftFields: INodeProperties[] = [
 			},
 		},
 	},
+	...transactionOptionFields('nft', ['transferNft']),
 	{
 		displayName: 'Limit',
 		name: 'limit',
@@ -134,9 +138,13 @@ export const nftFields: INodeProperties[] = [
 	},
 ];
 
-export async function executeNft(this: IExecuteFunctions, index: number): Promise<unknown> {
+export async function executeNft(
+	this: IExecuteFunctions,
+	index: number,
+	execution: ClientExecutionOptions = {}
+): Promise<unknown> {
 	const operation = this.getNodeParameter('operation', index) as string;
-	const roninClient = await createRoninClient(this);
+	const roninClient = await createRoninClient(this, execution);
 
 	const getContractAddress = (): string => {
 		const collection = this.getNodeParameter('collection', index) as string;
@@ -242,7 +250,9 @@ export async function executeNft(this: IExecuteFunctions, index: number): Promis
 			const tokenId = this.getNodeParameter('tokenId', index) as string;
 			const toAddress = this.getNodeParameter('toAddress', index) as string;
 
-			const result = await roninClient.transferNft(contractAddress, toAddress, tokenId);
+			const nonce = parseNonceOverride(this.getNodeParameter('nonce', index, '') as string);
+			const fees = parseFeeOptions((name) => this.getNodeParameter(name, index, undefined));
+			const result = await roninClient.transferNft(contractAddress, toAddress, tokenId, { ...fees, nonce });
 			return {
 				success: true,
 				txHash: result.hash,
@@ -250,6 +260,7 @@ export async function executeNft(this: IExecuteFunctions, index: number): Promis
 				tokenId,
 				to: hexToRonin(normalizeAddress(toAddress)),
 				blockNumber: result.blockNumber,
+				effectiveGasPrice: result.effectiveGasPrice,
 			};
 		}
 
@@ -257,9 +268,37 @@ export async function executeNft(this: IExecuteFunctions, index: number): Promis
 			const contractAddress = getContractAddress();
 			const tokenId = this.getNodeParameter('tokenId', index) as string;
 			const ownerAddress = this.getNodeParameter('ownerAddress', index) as string;
+			const normalizedOwner = normalizeAddress(ownerAddress);
+			const tokenIds = tokenId.split(/[\s,]+/).filter((id) => id !== '');
+
+			if (tokenIds.length > 1) {
+				// Owners of all tokens in one multicall; tokens that do not exist have no owner
+				const owners = await roninClient.multicall(tokenIds.map((id) => ({
+					target: contractAddress,
+					abi: ERC721_ABI,
+					method: 'ownerOf',
+					params: [id],
+				})));
+
+				const tokens = tokenIds.map((id, i) => {
+					const owner = owners[i].success ? owners[i].value as string : null;
+					return {
+						tokenId: id,
+						actualOwner: owner ? hexToRonin(owner) : null,
+						isOwner: owner !== null && owner.toLowerCase() === normalizedOwner.toLowerCase(),
+					};
+				});
+
+				return {
+					contractAddress,
+					checkAddress: hexToRonin(normalizedOwner),
+					isOwner: tokens.every((token) => token.isOwner),
+					ownedCount: tokens.filter((token) => token.isOwner).length,
+					tokens,
+				};
+			}
 
 			const actualOwner = await roninClient.getNftOwner(contractAddress, tokenId);
-			const normalizedOwner = normalizeAddress(ownerAddress);
 			const isOwner = actualOwner.toLowerCase() === normalizedOwner.toLowerCase();
 
 			return {
@@ -0,0 +1,121 @@
+/**
+ * Batch Transfer fields and execution shared by the Wallet, SLP and AXS resources
+ */
+
+import { INodeProperties, IExecuteFunctions } from 'n8n-workflow';
+import { RoninClient } from '../../transport/roninClient';
+import { BatchTransferResult, getBatchFailure, parseBatchRecipients } from '../../utils/batchTransfer';
+import { parseFeeOptions } from '../../utils/gasUtils';
+import { feeOptionFields } from './transactionFields';
+
+/**
+ * Build the Batch Transfer fields of a resource
+ * @param resource Resource the fields are shown for
+ */
+export function batchTransferFields(resource: string): INodeProperties[] {
+	const show = { resource: [resource], operation: ['batchTransfer'] };
+
+	return [
+		{
+			displayName: 'Recipients Source',
+			name: 'recipientSource',
+			type: 'options',
+			options: [
+				{ name: 'Input Items', value: 'items', description: 'One recipient per input item, all sent as one batch' },
+				{ name: 'CSV', value: 'csv', description: 'One "address,amount" line per recipient' },
+			],
+			default: 'items',
+			description: 'Where the recipients and amounts come from',
+			displayOptions: { show },
+		},
+		{
+			displayName: 'Recipients CSV',
+			name: 'recipientsCsv',
+			type: 'string',
+			typeOptions: {
+				rows: 6,
+			},
+			default: '',
+			required: true,
+			placeholder: 'ronin:1234...,100\nronin:5678...,250',
+			description: 'One "address,amount" line per recipient',
+			displayOptions: { show: { ...show, recipientSource: ['csv'] } },
+		},
+		{
+			displayName: 'Address Field',
+			name: 'addressField',
+			type: 'string',
+			default: 'address',
+			description: 'Input item field holding the recipient address',
+			displayOptions: { show: { ...show, recipientSource: ['items'] } },
+		},
+		{
+			displayName: 'Amount Field',
+			name: 'amountField',
+			type: 'string',
+			default: 'amount',
+			description: 'Input item field holding the amount to send',
+			displayOptions: { show: { ...show, recipientSource: ['items'] } },
+		},
+		{
+			displayName: 'Batch Size',
+			name: 'batchSize',
+			type: 'number',
+			default: 100,
+			typeOptions: {
+				minValue: 1,
+			},
+			description: 'Maximum number of recipients per transaction',
+			displayOptions: { show },
+		},
+		{
+			displayName: 'Disperse Contract',
+			name: 'disperseAddress',
+			type: 'string',
+			required: true,
+			default: '',
+			placeholder: 'ronin:... or 0x...',
+			description: 'Address of a deployed Disperse contract that sends the batch. Ronin has no default Disperse deployment, so it must be set.',
+			displayOptions: { show },
+		},
+		...feeOptionFields(resource, ['batchTransfer']),
+	];
+}
+
+/**
+ * Send a batch transfer to the recipients of the Batch Transfer fields
+ * Fails with a summary of the failed recipients unless Continue On Fail is enabled.
+ * @param roninClient Client of the sending wallet
+ * @param tokenAddress Token to send, null for RON
+ * @param decimals Decimals the amounts are parsed with
+ * @returns One result per recipient
+ */
+export async function executeBatchTransfer(
+	this: IExecuteFunctions,
+	index: number,
+	roninClient: RoninClient,
+	tokenAddress: string | null,
+	decimals: number
+): Promise<BatchTransferResult[]> {
+	const recipients = parseBatchRecipients(
+		this.getNodeParameter('recipientSource', index) === 'csv'
+			? this.getNodeParameter('recipientsCsv', index) as string
+			: this.getInputData().map((item) => item.json),
+		{
+			decimals,
+			addressField: this.getNodeParameter('addressField', index, 'address') as string,
+			amountField: this.getNodeParameter('amountField', index, 'amount') as string,
+		}
+	);
+	const results = await roninClient.batchTransfer(tokenAddress, recipients, {
+		disperseAddress: this.getNodeParameter('disperseAddress', index) as string,
+		batchSize: this.getNodeParameter('batchSize', index) as number,
+		fees: parseFeeOptions((name) => this.getNodeParameter(name, index, undefined)),
+	});
+
+	const failure = getBatchFailure(results);
+	if (failure && !this.continueOnFail()) {
+		throw new Error(failure);
+	}
+	return results;
+}
@@ -0,0 +1,79 @@
+/**
+ * Simulation, account and confirmation fields of the operations that sign
+ */
+
+import { INodeProperties } from 'n8n-workflow';
+
+/**
+ * Operations that send transactions, by resource
+ */
+const WRITE_OPERATIONS: Record<string, string[]> = {
+	wallet: ['transferRon', 'transferToken', 'batchTransfer'],
+	nft: ['transferNft'],
+	slp: ['transfer', 'batchTransfer', 'claim'],
+	axs: ['transfer', 'batchTransfer'],
+	katana: ['swap'],
+	staking: ['stake', 'unstake', 'delegate', 'undelegate', 'claimRewards'],
+	contract: ['write'],
+	transaction: ['send', 'speedUp', 'cancel'],
+	marketplace: ['createListing', 'cancelListing', 'buyNft', 'makeOffer', 'acceptOffer', 'cancelOffer'],
+};
+
+/**
+ * Operations that sign with the credential, by resource
+ */
+const SIGNING_OPERATIONS: Record<string, string[]> = {
+	...WRITE_OPERATIONS,
+	utility: ['signMessage'],
+};
+
+/**
+ * Build the Simulate Only, Simulation Block, Account Index and Confirm Transactions fields
+ * Each resource gets its own copy, shown only for its operations that sign.
+ * They are read back by the node and passed to createRoninClient.
+ */
+export function executionOptionFields(): INodeProperties[] {
+	const simulationFields = Object.entries(WRITE_OPERATIONS).flatMap(([resource, operations]): INodeProperties[] => {
+		const show = { resource: [resource], operation: operations };
+		return [
+			{
+				displayName: 'Simulate Only',
+				name: 'simulateOnly',
+				type: 'boolean',
+				default: false,
+				description: 'Whether to simulate write operations with eth_call and gas estimation instead of signing and broadcasting them',
+				displayOptions: { show },
+			},
+			{
+				displayName: 'Simulation Block',
+				name: 'simulationBlock',
+				type: 'string',
+				default: 'latest',
+				placeholder: 'latest or 12345678',
+				description: 'Block tag or number to simulate against',
+				displayOptions: { show: { ...show, simulateOnly: [true] } },
+			},
+		];
+	});
+
+	const accountFields = Object.entries(SIGNING_OPERATIONS).map(([resource, operations]): INodeProperties => ({
+		displayName: 'Account Index',
+		name: 'accountIndex',
+		type: 'string',
+		default: '',
+		placeholder: 'From credential',
+		description: 'Index of the mnemonic account to use instead of the one on the credential. Requires a credential with the Mnemonic signer type.',
+		displayOptions: { show: { resource: [resource], operation: operations } },
+	}));
+
+	const confirmationFields = Object.entries(WRITE_OPERATIONS).map(([resource, operations]): INodeProperties => ({
+		displayName: 'Confirm Transactions',
+		name: 'confirmTransactions',
+		type: 'boolean',
+		default: false,
+		description: 'Whether this node may sign transactions when the spend policy of the credential requires confirmation',
+		displayOptions: { show: { resource: [resource], operation: operations } },
+	}));
+
+	return [...simulationFields, ...accountFields, ...confirmationFields];
+}
@@ -0,0 +1,93 @@
+/**
+ * Nonce and fee fields shared by the operations that send transactions
+ */
+
+import { INodeProperties } from 'n8n-workflow';
+
+/**
+ * Build the Nonce and fee fields of the operations of a resource
+ * They are read back with parseNonceOverride and parseFeeOptions.
+ * @param resource Resource the fields are shown for
+ * @param operations Operations that send a transaction
+ */
+export function transactionOptionFields(resource: string, operations: string[]): INodeProperties[] {
+	return [
+		{
+			displayName: 'Nonce',
+			name: 'nonce',
+			type: 'string',
+			default: '',
+			placeholder: 'auto',
+			description: 'Nonce to send the transaction with (leave empty to use the next free nonce)',
+			displayOptions: { show: { resource: [resource], operation: operations } },
+		},
+		...feeOptionFields(resource, operations),
+	];
+}
+
+/**
+ * Build the fee fields of the operations of a resource
+ * Operations that send several transactions use these without a Nonce.
+ * They are read back with parseFeeOptions.
+ * @param resource Resource the fields are shown for
+ * @param operations Operations that send transactions
+ */
+export function feeOptionFields(resource: string, operations: string[]): INodeProperties[] {
+	const show = { resource: [resource], operation: operations };
+
+	return [
+		{
+			displayName: 'Fee Mode',
+			name: 'feeMode',
+			type: 'options',
+			options: [
+				{ name: 'Auto', value: 'auto', description: 'EIP-1559 fees when the network supports them, otherwise legacy' },
+				{ name: 'Legacy', value: 'legacy', description: 'Type-0 transaction with a gas price' },
+				{ name: 'EIP-1559', value: 'eip1559', description: 'Type-2 transaction with max fees' },
+			],
+			default: 'auto',
+			description: 'How the transaction fee is priced',
+			displayOptions: { show },
+		},
+		{
+			displayName: 'Fee Speed',
+			name: 'feeSpeed',
+			type: 'options',
+			options: [
+				{ name: 'Slow', value: 'slow' },
+				{ name: 'Normal', value: 'normal' },
+				{ name: 'Fast', value: 'fast' },
+			],
+			default: 'normal',
+			description: 'Fee history percentile used for max fees left empty',
+			displayOptions: { show: { ...show, feeMode: ['auto', 'eip1559'] } },
+		},
+		{
+			displayName: 'Gas Price (Gwei)',
+			name: 'gasPrice',
+			type: 'string',
+			default: '',
+			placeholder: 'auto',
+			description: 'Gas price in Gwei (leave empty for the network gas price). Setting it in Auto fee mode sends a legacy transaction.',
+			displayOptions: { show: { ...show, feeMode: ['auto', 'legacy'] } },
+		},
+		{
+			displayName: 'Max Fee Per Gas (Gwei)',
+			name: 'maxFeePerGas',
+			type: 'string',
+			default: '',
+			placeholder: 'auto',
+			description: 'Maximum total fee per gas in Gwei (leave empty to estimate from fee history)',
+			displayOptions: { show: { ...show, feeMode: ['eip1559'] } },
+		},
+		{
+			displayName: 'Max Priority Fee Per Gas (Gwei)',
+			name: 'maxPriorityFeePerGas',
+			type: 'string',
+			default: '',
+			placeholder: 'auto',
+			description: 'Maximum tip per gas in Gwei (leave empty to estimate from fee history)',
+			displayOptions: { show: { ...show, feeMode: ['eip1559'] } },
+		},
+	];
+}
@@ -1,9 +1,10 @@
 import { INodeProperties, IExecuteFunctions } from 'n8n-workflow';
-import { createRoninClient } from '../../transport/roninClient';
+import { ClientExecutionOptions, createRoninClient } from '../../transport/roninClient';
 import { createSkynetClient } from '../../transport/skynetApi';
 import { normalizeAddress, hexToRonin } from '../../utils/addressUtils';
 import { MAINNET_CONTRACTS } from '../../constants/contracts';
 import { formatSlp } from '../../utils/unitConverter';
+import { batchTransferFields, executeBatchTransfer } from '../shared/batchTransfer';
 
 export const slpOperations: INodeProperties[] = [
 	{
@@ -19,6 +20,7 @@ export const slpOperations: INodeProperties[] = [
 		options: [
 			{ name: 'Get Balance', value: 'getBalance', description: 'Get SLP balance', action: 'Get SLP balance' },
 			{ name: 'Transfer', value: 'transfer', description: 'Transfer SLP tokens', action: 'Transfer SLP' },
+			{ name: 'Batch Transfer', value: 'batchTransfer', description: 'Transfer SLP to many recipients at once', action: 'Batch transfer SLP' },
 			{ name: 'Get Claimable', value: 'getClaimable', description: 'Get claimable SLP amount', action: 'Get claimable SLP' },
 			{ name: 'Claim SLP', value: 'claim', description: 'Claim earned SLP', action: 'Claim SLP' },
 			{ name: 'Get Earnings History', value: 'getEarnings', description: 'Get SLP earnings history', action: 'Get earnings history' },
@@ -73,11 +75,16 @@ export const slpFields: INodeProperties[] = [
 			},
 		},
 	},
+	...batchTransferFields('slp'),
 ];
 
-export async function executeSlp(this: IExecuteFunctions, index: number): Promise<unknown> {
+export async function executeSlp(
+	this: IExecuteFunctions,
+	index: number,
+	execution: ClientExecutionOptions = {}
+): Promise<unknown> {
 	const operation = this.getNodeParameter('operation', index) as string;
-	const roninClient = await createRoninClient(this);
+	const roninClient = await createRoninClient(this, execution);
 
 	switch (operation) {
 		case 'getBalance': {
@@ -114,6 +121,11 @@ export async function executeSlp(this: IExecuteFunctions, index: number): Promis
 			};
 		}
 
+		case 'batchTransfer': {
+			// SLP has 0 decimals, so amounts must be whole numbers
+			return executeBatchTransfer.call(this, index, roninClient, MAINNET_CONTRACTS.SLP, 0);
+		}
+
 		case 'getClaimable': {
 			const address = this.getNodeParameter('address', index) as string;
 			const skynetClient = await createSkynetClient(this);
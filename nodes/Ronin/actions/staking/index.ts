@@ -1,7 +1,7 @@
 import { INodeProperties, IExecuteFunctions } from 'n8n-workflow';
-import { createRoninClient } from '../../transport/roninClient';
+import { ClientExecutionOptions, createRoninClient } from '../../transport/roninClient';
 import { normalizeAddress, hexToRonin } from '../../utils/addressUtils';
-import { MAINNET_CONTRACTS } from '../../constants/contracts';
+import { MAINNET_CONTRACTS, RON_STAKING_ABI } from '../../constants/contracts';
 import { ronToWei, weiToRon } from '../../utils/unitConverter';
 
 export const stakingOperations: INodeProperties[] = [
@@ -80,9 +80,13 @@ export const stakingFields: INodeProperties[] = [
 	},
 ];
 
-export async function executeStaking(this: IExecuteFunctions, index: number): Promise<unknown> {
+export async function executeStaking(
+	this: IExecuteFunctions,
+	index: number,
+	execution: ClientExecutionOptions = {}
+): Promise<unknown> {
 	const operation = this.getNodeParameter('operation', index) as string;
-	const roninClient = await createRoninClient(this);
+	const roninClient = await createRoninClient(this, execution);
 
 	switch (operation) {
 		case 'getStakingInfo': {
@@ -274,12 +278,21 @@ export async function executeStaking(this: IExecuteFunctions, index: number): Pr
 				) as [string[], bigint[]];
 				
 				const [validators, amounts] = delegations;
+
+				// Pending rewards of every validator in one multicall
+				const rewards = await roninClient.multicall(validators.map((v: string) => ({
+					target: MAINNET_CONTRACTS.RON_STAKING,
+					abi: RON_STAKING_ABI,
+					method: 'getPendingRewards',
+					params: [normalizeAddress(address), v],
+				})));
 				
 				return {
 					address: hexToRonin(normalizeAddress(address)),
 					delegations: validators.map((v: string, i: number) => ({
 						validator: hexToRonin(v),
 						amount: weiToRon(amounts[i].toString()),
+						pendingRewards: rewards[i].success ? weiToRon((rewards[i].value as bigint).toString()) : null,
 					})),
 				};
 			} catch {
@@ -1,8 +1,13 @@
 import { INodeProperties, IExecuteFunctions } from 'n8n-workflow';
-import { createRoninClient } from '../../transport/roninClient';
+import { ClientExecutionOptions, createRoninClient } from '../../transport/roninClient';
+import { parseNonceOverride } from '../../transport/nonceManager';
 import { normalizeAddress, hexToRonin } from '../../utils/addressUtils';
 import { weiToRon, ronToWei, formatGasPrice, parseGasPrice } from '../../utils/unitConverter';
+import { DecodedCalldata, decodeCalldata, parseAbi } from '../../utils/abiUtils';
+import { explainTransaction } from '../../utils/transactionExplainer';
+import { formatFees, parseFeeOptions } from '../../utils/gasUtils';
 import { ethers } from 'ethers';
+import { transactionOptionFields } from '../shared/transactionFields';
 
 export const transactionOperations: INodeProperties[] = [
 	{
@@ -23,7 +28,10 @@ export const transactionOperations: INodeProperties[] = [
 			{ name: 'Estimate Gas', value: 'estimateGas', description: 'Estimate gas for transaction', action: 'Estimate gas' },
 			{ name: 'Get Gas Price', value: 'getGasPrice', description: 'Get current gas price', action: 'Get gas price' },
 			{ name: 'Wait For Transaction', value: 'wait', description: 'Wait for transaction confirmation', action: 'Wait for transaction' },
+			{ name: 'Speed Up Transaction', value: 'speedUp', description: 'Resend a pending transaction with a higher gas price', action: 'Speed up transaction' },
+			{ name: 'Cancel Transaction', value: 'cancel', description: 'Replace a pending transaction with a zero-value self-transfer', action: 'Cancel transaction' },
 			{ name: 'Decode Transaction', value: 'decode', description: 'Decode transaction input data', action: 'Decode transaction' },
+			{ name: 'Explain Transaction', value: 'explain', description: 'Decode a transaction and its logs and list the assets it moved', action: 'Explain transaction' },
 		],
 		default: 'get',
 	},
@@ -41,7 +49,7 @@ export const transactionFields: INodeProperties[] = [
 		displayOptions: {
 			show: {
 				resource: ['transaction'],
-				operation: ['get', 'getReceipt', 'getStatus', 'wait', 'decode'],
+				operation: ['get', 'getReceipt', 'getStatus', 'wait', 'decode', 'explain', 'speedUp', 'cancel'],
 			},
 		},
 	},
@@ -100,30 +108,47 @@ export const transactionFields: INodeProperties[] = [
 			},
 		},
 	},
+	...transactionOptionFields('transaction', ['send']),
 	{
-		displayName: 'Gas Price (Gwei)',
-		name: 'gasPrice',
-		type: 'string',
-		default: '',
-		placeholder: 'auto',
-		description: 'Gas price in Gwei (leave empty for auto)',
+		displayName: 'Confirmations',
+		name: 'confirmations',
+		type: 'number',
+		default: 1,
+		description: 'Number of confirmations to wait for',
 		displayOptions: {
 			show: {
 				resource: ['transaction'],
-				operation: ['send'],
+				operation: ['wait', 'speedUp', 'cancel'],
 			},
 		},
 	},
 	{
-		displayName: 'Confirmations',
-		name: 'confirmations',
+		displayName: 'Gas Price Bump (%)',
+		name: 'gasPriceBump',
 		type: 'number',
-		default: 1,
-		description: 'Number of confirmations to wait for',
+		default: 20,
+		typeOptions: {
+			minValue: 10,
+		},
+		description: 'How much to raise the gas price of the pending transaction. Nodes require at least 10%.',
 		displayOptions: {
 			show: {
 				resource: ['transaction'],
-				operation: ['wait'],
+				operation: ['speedUp', 'cancel'],
+			},
+		},
+	},
+	{
+		displayName: 'Replacement Gas Price (Gwei)',
+		name: 'replacementGasPrice',
+		type: 'string',
+		default: '',
+		placeholder: 'auto',
+		description: 'Gas price of the replacement (leave empty to bump the original gas price)',
+		displayOptions: {
+			show: {
+				resource: ['transaction'],
+				operation: ['speedUp', 'cancel'],
 			},
 		},
 	},
@@ -132,19 +157,23 @@ export const transactionFields: INodeProperties[] = [
 		name: 'abi',
 		type: 'json',
 		default: '[]',
-		description: 'Contract ABI for decoding (optional)',
+		description: 'Contract ABI for decoding (optional). Known Ronin contracts and tokens are decoded without it.',
 		displayOptions: {
 			show: {
 				resource: ['transaction'],
-				operation: ['decode'],
+				operation: ['decode', 'explain'],
 			},
 		},
 	},
 ];
 
-export async function executeTransaction(this: IExecuteFunctions, index: number): Promise<unknown> {
+export async function executeTransaction(
+	this: IExecuteFunctions,
+	index: number,
+	execution: ClientExecutionOptions = {}
+): Promise<unknown> {
 	const operation = this.getNodeParameter('operation', index) as string;
-	const roninClient = await createRoninClient(this);
+	const roninClient = await createRoninClient(this, execution);
 	const provider = roninClient.getProvider();
 
 	switch (operation) {
@@ -153,10 +182,10 @@ export async function executeTransaction(this: IExecuteFunctions, index: number)
 			const amount = this.getNodeParameter('amount', index) as string;
 			const data = this.getNodeParameter('data', index) as string;
 			const gasLimit = this.getNodeParameter('gasLimit', index) as number;
-			const gasPriceInput = this.getNodeParameter('gasPrice', index) as string;
+			const nonce = parseNonceOverride(this.getNodeParameter('nonce', index, '') as string);
+			const fees = parseFeeOptions((name) => this.getNodeParameter(name, index, undefined));
 			
-			const wallet = roninClient.getWallet();
-			if (!wallet) {
+			if (!roninClient.isSimulating() && !(await roninClient.getWallet())) {
 				throw new Error('Wallet required for sending transactions');
 			}
 			
@@ -167,20 +196,17 @@ export async function executeTransaction(this: IExecuteFunctions, index: number)
 				gasLimit: BigInt(gasLimit),
 			};
 			
-			if (gasPriceInput) {
-				tx.gasPrice = parseGasPrice(gasPriceInput);
-			}
-			
-			const response = await wallet.sendTransaction(tx);
-			const receipt = await response.wait();
+			const { hash, from, receipt } = await roninClient.sendTransaction(tx, { ...fees, nonce });
 			
 			return {
 				success: true,
-				txHash: response.hash,
-				from: response.from,
+				txHash: hash,
+				from,
 				to: hexToRonin(normalizeAddress(toAddress)),
 				amount: `${amount} RON`,
 				gasUsed: receipt?.gasUsed.toString(),
+				effectiveGasPrice: receipt ? formatGasPrice(receipt.gasPrice) : undefined,
+				fee: receipt ? weiToRon(receipt.fee) : undefined,
 				blockNumber: receipt?.blockNumber,
 				status: receipt?.status === 1 ? 'success' : 'failed',
 			};
@@ -280,7 +306,7 @@ export async function executeTransaction(this: IExecuteFunctions, index: number)
 			const amount = this.getNodeParameter('amount', index) as string;
 			const data = this.getNodeParameter('data', index) as string;
 			
-			const wallet = roninClient.getWallet();
+			const wallet = await roninClient.getWallet();
 			const from = wallet ? await wallet.getAddress() : undefined;
 			
 			const tx: ethers.TransactionRequest = {
@@ -306,13 +332,19 @@ export async function executeTransaction(this: IExecuteFunctions, index: number)
 		}
 
 		case 'getGasPrice': {
-			const feeData = await provider.getFeeData();
+			const [feeData, gasPrice] = await Promise.all([
+				provider.getFeeData(),
+				roninClient.getGasPrice(),
+			]);
 			
 			return {
 				gasPrice: feeData.gasPrice?.toString() || '0',
 				gasPriceGwei: formatGasPrice(feeData.gasPrice?.toString() || '0'),
 				maxFeePerGas: feeData.maxFeePerGas?.toString(),
 				maxPriorityFeePerGas: feeData.maxPriorityFeePerGas?.toString(),
+				eip1559: gasPrice.eip1559,
+				baseFeeGwei: gasPrice.baseFeeGwei,
+				estimates: gasPrice.estimates,
 			};
 		}
 
@@ -326,17 +358,53 @@ export async function executeTransaction(this: IExecuteFunctions, index: number)
 				throw new Error(`Transaction ${txHash} not found`);
 			}
 			
-			const receipt = await tx.wait(confirmations);
+			// Detect replacements mined from now on (speed-ups or cancels sent elsewhere)
+			const startBlock = tx.blockNumber ?? await provider.getBlockNumber();
+			const { receipt, replaced, minedHash, replacementReason } = await roninClient.waitForTransaction(
+				tx.replaceableTransaction(startBlock),
+				confirmations
+			);
 			
 			return {
 				hash: txHash,
-				status: receipt?.status === 1 ? 'confirmed' : 'failed',
+				status: replaced ? 'replaced' : receipt?.status === 1 ? 'confirmed' : 'failed',
 				confirmations,
+				minedHash,
+				replacementReason,
 				blockNumber: receipt?.blockNumber,
 				gasUsed: receipt?.gasUsed.toString(),
 			};
 		}
 
+		case 'speedUp':
+		case 'cancel': {
+			const txHash = this.getNodeParameter('txHash', index) as string;
+			const confirmations = this.getNodeParameter('confirmations', index) as number;
+			const bumpPercent = this.getNodeParameter('gasPriceBump', index) as number;
+			const gasPriceInput = this.getNodeParameter('replacementGasPrice', index) as string;
+			
+			const result = await roninClient.replaceTransaction(txHash, {
+				cancel: operation === 'cancel',
+				bumpPercent,
+				gasPrice: gasPriceInput ? parseGasPrice(gasPriceInput) : undefined,
+				confirmations,
+			});
+			
+			return {
+				operation,
+				originalHash: result.originalHash,
+				replacementHash: result.replacementHash,
+				nonce: result.nonce,
+				originalGasPrice: formatFees(result.original),
+				replacementGasPrice: formatFees(result.replacement),
+				mined: result.mined,
+				minedHash: result.minedHash,
+				status: result.receipt?.status === 1 ? 'success' : 'failed',
+				blockNumber: result.receipt?.blockNumber,
+				gasUsed: result.receipt?.gasUsed.toString(),
+			};
+		}
+
 		case 'decode': {
 			const txHash = this.getNodeParameter('txHash', index) as string;
 			const abiInput = this.getNodeParameter('abi', index) as string | object;
@@ -353,11 +421,7 @@ export async function executeTransaction(this: IExecuteFunctions, index: number)
 				to: string | null;
 				value: string;
 				data: string;
-				decoded?: {
-					function: string | undefined;
-					args: string[];
-					selector: string | undefined;
-				};
+				decoded?: DecodedCalldata;
 			} = {
 				hash: tx.hash,
 				from: tx.from,
@@ -366,25 +430,33 @@ export async function executeTransaction(this: IExecuteFunctions, index: number)
 				data: tx.data,
 			};
 			
-			if (abiInput && tx.data && tx.data !== '0x') {
-				try {
-					const abi = typeof abiInput === 'string' ? JSON.parse(abiInput) : abiInput;
-					const iface = new ethers.Interface(abi);
-					const decoded = iface.parseTransaction({ data: tx.data });
-					
-					result.decoded = {
-						function: decoded?.name,
-						args: decoded?.args.map(arg => arg.toString()) || [],
-						selector: decoded?.selector,
-					};
-				} catch {
-					// Decoding failed
-				}
-			}
+			result.decoded = decodeCalldata(abiInput, tx.data);
 			
 			return result;
 		}
 
+		case 'explain': {
+			const txHash = this.getNodeParameter('txHash', index) as string;
+			const abiInput = this.getNodeParameter('abi', index, '[]') as string | object;
+			const userAbi = parseAbi(abiInput);
+
+			const [tx, receipt] = await Promise.all([
+				provider.getTransaction(txHash),
+				provider.getTransactionReceipt(txHash),
+			]);
+
+			if (!tx) {
+				throw new Error(`Transaction ${txHash} not found`);
+			}
+
+			return explainTransaction(
+				tx,
+				receipt,
+				roninClient.getNetworkName(),
+				userAbi.fragments.length > 0 ? userAbi : undefined
+			);
+		}
+
 		default:
 			throw new Error(`Unknown operation: ${operation}`);
 	}
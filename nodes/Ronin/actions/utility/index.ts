@@ -1,12 +1,14 @@
 import { INodeProperties, IExecuteFunctions } from 'n8n-workflow';
-import { createRoninClient } from '../../transport/roninClient';
+import { ClientExecutionOptions, createRoninClient } from '../../transport/roninClient';
+import { DEFAULT_DERIVATION_PATH } from '../../transport/signers';
 import { 
 	normalizeAddress, 
 	hexToRonin, 
 	roninToHex, 
 	isValidAddress,
 	isRoninFormat,
-	isHexFormat 
+	isHexFormat,
+	deriveAddressesFromMnemonic
 } from '../../utils/addressUtils';
 import { 
 	weiToRon, 
@@ -47,6 +49,7 @@ export const utilityOperations: INodeProperties[] = [
 			{ name: 'Decode ABI', value: 'decodeAbi', description: 'Decode ABI encoded data', action: 'Decode ABI' },
 			{ name: 'Validate Axie Genes', value: 'validateGenes', description: 'Validate and decode Axie genes', action: 'Validate Axie genes' },
 			{ name: 'Generate Wallet', value: 'generateWallet', description: 'Generate a new wallet', action: 'Generate wallet' },
+			{ name: 'Derive Addresses', value: 'deriveAddresses', description: 'Derive account addresses from the mnemonic of the credential', action: 'Derive addresses' },
 			{ name: 'Get Chain Info', value: 'getChainInfo', description: 'Get chain configuration', action: 'Get chain info' },
 		],
 		default: 'convertUnits',
@@ -267,9 +270,61 @@ export const utilityFields: INodeProperties[] = [
 			},
 		},
 	},
+	// Address derivation
+	{
+		displayName: 'Path Template',
+		name: 'pathTemplate',
+		type: 'string',
+		default: '',
+		placeholder: 'From credential',
+		description: 'Derivation path the account index is appended to, or a template with an {index} placeholder. Defaults to the Derivation Path of the credential, so the addresses match the accounts it signs with.',
+		displayOptions: {
+			show: {
+				resource: ['utility'],
+				operation: ['deriveAddresses'],
+			},
+		},
+	},
+	{
+		displayName: 'Start Index',
+		name: 'startIndex',
+		type: 'number',
+		default: 0,
+		typeOptions: {
+			minValue: 0,
+		},
+		description: 'Index of the first account',
+		displayOptions: {
+			show: {
+				resource: ['utility'],
+				operation: ['deriveAddresses'],
+			},
+		},
+	},
+	{
+		displayName: 'Count',
+		name: 'count',
+		type: 'number',
+		default: 10,
+		typeOptions: {
+			minValue: 1,
+			maxValue: 1000,
+		},
+		description: 'Number of addresses to derive',
+		displayOptions: {
+			show: {
+				resource: ['utility'],
+				operation: ['deriveAddresses'],
+			},
+		},
+	},
 ];
 
-export async function executeUtility(this: IExecuteFunctions, index: number): Promise<unknown> {
+export async function executeUtility(
+	this: IExecuteFunctions,
+	index: number,
+	execution: ClientExecutionOptions = {}
+): Promise<unknown> {
 	const operation = this.getNodeParameter('operation', index) as string;
 
 	switch (operation) {
@@ -356,10 +411,10 @@ export async function executeUtility(this: IExecuteFunctions, index: number): Pr
 
 		case 'signMessage': {
 			const message = this.getNodeParameter('message', index) as string;
-			const roninClient = await createRoninClient(this);
+			const roninClient = await createRoninClient(this, execution);
 			
 			const signature = await roninClient.signMessage(message);
-			const signer = roninClient.getAddress();
+			const signer = await roninClient.getAddress();
 			
 			return {
 				message,
@@ -504,6 +559,29 @@ export async function executeUtility(this: IExecuteFunctions, index: number): Pr
 			};
 		}
 
+		case 'deriveAddresses': {
+			const pathOverride = this.getNodeParameter('pathTemplate', index, '') as string;
+			const startIndex = this.getNodeParameter('startIndex', index) as number;
+			const count = this.getNodeParameter('count', index) as number;
+
+			// The phrase is only read from the credential, so it is never stored in the workflow
+			const credentials = await this.getCredentials('roninNetwork');
+			if (credentials.signerType !== 'mnemonic' || !credentials.mnemonic) {
+				throw new Error('Derive Addresses requires a Ronin Network credential with the Mnemonic signer type');
+			}
+			const mnemonic = credentials.mnemonic as string;
+			// Same path resolution as the mnemonic signer
+			const pathTemplate = pathOverride.trim() || (credentials.derivationPath as string) || DEFAULT_DERIVATION_PATH;
+
+			// One item per account
+			return deriveAddressesFromMnemonic(mnemonic, count, { pathTemplate, startIndex }).map((account) => ({
+				index: account.index,
+				path: account.path,
+				address: account.roninAddress,
+				addressHex: account.address,
+			}));
+		}
+
 		case 'getChainInfo': {
 			return {
 				mainnet: {
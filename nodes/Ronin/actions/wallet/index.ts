@@ -1,9 +1,15 @@
 import { INodeProperties, IExecuteFunctions } from 'n8n-workflow';
-import { createRoninClient } from '../../transport/roninClient';
+import { ClientExecutionOptions, createRoninClient } from '../../transport/roninClient';
 import { createSkynetClient } from '../../transport/skynetApi';
-import { normalizeAddress, hexToRonin, isValidAddress, roninToHex } from '../../utils/addressUtils';
+import { parseNonceOverride } from '../../transport/nonceManager';
+import { parseFeeOptions } from '../../utils/gasUtils';
+import { batchTransferFields, executeBatchTransfer } from '../shared/batchTransfer';
+import { transactionOptionFields } from '../shared/transactionFields';
+import { normalizeAddress, hexToRonin, isValidAddress, parseAddressList, roninToHex } from '../../utils/addressUtils';
 import { weiToRon, formatUnits } from '../../utils/unitConverter';
 import { TOKENS, TOKEN_LIST } from '../../constants/tokens';
+import { ERC20_ABI, MULTICALL3_ABI } from '../../constants/contracts';
+import { MulticallCall } from '../../utils/multicall';
 
 export const walletOperations: INodeProperties[] = [
 	{
@@ -22,6 +28,7 @@ export const walletOperations: INodeProperties[] = [
 			{ name: 'Get All Token Balances', value: 'getAllBalances', description: 'Get all token balances', action: 'Get all token balances' },
 			{ name: 'Transfer RON', value: 'transferRon', description: 'Transfer RON to an address', action: 'Transfer RON' },
 			{ name: 'Transfer Token', value: 'transferToken', description: 'Transfer tokens to an address', action: 'Transfer token' },
+			{ name: 'Batch Transfer', value: 'batchTransfer', description: 'Transfer RON or tokens to many recipients at once', action: 'Batch transfer' },
 			{ name: 'Get Wallet NFTs', value: 'getWalletNfts', description: 'Get NFTs owned by wallet', action: 'Get wallet NFTs' },
 			{ name: 'Get Transaction History', value: 'getTransactionHistory', description: 'Get transaction history', action: 'Get transaction history' },
 			{ name: 'Validate Address', value: 'validateAddress', description: 'Validate a Ronin address', action: 'Validate address' },
@@ -41,7 +48,7 @@ export const walletFields: INodeProperties[] = [
 		default: '',
 		required: true,
 		placeholder: 'ronin:1234... or 0x1234...',
-		description: 'Ronin wallet address (supports both ronin: and 0x format)',
+		description: 'Ronin wallet address (supports both ronin: and 0x format). Get All Token Balances also accepts several addresses separated by commas.',
 		displayOptions: {
 			show: {
 				resource: ['wallet'],
@@ -109,6 +116,23 @@ export const walletFields: INodeProperties[] = [
 			},
 		},
 	},
+	...transactionOptionFields('wallet', ['transferRon', 'transferToken']),
+	// Batch transfer fields
+	{
+		displayName: 'Token',
+		name: 'batchToken',
+		type: 'options',
+		default: '0x0000000000000000000000000000000000000000',
+		options: TOKEN_LIST.filter((token) => token.value !== 'custom').map(t => ({ name: `${t.name} (${t.symbol})`, value: t.address })),
+		description: 'RON or token to send',
+		displayOptions: {
+			show: {
+				resource: ['wallet'],
+				operation: ['batchTransfer'],
+			},
+		},
+	},
+	...batchTransferFields('wallet'),
 	// Pagination for NFTs and history
 	{
 		displayName: 'Limit',
@@ -138,9 +162,13 @@ export const walletFields: INodeProperties[] = [
 	},
 ];
 
-export async function executeWallet(this: IExecuteFunctions, index: number): Promise<unknown> {
+export async function executeWallet(
+	this: IExecuteFunctions,
+	index: number,
+	execution: ClientExecutionOptions = {}
+): Promise<unknown> {
 	const operation = this.getNodeParameter('operation', index) as string;
-	const roninClient = await createRoninClient(this);
+	const roninClient = await createRoninClient(this, execution);
 
 	switch (operation) {
 		case 'getRonBalance': {
@@ -168,48 +196,65 @@ export async function executeWallet(this: IExecuteFunctions, index: number): Pro
 		}
 
 		case 'getAllBalances': {
-			const address = this.getNodeParameter('address', index) as string;
-			const normalizedAddr = normalizeAddress(address);
-			
-			const balances = [];
-			
-			// Get RON balance
-			const ronBalance = await roninClient.getRonBalance(address);
-			balances.push({
-				token: 'RON',
-				symbol: 'RON',
-				balance: ronBalance.formatted,
-				balanceRaw: ronBalance.wei,
-			});
+			const addressInput = this.getNodeParameter('address', index) as string;
+			const addresses = parseAddressList(addressInput);
+			const tokens = TOKEN_LIST.filter((token) => token.value !== 'custom' && token.value !== 'RON');
+			const multicallAddress = roninClient.getMulticallAddress();
 
-			// Get token balances
-			for (const token of TOKEN_LIST) {
-				if (token.value === 'custom' || token.value === 'RON') continue;
-				try {
-					const balance = await roninClient.getTokenBalance(token.address, normalizedAddr);
-					if (parseFloat(balance.raw) > 0) {
+			// Token decimals once, then the RON and token balances of every address, all in one multicall
+			const calls: MulticallCall[] = [
+				...tokens.map((token) => ({ target: token.address, abi: ERC20_ABI, method: 'decimals' })),
+				...addresses.flatMap((addr) => [
+					{ target: multicallAddress, abi: MULTICALL3_ABI, method: 'getEthBalance', params: [addr] },
+					...tokens.map((token) => ({ target: token.address, abi: ERC20_ABI, method: 'balanceOf', params: [addr] })),
+				]),
+			];
+			const results = await roninClient.multicall(calls);
+			const decimals = tokens.map((_, i) => results[i].success ? Number(results[i].value) : 18);
+
+			const portfolios = addresses.map((addr, a) => {
+				const offset = tokens.length + a * (tokens.length + 1);
+				const ronBalance = results[offset];
+				if (!ronBalance.success) {
+					throw new Error(`Unable to fetch RON balance of ${hexToRonin(addr)}: ${ronBalance.error}`);
+				}
+
+				const ronWei = ronBalance.value as bigint;
+				const balances = [{
+					token: 'RON',
+					symbol: 'RON',
+					balance: `${parseFloat(weiToRon(ronWei)).toFixed(4)} RON`,
+					balanceRaw: ronWei.toString(),
+				}];
+
+				// Tokens whose balance could not be read are skipped
+				tokens.forEach((token, t) => {
+					const balance = results[offset + 1 + t];
+					if (balance.success && (balance.value as bigint) > BigInt(0)) {
 						balances.push({
 							token: token.name,
 							symbol: token.symbol,
-							balance: balance.formatted,
-							balanceRaw: balance.raw,
+							balance: formatUnits(balance.value as bigint, decimals[t]),
+							balanceRaw: (balance.value as bigint).toString(),
 						});
 					}
-				} catch {
-					// Skip tokens that fail
-				}
-			}
+				});
 
-			return {
-				address: hexToRonin(normalizedAddr),
-				balances,
-			};
+				return {
+					address: hexToRonin(addr),
+					balances,
+				};
+			});
+
+			return portfolios.length === 1 ? portfolios[0] : portfolios;
 		}
 
 		case 'transferRon': {
 			const toAddress = this.getNodeParameter('toAddress', index) as string;
 			const amount = this.getNodeParameter('amount', index) as string;
-			const result = await roninClient.transferRon(toAddress, amount);
+			const nonce = parseNonceOverride(this.getNodeParameter('nonce', index, '') as string);
+			const fees = parseFeeOptions((name) => this.getNodeParameter(name, index, undefined));
+			const result = await roninClient.transferRon(toAddress, amount, { ...fees, nonce });
 			return {
 				success: true,
 				txHash: result.hash,
@@ -217,6 +262,7 @@ export async function executeWallet(this: IExecuteFunctions, index: number): Pro
 				to: hexToRonin(normalizeAddress(toAddress)),
 				amount,
 				blockNumber: result.blockNumber,
+				effectiveGasPrice: result.effectiveGasPrice,
 			};
 		}
 
@@ -224,7 +270,9 @@ export async function executeWallet(this: IExecuteFunctions, index: number): Pro
 			const toAddress = this.getNodeParameter('toAddress', index) as string;
 			const amount = this.getNodeParameter('amount', index) as string;
 			const tokenAddress = this.getNodeParameter('transferTokenAddress', index) as string;
-			const result = await roninClient.transferToken(tokenAddress, toAddress, amount);
+			const nonce = parseNonceOverride(this.getNodeParameter('nonce', index, '') as string);
+			const fees = parseFeeOptions((name) => this.getNodeParameter(name, index, undefined));
+			const result = await roninClient.transferToken(tokenAddress, toAddress, amount, undefined, { ...fees, nonce });
 			return {
 				success: true,
 				txHash: result.hash,
@@ -233,9 +281,19 @@ export async function executeWallet(this: IExecuteFunctions, index: number): Pro
 				amount,
 				token: tokenAddress,
 				blockNumber: result.blockNumber,
+				effectiveGasPrice: result.effectiveGasPrice,
 			};
 		}
 
+		case 'batchTransfer': {
+			const tokenAddress = this.getNodeParameter('batchToken', index) as string;
+			const isNative = tokenAddress.toLowerCase() === TOKENS.mainnet.RON.address;
+			const decimals = isNative
+				? 18
+				: Number(await roninClient.readContract(tokenAddress, ERC20_ABI, 'decimals'));
+			return executeBatchTransfer.call(this, index, roninClient, isNative ? null : tokenAddress, decimals);
+		}
+
 		case 'getWalletNfts': {
 			const address = this.getNodeParameter('address', index) as string;
 			const limit = this.getNodeParameter('limit', index) as number;
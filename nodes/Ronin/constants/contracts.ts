@@ -34,6 +34,10 @@ export interface ContractAddresses {
 	
 	// Governance
 	GOVERNANCE: string;
+	
+	// Utilities
+	DISPERSE: string;
+	MULTICALL3: string;
 }
 
 export const MAINNET_CONTRACTS: ContractAddresses = {
@@ -67,6 +71,10 @@ export const MAINNET_CONTRACTS: ContractAddresses = {
 	
 	// Governance
 	GOVERNANCE: '0x0000000000000000000000000000000000000000', // Placeholder
+	
+	// Utilities
+	DISPERSE: '0x0000000000000000000000000000000000000000', // Placeholder, set per node
+	MULTICALL3: '0xca11bde05977b3631167028862be2a173976ca11',
 };
 
 export const TESTNET_CONTRACTS: ContractAddresses = {
@@ -100,6 +108,10 @@ export const TESTNET_CONTRACTS: ContractAddresses = {
 	
 	// Governance
 	GOVERNANCE: '0x0000000000000000000000000000000000000000',
+	
+	// Utilities
+	DISPERSE: '0x0000000000000000000000000000000000000000',
+	MULTICALL3: '0xca11bde05977b3631167028862be2a173976ca11',
 };
 
 export const CONTRACTS: Record<string, ContractAddresses> = {
@@ -118,6 +130,22 @@ export function getContracts(network: string): ContractAddresses {
 	return contracts;
 }
 
+/**
+ * Disperse ABI (batch RON and token transfers)
+ */
+export const DISPERSE_ABI = [
+	'function disperseEther(address[] recipients, uint256[] values) payable',
+	'function disperseToken(address token, address[] recipients, uint256[] values)',
+];
+
+/**
+ * Multicall3 ABI (batched reads)
+ */
+export const MULTICALL3_ABI = [
+	'function aggregate3(tuple(address target, bool allowFailure, bytes callData)[] calls) payable returns (tuple(bool success, bytes returnData)[] returnData)',
+	'function getEthBalance(address addr) view returns (uint256 balance)',
+];
+
 /**
  * ERC20 Standard ABI (minimal)
  */
@@ -192,6 +220,53 @@ export const RON_STAKING_ABI = [
 	'function getStakingAmount(address delegator, address validator) view returns (uint256)',
 	'function getPendingRewards(address delegator, address validator) view returns (uint256)',
 	'function getValidators() view returns (address[])',
+	'event Delegated(address indexed delegator, address indexed consensusAddr, uint256 amount)',
+	'event Undelegated(address indexed delegator, address indexed consensusAddr, uint256 amount)',
+	'event RewardClaimed(address indexed consensusAddr, address indexed user, uint256 amount)',
+];
+
+/**
+ * Katana Factory ABI
+ */
+export const KATANA_FACTORY_ABI = [
+	'function getPair(address tokenA, address tokenB) view returns (address pair)',
+];
+
+/**
+ * Katana Pair ABI
+ */
+export const KATANA_PAIR_ABI = [
+	'function token0() view returns (address)',
+	'function token1() view returns (address)',
+	'function getReserves() view returns (uint112 reserve0, uint112 reserve1, uint32 blockTimestampLast)',
+	'event Swap(address indexed sender, uint256 amount0In, uint256 amount1In, uint256 amount0Out, uint256 amount1Out, address indexed to)',
+	'event Sync(uint112 reserve0, uint112 reserve1)',
+];
+
+/**
+ * Marketplace ABI (events)
+ */
+export const MARKETPLACE_ABI = [
+	'event OrdersMatched(bytes32 buyHash, bytes32 sellHash, address maker, address taker, uint256 price)',
+];
+
+/**
+ * Mavis Market gateway ABI
+ * Exchange calls are forwarded to the order exchange with interactWith('ORDER_EXCHANGE', data)
+ */
+export const MARKET_GATEWAY_ABI = [
+	'function interactWith(string interfaceName, bytes data) payable',
+	'function getMarketFeePercentage() view returns (uint256)',
+	'function makerNonce(address maker) view returns (uint256)',
+];
+
+/**
+ * Mavis Market order exchange ABI
+ */
+export const ORDER_EXCHANGE_ABI = [
+	'function settleOrder(tuple(bytes orderData, bytes signature, address referralAddr, uint256 expectedState, address recipient, address refunder) settleInfo, uint256 settlePrice)',
+	'function settleCollectionOrder(tuple(bytes orderData, bytes signature, address referralAddr, uint256 expectedState, address recipient, address refunder) settleInfo, uint256 settlePrice, uint256 tokenId)',
+	'function cancelOrder(bytes32 orderHash)',
 ];
 
 /**
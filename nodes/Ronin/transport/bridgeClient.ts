@@ -66,7 +66,7 @@ export interface BridgeToken {
 /**
  * Bridge Gateway ABI
  */
-const BRIDGE_ABI = [
+export const BRIDGE_ABI = [
 	'function depositFor(address recipient) payable',
 	'function depositERC20For(address token, address recipient, uint256 amount)',
 	'function requestWithdrawal(address token, uint256 amount)',
@@ -254,7 +254,7 @@ export class BridgeClient {
 			throw new Error('Ronin client required for withdrawals');
 		}
 
-		const wallet = this.roninClient.getWallet();
+		const wallet = await this.roninClient.getWallet();
 		if (!wallet) {
 			throw new Error('Wallet required for withdrawals');
 		}
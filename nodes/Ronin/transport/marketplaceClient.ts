@@ -6,10 +6,32 @@
 import axios, { AxiosInstance } from 'axios';
 import { ethers } from 'ethers';
 import { IExecuteFunctions, ILoadOptionsFunctions } from 'n8n-workflow';
+import { ERC20_ABI, ERC721_ABI, MARKET_GATEWAY_ABI, ORDER_EXCHANGE_ABI, getContracts } from '../constants/contracts';
 import { API_ENDPOINTS } from '../constants/networks';
+import { getToken, getTokenByAddress } from '../constants/tokens';
 import { normalizeAddress } from '../utils/addressUtils';
+import {
+	ANY_TOKEN_ID,
+	AxieTraits,
+	ORDER_ASSET,
+	ORDER_KIND,
+	ORDER_TYPES,
+	OfferCriteria,
+	Order,
+	encodeOrder,
+	getCurrentPrice,
+	getOrderDomain,
+	getOrderHash,
+	hasOfferCriteria,
+	matchesOfferCriteria,
+	recoverOrderSigner,
+} from '../utils/orderUtils';
+import { getRevertReason } from '../utils/simulation';
+import { formatUnits, parseUnits } from '../utils/unitConverter';
 import { RoninClient } from './roninClient';
 
+export type { Order } from '../utils/orderUtils';
+
 /**
  * Listing data structure
  */
@@ -26,31 +48,47 @@ export interface Listing {
 	expiredAt: number;
 	createdAt: number;
 	status: 'active' | 'sold' | 'cancelled';
+	/** Signed order, needed to settle or cancel the listing on-chain */
+	order?: Order;
+	signature?: string;
 }
 
 /**
- * Order data structure
+ * Offer data structure
  */
-export interface Order {
-	maker: string;
-	kind: number;
-	assets: Array<{
-		erc: number;
-		addr: string;
-		id: string;
-		quantity: string;
-	}>;
-	expiredAt: number;
-	paymentToken: string;
-	startedAt: number;
-	basePrice: string;
-	endedAt: number;
-	endedPrice: string;
-	expectedState: string;
-	nonce: number;
-	marketFeePercentage: number;
+export interface Offer {
+	id: string;
+	status: 'active' | 'filled' | 'cancelled';
+	order: Order;
+	signature: string;
+	/** Traits the token must have to fill a collection offer */
+	criteria?: OfferCriteria | null;
+}
+
+/**
+ * Offer that can be filled with a token of the wallet
+ */
+export interface IncomingOffer extends Offer {
+	/** Token of the wallet that fills the offer */
+	tokenId: string;
+	scope: 'token' | 'collection';
+	currentPrice: string;
+}
+
+/**
+ * Result of an on-chain settlement or cancellation
+ */
+export interface OrderTransactionResult {
+	success: boolean;
+	txHash: string;
+	orderHash: string;
+	/** Transaction that approved the payment token, if one was needed */
+	approvalTxHash?: string;
 }
 
+// The gateway forwards calls to the exchange contract registered under this name
+const ORDER_EXCHANGE = 'ORDER_EXCHANGE';
+
 /**
  * Marketplace client options
  */
@@ -65,6 +103,7 @@ export interface MarketplaceClientOptions {
 export class MarketplaceClient {
 	private httpClient: AxiosInstance;
 	private roninClient?: RoninClient;
+	private orderDomain?: Promise<ethers.TypedDataDomain>;
 
 	constructor(options: MarketplaceClientOptions = {}) {
 		this.httpClient = axios.create({
@@ -191,7 +230,7 @@ export class MarketplaceClient {
 	async getOffers(
 		contractAddress: string,
 		tokenId: string
-	): Promise<{ total: number; data: unknown[] }> {
+	): Promise<{ total: number; data: Offer[] }> {
 		const normalizedAddress = normalizeAddress(contractAddress);
 		
 		const response = await this.httpClient.get(
@@ -200,6 +239,93 @@ export class MarketplaceClient {
 		return response.data;
 	}
 
+	/**
+	 * Get offer by ID
+	 */
+	async getOffer(offerId: string): Promise<Offer> {
+		const response = await this.httpClient.get(`/v1/offers/${offerId}`);
+		return response.data;
+	}
+
+	/**
+	 * Get collection offers, which any token of the collection matching their criteria can fill
+	 */
+	async getCollectionOffers(contractAddress: string): Promise<{ total: number; data: Offer[] }> {
+		const normalizedAddress = normalizeAddress(contractAddress);
+
+		const response = await this.httpClient.get(`/v1/collections/${normalizedAddress}/offers`);
+		return response.data;
+	}
+
+	/**
+	 * Get offers made by a wallet
+	 */
+	async getOffersByMaker(
+		makerAddress: string,
+		params?: { from?: number; size?: number; status?: string }
+	): Promise<{ total: number; data: Offer[] }> {
+		const response = await this.httpClient.get('/v1/offers', {
+			params: {
+				...params,
+				maker: normalizeAddress(makerAddress),
+			},
+		});
+		return response.data;
+	}
+
+	/**
+	 * Get the active offers that tokens of a wallet can fill
+	 * Token offers are listed with their token, and collection offers once for every token
+	 * of the collection. Offers with criteria are only listed for tokens whose traits match.
+	 * @param tokens Tokens of the wallet
+	 * @param getTraits Reads the Axie traits of a token, null when it has none
+	 */
+	async getIncomingOffers(
+		tokens: Array<{ contractAddress: string; tokenId: string }>,
+		getTraits?: (contractAddress: string, tokenId: string) => Promise<AxieTraits | null>
+	): Promise<IncomingOffer[]> {
+		const now = Math.floor(Date.now() / 1000);
+		const isOpen = (offer: Offer) => offer.status === 'active' && offer.order.expiredAt > now;
+		const toIncoming = (offer: Offer, tokenId: string, scope: IncomingOffer['scope']): IncomingOffer => ({
+			...offer,
+			tokenId,
+			scope,
+			currentPrice: getCurrentPrice(offer.order, now).toString(),
+		});
+
+		const incoming: IncomingOffer[] = [];
+		const collectionOffers = new Map<string, Offer[]>();
+		for (const { contractAddress, tokenId } of tokens) {
+			const collection = normalizeAddress(contractAddress);
+			const { data } = await this.getOffers(collection, tokenId);
+			incoming.push(...data.filter(isOpen).map((offer) => toIncoming(offer, tokenId, 'token')));
+
+			if (!collectionOffers.has(collection)) {
+				collectionOffers.set(collection, (await this.getCollectionOffers(collection)).data.filter(isOpen));
+			}
+
+			// Traits are only read for tokens some offer has criteria for
+			let traits: AxieTraits | null | undefined;
+			for (const offer of collectionOffers.get(collection)!) {
+				if (hasOfferCriteria(offer.criteria)) {
+					if (traits === undefined) {
+						traits = getTraits ? await getTraits(collection, tokenId) : null;
+					}
+					if (!traits || !matchesOfferCriteria(traits, offer.criteria)) {
+						continue;
+					}
+				}
+				incoming.push(toIncoming(offer, tokenId, 'collection'));
+			}
+		}
+
+		// Best offers first
+		return incoming.sort((a, b) => {
+			const difference = BigInt(b.currentPrice) - BigInt(a.currentPrice);
+			return difference > BigInt(0) ? 1 : difference < BigInt(0) ? -1 : 0;
+		});
+	}
+
 	/**
 	 * Get marketplace stats
 	 */
@@ -252,6 +378,72 @@ export class MarketplaceClient {
 		return response.data;
 	}
 
+	/**
+	 * Reject marketplace API writes in simulation mode, which have no transaction to simulate
+	 */
+	private assertNotSimulating(action: string): void {
+		if (this.roninClient?.isSimulating()) {
+			throw new Error(`${action} cannot be simulated: it is submitted through the marketplace API, not as a transaction`);
+		}
+	}
+
+	/**
+	 * Get the Mavis Market gateway of the network
+	 */
+	private getGateway(): string {
+		if (!this.roninClient) {
+			throw new Error('Ronin client required for marketplace orders');
+		}
+		const gateway = getContracts(this.roninClient.getNetworkName()).MARKETPLACE_V2;
+		if (gateway === ethers.ZeroAddress) {
+			throw new Error('Mavis Market is not deployed on this network');
+		}
+		return gateway;
+	}
+
+	/**
+	 * Get the EIP-712 domain of orders on the connected chain (requires Ronin client)
+	 */
+	async getOrderDomain(): Promise<ethers.TypedDataDomain> {
+		if (!this.orderDomain) {
+			const gateway = this.getGateway();
+			this.orderDomain = this.roninClient!.getChainId().then((chainId) => getOrderDomain(chainId, gateway));
+			this.orderDomain.catch(() => (this.orderDomain = undefined));
+		}
+		return this.orderDomain;
+	}
+
+	/**
+	 * Read the current market fee and the maker's order nonce from the gateway
+	 * Orders signed with a stale fee or nonce are rejected by the exchange.
+	 */
+	private async getOrderTerms(maker: string): Promise<{ marketFeePercentage: number; nonce: number }> {
+		const gateway = new ethers.Contract(this.getGateway(), MARKET_GATEWAY_ABI, this.roninClient!.getProvider());
+		const [marketFeePercentage, nonce] = await Promise.all([
+			gateway.getMarketFeePercentage() as Promise<bigint>,
+			gateway.makerNonce(maker) as Promise<bigint>,
+		]);
+		return { marketFeePercentage: Number(marketFeePercentage), nonce: Number(nonce) };
+	}
+
+	/**
+	 * Recover the signer of an order and check it against the maker (requires Ronin client)
+	 */
+	async verifyOrderSignature(order: Order, signature: string): Promise<{
+		isValid: boolean;
+		signer: string;
+		maker: string;
+		orderHash: string;
+	}> {
+		const signer = recoverOrderSigner(order, signature, await this.getOrderDomain());
+		return {
+			isValid: signer.toLowerCase() === order.maker.toLowerCase(),
+			signer,
+			maker: normalizeAddress(order.maker),
+			orderHash: getOrderHash(order),
+		};
+	}
+
 	/**
 	 * Create order signature
 	 */
@@ -260,61 +452,63 @@ export class MarketplaceClient {
 			throw new Error('Ronin client required for signing orders');
 		}
 
-		const wallet = this.roninClient.getWallet();
+		const wallet = await this.roninClient.getWallet();
 		if (!wallet) {
 			throw new Error('Wallet required for signing orders');
 		}
 
-		// EIP-712 typed data
-		const domain = {
-			name: 'MarketGateway',
-			version: '1',
-			chainId: 2020,
-			verifyingContract: '0xfff9ce5f71ca6178d3beecedb61e7eff1602950e',
-		};
+		return wallet.signTypedData(await this.getOrderDomain(), ORDER_TYPES, order);
+	}
 
-		const types = {
-			Asset: [
-				{ name: 'erc', type: 'uint8' },
-				{ name: 'addr', type: 'address' },
-				{ name: 'id', type: 'uint256' },
-				{ name: 'quantity', type: 'uint256' },
-			],
-			Order: [
-				{ name: 'maker', type: 'address' },
-				{ name: 'kind', type: 'uint8' },
-				{ name: 'assets', type: 'Asset[]' },
-				{ name: 'expiredAt', type: 'uint256' },
-				{ name: 'paymentToken', type: 'address' },
-				{ name: 'startedAt', type: 'uint256' },
-				{ name: 'basePrice', type: 'uint256' },
-				{ name: 'endedAt', type: 'uint256' },
-				{ name: 'endedPrice', type: 'uint256' },
-				{ name: 'expectedState', type: 'uint256' },
-				{ name: 'nonce', type: 'uint256' },
-				{ name: 'marketFeePercentage', type: 'uint256' },
-			],
-		};
+	/**
+	 * Resolve the payment token of an order from its symbol or address
+	 * @param input Token symbol or address, WETH when empty
+	 */
+	private async resolvePaymentToken(input?: string): Promise<{ address: string; decimals: number }> {
+		const network = this.roninClient!.getNetworkName();
+		const value = input?.trim() || 'WETH';
+
+		if (value.toLowerCase().startsWith('ronin:') || ethers.isAddress(value)) {
+			const address = normalizeAddress(value);
+			const known = getTokenByAddress(network, address);
+			if (known) {
+				return { address, decimals: known.decimals };
+			}
+			const token = new ethers.Contract(address, ERC20_ABI, this.roninClient!.getProvider());
+			return { address, decimals: Number(await token.decimals()) };
+		}
 
-		const signature = await wallet.signTypedData(domain, types, order);
-		return signature;
+		const token = getToken(network, value);
+		if (!token || token.isNative) {
+			throw new Error(`Unknown payment token "${value}": use an ERC20 symbol such as WETH or a token address`);
+		}
+		return { address: normalizeAddress(token.address), decimals: token.decimals };
 	}
 
 	/**
 	 * Create listing (requires Ronin client)
+	 * With an end price and auction duration, the listing is a Dutch auction whose price
+	 * declines linearly from the start price until the auction ends, then stays at the end
+	 * price until the listing expires.
 	 */
 	async createListing(params: {
 		contractAddress: string;
 		tokenId: string;
+		/** Fixed price, or start price of an auction */
 		price: string;
+		/** End price of an auction */
+		endPrice?: string;
+		auctionDurationHours?: number;
+		/** Payment token symbol or address, WETH by default */
 		paymentToken?: string;
 		expirationDays?: number;
-	}): Promise<{ orderId: string; signature: string }> {
+	}): Promise<{ orderId: string; signature: string; order: Order; approvalTxHash?: string }> {
 		if (!this.roninClient) {
 			throw new Error('Ronin client required for creating listings');
 		}
+		this.assertNotSimulating('Creating listings');
 
-		const wallet = this.roninClient.getWallet();
+		const wallet = await this.roninClient.getWallet();
 		if (!wallet) {
 			throw new Error('Wallet required for creating listings');
 		}
@@ -322,29 +516,45 @@ export class MarketplaceClient {
 		const maker = await wallet.getAddress();
 		const now = Math.floor(Date.now() / 1000);
 		const expiredAt = now + (params.expirationDays || 7) * 24 * 60 * 60;
+		const paymentToken = await this.resolvePaymentToken(params.paymentToken);
+		const basePrice = parseUnits(params.price, paymentToken.decimals);
+
+		let endedAt = expiredAt;
+		let endedPrice = basePrice;
+		if (params.endPrice !== undefined && params.endPrice !== '') {
+			endedAt = now + Math.round((params.auctionDurationHours || 24) * 60 * 60);
+			endedPrice = parseUnits(params.endPrice, paymentToken.decimals);
+			if (endedPrice > basePrice) {
+				throw new Error('Auction end price cannot be higher than its start price');
+			}
+			if (endedAt > expiredAt) {
+				throw new Error('Listing cannot expire before its auction ends');
+			}
+		}
 
 		const order: Order = {
 			maker,
-			kind: 1, // Sell order
+			kind: ORDER_KIND.LISTING,
 			assets: [
 				{
-					erc: 721,
+					erc: ORDER_ASSET.ERC721,
 					addr: normalizeAddress(params.contractAddress),
 					id: params.tokenId,
 					quantity: '1',
 				},
 			],
 			expiredAt,
-			paymentToken: params.paymentToken || '0xc99a6a985ed2cac1ef41640596c5a5f9f4e19ef5', // WETH
+			paymentToken: paymentToken.address,
 			startedAt: now,
-			basePrice: ethers.parseEther(params.price).toString(),
-			endedAt: expiredAt,
-			endedPrice: ethers.parseEther(params.price).toString(),
+			basePrice: basePrice.toString(),
+			endedAt,
+			endedPrice: endedPrice.toString(),
 			expectedState: '0',
-			nonce: Date.now(),
-			marketFeePercentage: 425, // 4.25%
+			...(await this.getOrderTerms(maker)),
 		};
 
+		// A listing the gateway cannot transfer would be posted but never filled
+		const approvalTxHash = await this.approveCollection(order.assets[0].addr);
 		const signature = await this.signOrder(order);
 
 		// Submit to API
@@ -356,71 +566,286 @@ export class MarketplaceClient {
 		return {
 			orderId: response.data.id,
 			signature,
+			order,
+			...(approvalTxHash ? { approvalTxHash } : {}),
+		};
+	}
+
+	/**
+	 * Approve the gateway to transfer the tokens of a collection, unless it already can
+	 * Without the approval, orders selling tokens of the collection cannot be settled.
+	 * @returns Hash of the approval transaction, if one was sent
+	 */
+	private async approveCollection(contractAddress: string): Promise<string | undefined> {
+		const owner = await this.roninClient!.getSenderAddress();
+		const gateway = this.getGateway();
+		const collection = new ethers.Contract(contractAddress, ERC721_ABI, this.roninClient!.getProvider());
+		if (await collection.isApprovedForAll(owner, gateway)) {
+			return undefined;
+		}
+
+		const approval = await this.roninClient!.sendTransaction({
+			to: contractAddress,
+			data: collection.interface.encodeFunctionData('setApprovalForAll', [gateway, true]),
+		});
+		return approval.hash;
+	}
+
+	/**
+	 * Check that the wallet can pay a price and approve the gateway to spend it, unless it already can
+	 * Without the allowance, orders paid by the wallet cannot be settled.
+	 * @param label What is paid for, in the balance error
+	 * @returns Hash of the approval transaction, if one was sent
+	 */
+	private async approvePayment(tokenAddress: string, price: bigint, label: string): Promise<string | undefined> {
+		const owner = await this.roninClient!.getSenderAddress();
+		const gateway = this.getGateway();
+		const token = new ethers.Contract(tokenAddress, ERC20_ABI, this.roninClient!.getProvider());
+		const [balance, allowance, decimals, symbol] = await Promise.all([
+			token.balanceOf(owner) as Promise<bigint>,
+			token.allowance(owner, gateway) as Promise<bigint>,
+			token.decimals(),
+			token.symbol(),
+		]);
+		if (balance < price) {
+			throw new Error(
+				`Insufficient ${symbol} balance: ${label} costs ${formatUnits(price, Number(decimals))}, ` +
+				`wallet has ${formatUnits(balance, Number(decimals))}`
+			);
+		}
+		if (allowance >= price) {
+			return undefined;
+		}
+
+		const approval = await this.roninClient!.sendTransaction({
+			to: tokenAddress,
+			data: token.interface.encodeFunctionData('approve', [gateway, price]),
+		});
+		return approval.hash;
+	}
+
+	/**
+	 * Get the signed order of a listing
+	 */
+	private async getSignedOrder(listingId: string): Promise<{ order: Order; signature: string }> {
+		const listing = await this.getListing(listingId);
+		if (!listing.order || !listing.signature) {
+			throw new Error(`Listing ${listingId} has no signed order`);
+		}
+		if (listing.status && listing.status !== 'active') {
+			throw new Error(`Listing ${listingId} is ${listing.status}`);
+		}
+		return { order: listing.order, signature: listing.signature };
+	}
+
+	/**
+	 * Send an order exchange call through the gateway
+	 * Outside simulation the call is dry-run first, so orders that were filled, cancelled
+	 * or whose asset no longer matches expectedState fail with the exchange's revert reason.
+	 */
+	private async sendExchangeCall(orderId: string, data: string): Promise<{ hash: string; success: boolean }> {
+		const roninClient = this.roninClient!;
+		const gateway = new ethers.Interface(MARKET_GATEWAY_ABI);
+		const request = {
+			to: this.getGateway(),
+			data: gateway.encodeFunctionData('interactWith', [ORDER_EXCHANGE, data]),
 		};
+
+		if (!roninClient.isSimulating()) {
+			try {
+				await roninClient.getProvider().call({ ...request, from: await roninClient.getSenderAddress() });
+			} catch (error) {
+				throw new Error(`Order ${orderId} cannot be settled: ${getRevertReason(error)}`);
+			}
+		}
+
+		const { hash, receipt } = await roninClient.sendTransaction(request);
+		return { hash, success: receipt?.status === 1 };
+	}
+
+	/**
+	 * Check that an order can be settled: its kind, expiry and maker signature
+	 */
+	private async checkOrder(orderId: string, order: Order, signature: string, kind: number): Promise<void> {
+		const label = kind === ORDER_KIND.LISTING ? 'Listing' : 'Offer';
+		if (order.kind !== kind) {
+			throw new Error(`Order ${orderId} is not ${kind === ORDER_KIND.LISTING ? 'a listing' : 'an offer'}`);
+		}
+		if (order.expiredAt <= Math.floor(Date.now() / 1000)) {
+			throw new Error(`${label} ${orderId} expired at ${new Date(order.expiredAt * 1000).toISOString()}`);
+		}
+		if (!(await this.verifyOrderSignature(order, signature)).isValid) {
+			throw new Error(`${label} ${orderId} is not signed by its maker`);
+		}
+	}
+
+	/**
+	 * Cancel an order of the wallet on-chain by its order hash
+	 */
+	private async cancelOwnOrder(orderId: string, order: Order): Promise<OrderTransactionResult> {
+		const sender = await this.roninClient!.getSenderAddress();
+		if (normalizeAddress(order.maker) !== sender) {
+			throw new Error(`Order ${orderId} was made by ${order.maker}, not by ${sender}`);
+		}
+
+		const orderHash = getOrderHash(order);
+		const exchange = new ethers.Interface(ORDER_EXCHANGE_ABI);
+		const { hash, success } = await this.sendExchangeCall(
+			orderId,
+			exchange.encodeFunctionData('cancelOrder', [orderHash])
+		);
+
+		return { success, txHash: hash, orderHash };
 	}
 
 	/**
-	 * Cancel listing (requires Ronin client)
+	 * Cancel listing on-chain by its order hash (requires Ronin client)
 	 */
-	async cancelListing(listingId: string): Promise<{ success: boolean; txHash?: string }> {
+	async cancelListing(listingId: string): Promise<OrderTransactionResult> {
 		if (!this.roninClient) {
 			throw new Error('Ronin client required for cancelling listings');
 		}
 
-		// Get listing details first
 		const listing = await this.getListing(listingId);
-		
-		// Cancel on-chain
-		// Note: This would interact with marketplace contract
-		// Simplified implementation
-		const response = await this.httpClient.delete(`/v1/orders/${listingId}`);
-		
-		return {
-			success: true,
-			txHash: response.data.txHash,
-		};
+		if (!listing.order) {
+			throw new Error(`Listing ${listingId} has no signed order`);
+		}
+		return this.cancelOwnOrder(listingId, listing.order);
 	}
 
 	/**
-	 * Buy NFT (requires Ronin client)
+	 * Cancel an offer of the wallet on-chain by its order hash (requires Ronin client)
 	 */
-	async buyNft(listingId: string): Promise<{
-		success: boolean;
-		txHash: string;
-	}> {
+	async cancelOffer(offerId: string): Promise<OrderTransactionResult> {
+		if (!this.roninClient) {
+			throw new Error('Ronin client required for cancelling offers');
+		}
+
+		const offer = await this.getOffer(offerId);
+		return this.cancelOwnOrder(offerId, offer.order);
+	}
+
+	/**
+	 * Buy NFT by settling its listing on-chain (requires Ronin client)
+	 * The payment token is approved for the gateway first when the allowance is too low.
+	 */
+	async buyNft(listingId: string): Promise<OrderTransactionResult> {
 		if (!this.roninClient) {
 			throw new Error('Ronin client required for buying NFTs');
 		}
 
-		// Get listing details
-		const listing = await this.getListing(listingId);
-		
-		// Execute purchase on-chain
-		// Note: This would interact with marketplace contract
-		// Simplified - would need actual contract interaction
-		const response = await this.httpClient.post(`/v1/orders/${listingId}/buy`);
-		
-		return {
-			success: true,
-			txHash: response.data.txHash,
+		const { order, signature } = await this.getSignedOrder(listingId);
+		await this.checkOrder(listingId, order, signature, ORDER_KIND.LISTING);
+
+		const buyer = await this.roninClient.getSenderAddress();
+		// Auction prices only decline, so the price now covers the price when the order is mined
+		const price = getCurrentPrice(order);
+		const approvalTxHash = await this.approvePayment(order.paymentToken, price, 'listing');
+
+		const exchange = new ethers.Interface(ORDER_EXCHANGE_ABI);
+		const settleInfo = {
+			orderData: encodeOrder(order),
+			signature,
+			referralAddr: ethers.ZeroAddress,
+			expectedState: order.expectedState,
+			recipient: buyer,
+			refunder: buyer,
+		};
+		const { hash, success } = await this.sendExchangeCall(
+			listingId,
+			exchange.encodeFunctionData('settleOrder', [settleInfo, price])
+		);
+
+		return { success, txHash: hash, orderHash: getOrderHash(order), approvalTxHash };
+	}
+
+	/**
+	 * Accept an offer by settling it on-chain with a token of the wallet (requires Ronin client)
+	 * The gateway is approved for the collection first when it is not yet an operator.
+	 * Criteria are not checked here, since the marketplace API does not return Axie traits.
+	 * @param offerOrId Offer, or its ID to fetch it
+	 * @param tokenId Token that fills the offer, required for collection offers
+	 */
+	async acceptOffer(
+		offerOrId: string | Offer,
+		tokenId?: string
+	): Promise<OrderTransactionResult & { tokenId: string; price: string }> {
+		if (!this.roninClient) {
+			throw new Error('Ronin client required for accepting offers');
+		}
+
+		const offer = typeof offerOrId === 'string' ? await this.getOffer(offerOrId) : offerOrId;
+		const offerId = offer.id;
+		if (offer.status && offer.status !== 'active') {
+			throw new Error(`Offer ${offerId} is ${offer.status}`);
+		}
+		const { order, signature } = offer;
+		await this.checkOrder(offerId, order, signature, ORDER_KIND.OFFER);
+
+		const [asset] = order.assets;
+		const isCollectionOffer = asset.id === ANY_TOKEN_ID;
+		const token = isCollectionOffer ? tokenId : asset.id;
+		if (!token) {
+			throw new Error(`Offer ${offerId} is a collection offer: a token ID is required to accept it`);
+		}
+		if (!isCollectionOffer && tokenId && tokenId !== asset.id) {
+			throw new Error(`Offer ${offerId} is for token ${asset.id}, not ${tokenId}`);
+		}
+
+		const seller = await this.roninClient.getSenderAddress();
+		const collection = new ethers.Contract(asset.addr, ERC721_ABI, this.roninClient.getProvider());
+		const owner: string = await collection.ownerOf(token);
+		if (normalizeAddress(owner) !== seller) {
+			throw new Error(`Token ${token} is owned by ${owner}, not by ${seller}`);
+		}
+		const approvalTxHash = await this.approveCollection(asset.addr);
+
+		// Offer prices are fixed, so the price now is the price when the order is mined
+		const price = getCurrentPrice(order);
+		const exchange = new ethers.Interface(ORDER_EXCHANGE_ABI);
+		const settleInfo = {
+			orderData: encodeOrder(order),
+			signature,
+			referralAddr: ethers.ZeroAddress,
+			expectedState: order.expectedState,
+			recipient: order.maker,
+			refunder: seller,
 		};
+		const { hash, success } = await this.sendExchangeCall(
+			offerId,
+			isCollectionOffer
+				? exchange.encodeFunctionData('settleCollectionOrder', [settleInfo, price, token])
+				: exchange.encodeFunctionData('settleOrder', [settleInfo, price])
+		);
+
+		return { success, txHash: hash, orderHash: getOrderHash(order), approvalTxHash, tokenId: token, price: price.toString() };
 	}
 
 	/**
-	 * Make offer on NFT
+	 * Make offer on an NFT, or a collection offer when no token ID is given
+	 * Collection offers can require Axie traits, which the marketplace matches against
+	 * the token that fills them. The payment token balance is checked and the gateway
+	 * approved for the price first, so the offer can be settled.
 	 */
 	async makeOffer(params: {
 		contractAddress: string;
-		tokenId: string;
+		/** Token to make the offer on, any token of the collection when empty */
+		tokenId?: string;
+		criteria?: OfferCriteria;
 		price: string;
+		/** Payment token symbol or address, WETH by default */
 		paymentToken?: string;
 		expirationDays?: number;
-	}): Promise<{ offerId: string }> {
+	}): Promise<{ offerId: string; signature: string; order: Order; scope: 'token' | 'collection'; approvalTxHash?: string }> {
 		if (!this.roninClient) {
 			throw new Error('Ronin client required for making offers');
 		}
+		if (params.tokenId && params.criteria) {
+			throw new Error('Criteria only apply to collection offers');
+		}
+		this.assertNotSimulating('Making offers');
 
-		const wallet = this.roninClient.getWallet();
+		const wallet = await this.roninClient.getWallet();
 		if (!wallet) {
 			throw new Error('Wallet required for making offers');
 		}
@@ -428,27 +853,29 @@ export class MarketplaceClient {
 		const maker = await wallet.getAddress();
 		const now = Math.floor(Date.now() / 1000);
 		const expiredAt = now + (params.expirationDays || 7) * 24 * 60 * 60;
+		const paymentToken = await this.resolvePaymentToken(params.paymentToken);
+		const price = parseUnits(params.price, paymentToken.decimals).toString();
+		const approvalTxHash = await this.approvePayment(paymentToken.address, BigInt(price), 'offer');
 
 		const order: Order = {
 			maker,
-			kind: 0, // Buy order (offer)
+			kind: ORDER_KIND.OFFER,
 			assets: [
 				{
-					erc: 721,
+					erc: ORDER_ASSET.ERC721,
 					addr: normalizeAddress(params.contractAddress),
-					id: params.tokenId,
+					id: params.tokenId || ANY_TOKEN_ID,
 					quantity: '1',
 				},
 			],
 			expiredAt,
-			paymentToken: params.paymentToken || '0xc99a6a985ed2cac1ef41640596c5a5f9f4e19ef5', // WETH
+			paymentToken: paymentToken.address,
 			startedAt: now,
-			basePrice: ethers.parseEther(params.price).toString(),
+			basePrice: price,
 			endedAt: expiredAt,
-			endedPrice: ethers.parseEther(params.price).toString(),
+			endedPrice: price,
 			expectedState: '0',
-			nonce: Date.now(),
-			marketFeePercentage: 425, // 4.25%
+			...(await this.getOrderTerms(maker)),
 		};
 
 		const signature = await this.signOrder(order);
@@ -456,10 +883,15 @@ export class MarketplaceClient {
 		const response = await this.httpClient.post('/v1/offers', {
 			order,
 			signature,
+			...(params.criteria ? { criteria: params.criteria } : {}),
 		});
 
 		return {
 			offerId: response.data.id,
+			signature,
+			order,
+			scope: params.tokenId ? 'token' : 'collection',
+			...(approvalTxHash ? { approvalTxHash } : {}),
 		};
 	}
 }
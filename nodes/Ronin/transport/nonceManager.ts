@@ -0,0 +1,157 @@
+/**
+ * Ronin Nonce Manager
+ * Process-wide nonce allocator so concurrent sends from one wallet do not collide
+ */
+
+/**
+ * Reserved nonce of an address
+ */
+interface NonceReservation {
+	/** 'allocated' until the transaction is broadcast, then 'sent' */
+	status: 'allocated' | 'sent';
+	/** Time of the last status change in milliseconds */
+	updatedAt: number;
+}
+
+/**
+ * Nonce manager options
+ */
+export interface NonceManagerOptions {
+	/**
+	 * Time after which a sent nonce the node still does not count is considered dropped
+	 * and handed out again, in milliseconds
+	 */
+	droppedAfter?: number;
+	/** Clock, for tests */
+	now?: () => number;
+}
+
+/**
+ * Parse the optional Nonce field of send operations
+ * @param input Field value, empty or 'auto' for automatic allocation
+ * @returns Nonce, or undefined to allocate one
+ */
+export function parseNonceOverride(input: string | number | undefined): number | undefined {
+	if (input === undefined || input === '' || String(input).trim().toLowerCase() === 'auto') {
+		return undefined;
+	}
+	const nonce = Number(input);
+	if (!Number.isSafeInteger(nonce) || nonce < 0) {
+		throw new Error(`Invalid nonce: ${input}`);
+	}
+	return nonce;
+}
+
+/**
+ * Build the nonce account key of an address, nonces being tracked per chain
+ * @param chainId Chain ID
+ * @param address Sender address
+ * @returns Account key
+ */
+export function getNonceAccount(chainId: number, address: string): string {
+	return `${chainId}:${address.toLowerCase()}`;
+}
+
+/**
+ * Nonce manager
+ * Allocation is serialized per address and reconciled with the node's pending
+ * transaction count, so nonces used by other senders are skipped and nonces whose
+ * transactions were never broadcast (or were dropped) are reused.
+ */
+export class NonceManager {
+	private reservations = new Map<string, Map<number, NonceReservation>>();
+	private locks = new Map<string, Promise<void>>();
+	private droppedAfter: number;
+	private now: () => number;
+
+	constructor(options: NonceManagerOptions = {}) {
+		this.droppedAfter = options.droppedAfter ?? 120000;
+		this.now = options.now ?? Date.now;
+	}
+
+	/**
+	 * Allocate the next free nonce of an address
+	 * @param account Sender account, the address scoped by chain ID (see getNonceAccount)
+	 * @param getPendingCount Returns the node's pending transaction count of the address
+	 * @returns Nonce, to be passed to markSent() or release()
+	 */
+	async acquire(account: string, getPendingCount: () => Promise<number>): Promise<number> {
+		const key = account.toLowerCase();
+		const previous = this.locks.get(key) ?? Promise.resolve();
+		let unlock!: () => void;
+		const current = new Promise<void>((resolve) => {
+			unlock = resolve;
+		});
+		const tail = previous.then(() => current);
+		this.locks.set(key, tail);
+
+		await previous;
+		try {
+			const pendingCount = await getPendingCount();
+			const reserved = this.getReservations(key);
+			const now = this.now();
+
+			for (const [nonce, reservation] of reserved) {
+				const mined = nonce < pendingCount;
+				const dropped = reservation.status === 'sent' && now - reservation.updatedAt > this.droppedAfter;
+				if (mined || dropped) {
+					reserved.delete(nonce);
+				}
+			}
+
+			let nonce = pendingCount;
+			while (reserved.has(nonce)) {
+				nonce++;
+			}
+			reserved.set(nonce, { status: 'allocated', updatedAt: now });
+			return nonce;
+		} finally {
+			unlock();
+			if (this.locks.get(key) === tail) {
+				this.locks.delete(key);
+			}
+		}
+	}
+
+	/**
+	 * Record that the transaction using a nonce was broadcast
+	 * @param account Sender account
+	 * @param nonce Allocated nonce
+	 */
+	markSent(account: string, nonce: number): void {
+		const reserved = this.getReservations(account.toLowerCase());
+		reserved.set(nonce, { status: 'sent', updatedAt: this.now() });
+	}
+
+	/**
+	 * Release a nonce whose transaction was not broadcast, so the next send fills the gap
+	 * @param account Sender account
+	 * @param nonce Allocated nonce
+	 */
+	release(account: string, nonce: number): void {
+		this.getReservations(account.toLowerCase()).delete(nonce);
+	}
+
+	/**
+	 * Get the nonces currently reserved for an address
+	 * @param account Sender account
+	 * @returns Sorted nonces
+	 */
+	getReserved(account: string): number[] {
+		return [...this.getReservations(account.toLowerCase()).keys()].sort((a, b) => a - b);
+	}
+
+	private getReservations(key: string): Map<number, NonceReservation> {
+		let reserved = this.reservations.get(key);
+		if (!reserved) {
+			reserved = new Map();
+			this.reservations.set(key, reserved);
+		}
+		return reserved;
+	}
+}
+
+/**
+ * Nonce manager shared by all clients in the process
+ */
+export const nonceManager = new NonceManager();
@@ -4,11 +4,54 @@
  */
 
 import { ethers } from 'ethers';
-import { IExecuteFunctions, ILoadOptionsFunctions } from 'n8n-workflow';
+import { IExecuteFunctions, ILoadOptionsFunctions, ITriggerFunctions } from 'n8n-workflow';
 import { NETWORKS, NetworkConfig, getRpcUrl } from '../constants/networks';
-import { ERC20_ABI, ERC721_ABI, getContracts } from '../constants/contracts';
+import { DISPERSE_ABI, ERC20_ABI, ERC721_ABI, MULTICALL3_ABI, getContracts } from '../constants/contracts';
 import { normalizeAddress, roninToHex, hexToRonin } from '../utils/addressUtils';
 import { weiToRon, ronToWei, formatUnits, parseUnits } from '../utils/unitConverter';
+import {
+	SimulationResult,
+	TokenTransfer,
+	canDeriveBalanceDeltas,
+	computeBalanceDeltas,
+	decodeApprovalSpender,
+	decodeTransferCall,
+	getRevertReason,
+	toRpcBlockTag,
+} from '../utils/simulation';
+import {
+	FEE_HISTORY_PERCENTILES,
+	FeeEstimate,
+	FeeFields,
+	FeeHistory,
+	FeeOptions,
+	FeeSpeed,
+	estimateFeesFromHistory,
+	getReplacementFees,
+} from '../utils/gasUtils';
+import { BatchRecipient, BatchTransferResult } from '../utils/batchTransfer';
+import { chunk } from '../utils/arrayUtils';
+import {
+	MULTICALL_BATCH_SIZE,
+	MulticallCall,
+	MulticallResult,
+	decodeMulticall,
+	encodeMulticall,
+} from '../utils/multicall';
+import {
+	NATIVE_ASSET,
+	PolicyViolationError,
+	Spend,
+	SpendLedger,
+	SpendPolicy,
+	checkSpendPolicy,
+	getTransactionSpends,
+	parseSpendPolicy,
+	recordSpends,
+} from '../utils/spendPolicy';
+import { getSelector } from '../utils/abiUtils';
+import { getNonceAccount, nonceManager } from './nonceManager';
+import { RoninSigner, SignerConfig, SignerType, createSigner } from './signers';
 
 /**
  * Connection options for RPC client
@@ -17,7 +60,96 @@ export interface RoninClientOptions {
 	network: 'mainnet' | 'testnet' | 'custom';
 	rpcUrl?: string;
 	privateKey?: string;
+	/** Signer used instead of a private key (keystore, mnemonic or remote signer) */
+	signer?: RoninSigner;
+	/** Creates the signer on first use, so read-only operations never unlock it */
+	loadSigner?: () => Promise<RoninSigner | undefined>;
 	walletAddress?: string;
+	/** Simulate write operations instead of broadcasting them */
+	simulation?: SimulationSession;
+	/** Spend policy every transaction is checked against before signing */
+	spendPolicy?: SpendPolicySession;
+}
+
+/**
+ * Per-transaction overrides of send operations
+ */
+export interface TransactionOverrides extends FeeOptions {
+	/** Nonce to use instead of allocating the next free one */
+	nonce?: number;
+}
+
+/**
+ * Outcome of waiting for a transaction that may have been replaced
+ */
+export interface MinedTransaction {
+	/** Hash that was waited for */
+	hash: string;
+	/** Hash of the transaction that got mined with the same nonce */
+	minedHash: string;
+	replaced: boolean;
+	/** Replacement reason reported by ethers: 'repriced', 'cancelled' or 'replaced' */
+	replacementReason?: string;
+	receipt: ethers.TransactionReceipt | null;
+}
+
+/**
+ * Result of replacing a pending transaction
+ */
+export interface ReplacementResult {
+	originalHash: string;
+	/** Hash of the replacement, empty when simulated */
+	replacementHash: string;
+	nonce: number;
+	original: FeeFields;
+	replacement: FeeFields;
+	/** Which transaction got mined: 'replacement', 'original' or 'other' (null when simulated) */
+	mined: 'replacement' | 'original' | 'other' | null;
+	minedHash: string | null;
+	receipt: ethers.TransactionReceipt | null;
+}
+
+/**
+ * Simulation session of one node execution item
+ */
+export interface SimulationSession {
+	blockTag: ethers.BlockTag;
+	/** Simulated transactions, in the order the operation built them */
+	simulations: SimulationResult[];
+}
+
+/**
+ * Options of the node item a client is created for
+ */
+export interface ClientExecutionOptions {
+	/** Simulate write operations into this session instead of sending them */
+	simulation?: SimulationSession;
+	/** Mnemonic account to sign with instead of the credential's */
+	accountIndex?: number;
+	/** Whether transactions are confirmed, as spend policies may require */
+	confirmed?: boolean;
+}
+
+/**
+ * Spend policy of a client, with the rolling window ledger kept in workflow static data
+ */
+export interface SpendPolicySession {
+	policy: SpendPolicy;
+	ledger: SpendLedger;
+	/** Whether the node confirmed its transactions */
+	confirmed: boolean;
+}
+
+/**
+ * Transaction sent (or simulated) through the client
+ */
+export interface SentTransaction {
+	/** Transaction hash, empty when simulated */
+	hash: string;
+	from: string;
+	/** Receipt, null when simulated */
+	receipt: ethers.TransactionReceipt | null;
+	simulation?: SimulationResult;
 }
 
 /**
@@ -31,6 +163,8 @@ export interface TransactionResult {
 	to: string;
 	value: string;
 	gasUsed?: string;
+	/** Gas price paid in wei, from the receipt */
+	effectiveGasPrice?: string;
 	status?: boolean;
 }
 
@@ -39,12 +173,21 @@ export interface TransactionResult {
  */
 export class RoninClient {
 	private provider: ethers.JsonRpcProvider;
-	private wallet?: ethers.Wallet;
+	private wallet?: RoninSigner;
+	private signerLoader?: () => Promise<RoninSigner | undefined>;
+	private signerLoading?: Promise<RoninSigner | undefined>;
 	private network: string;
 	private config: NetworkConfig;
+	private walletAddress?: string;
+	private simulation?: SimulationSession;
+	private spendPolicy?: SpendPolicySession;
 
 	constructor(options: RoninClientOptions) {
 		this.network = options.network;
+		this.walletAddress = options.walletAddress || undefined;
+		this.simulation = options.simulation;
+		this.spendPolicy = options.spendPolicy;
+		this.signerLoader = options.loadSigner;
 		
 		// Get RPC URL
 		const rpcUrl = options.network === 'custom' 
@@ -66,8 +209,10 @@ export class RoninClient {
 			name: this.config.name,
 		});
 
-		// Create wallet if private key provided
-		if (options.privateKey) {
+		// Connect the signer, or create a wallet if a private key is provided
+		if (options.signer) {
+			this.wallet = options.signer.connect(this.provider) as RoninSigner;
+		} else if (options.privateKey) {
 			this.wallet = new ethers.Wallet(options.privateKey, this.provider);
 		}
 	}
@@ -80,27 +225,425 @@ export class RoninClient {
 	}
 
 	/**
-	 * Get wallet instance
+	 * Get the configured signer, if any
+	 * A signer loaded on first use is created by the first call.
 	 */
-	getWallet(): ethers.Wallet | undefined {
+	async getWallet(): Promise<RoninSigner | undefined> {
+		if (!this.wallet && this.signerLoader) {
+			this.signerLoading = this.signerLoading ?? this.signerLoader().then(
+				(signer) => {
+					this.wallet = signer?.connect(this.provider) as RoninSigner | undefined;
+					return this.wallet;
+				},
+				(error) => {
+					this.signerLoading = undefined;
+					throw error;
+				}
+			);
+			await this.signerLoading;
+		}
 		return this.wallet;
 	}
 
 	/**
 	 * Get wallet address
 	 */
-	getAddress(): string | undefined {
-		return this.wallet?.address;
+	async getAddress(): Promise<string | undefined> {
+		return (await this.getWallet())?.address;
 	}
 
 	/**
-	 * Get signer (wallet or provider)
+	 * Get signer (private key, keystore, mnemonic or remote signer)
 	 */
-	getSigner(): ethers.Wallet {
-		if (!this.wallet) {
-			throw new Error('No wallet configured. Private key required for signing.');
+	async getSigner(): Promise<RoninSigner> {
+		const wallet = await this.getWallet();
+		if (!wallet) {
+			throw new Error('No wallet configured. A private key, keystore, mnemonic or remote signer is required for signing.');
 		}
-		return this.wallet;
+		return wallet;
+	}
+
+	/**
+	 * Check if write operations are simulated instead of broadcast
+	 */
+	isSimulating(): boolean {
+		return this.simulation !== undefined;
+	}
+
+	/**
+	 * Get the address transactions are sent from
+	 * Falls back to the credential wallet address, which is enough for simulations.
+	 */
+	async getSenderAddress(): Promise<string> {
+		const wallet = await this.getWallet();
+		if (wallet) {
+			return wallet.address;
+		}
+		if (this.walletAddress) {
+			return normalizeAddress(this.walletAddress);
+		}
+		throw new Error('No wallet configured. Private key or wallet address required.');
+	}
+
+	/**
+	 * Send a transaction and wait for its receipt, or simulate it in simulation mode
+	 * Without an explicit nonce, the next free nonce of the wallet is allocated by the
+	 * process-wide nonce manager so concurrent sends do not collide. Fees are resolved
+	 * from the overrides unless the request already carries them.
+	 */
+	async sendTransaction(
+		request: ethers.TransactionRequest,
+		overrides: TransactionOverrides = {}
+	): Promise<SentTransaction> {
+		const { nonce: nonceOverride, ...feeOptions } = overrides;
+		const hasFees = (request.gasPrice ?? request.maxFeePerGas ?? null) !== null;
+		request = {
+			...request,
+			...(hasFees ? {} : await this.resolveFees(feeOptions)),
+			...(nonceOverride !== undefined ? { nonce: nonceOverride } : {}),
+		};
+
+		const spends = this.spendPolicy ? await this.enforceSpendPolicy(request) : [];
+
+		if (this.simulation) {
+			let simulation = await this.simulateTransaction(request, this.simulation.blockTag);
+			// Every step runs against the same block, so a call spending an allowance that an
+			// earlier step grants reverts. It is reported as waiting for that approval instead.
+			const to = request.to ? normalizeAddress(request.to as string).toLowerCase() : null;
+			const approvedBefore = (previous: SimulationResult) =>
+				previous.success === true && decodeApprovalSpender(previous.data) === to;
+			if (simulation.success === false && to && this.simulation.simulations.some(approvedBefore)) {
+				simulation = {
+					...simulation,
+					success: null,
+					requiresApproval: true,
+					revertReason: null,
+					balanceDeltas: null,
+					balanceDeltasDerivable: false,
+				};
+			}
+			this.simulation.simulations.push(simulation);
+			return {
+				hash: '',
+				from: await this.getSenderAddress(),
+				receipt: null,
+				simulation,
+			};
+		}
+
+		const signer = await this.getSigner();
+		let tx: ethers.TransactionResponse;
+		if (request.nonce !== undefined && request.nonce !== null) {
+			tx = await signer.sendTransaction(request);
+		} else {
+			const account = getNonceAccount(this.config.chainId, signer.address);
+			const nonce = await nonceManager.acquire(
+				account,
+				() => this.provider.getTransactionCount(signer.address, 'pending')
+			);
+			try {
+				tx = await signer.sendTransaction({ ...request, nonce });
+			} catch (error) {
+				nonceManager.release(account, nonce);
+				throw error;
+			}
+			nonceManager.markSent(account, nonce);
+		}
+		if (this.spendPolicy) {
+			recordSpends(this.spendPolicy.ledger, getNonceAccount(this.config.chainId, signer.address), spends, Date.now());
+		}
+		const receipt = await tx.wait();
+
+		return {
+			hash: tx.hash,
+			from: tx.from,
+			receipt,
+		};
+	}
+
+	/**
+	 * Check a transaction against the spend policy before it is signed
+	 * Caps are converted with the decimals of the asset; a transferFrom on a contract
+	 * without decimals is an NFT transfer and counts as one token.
+	 * @returns Spends of the transaction, recorded once it is broadcast
+	 */
+	private async enforceSpendPolicy(request: ethers.TransactionRequest): Promise<Spend[]> {
+		const { policy, ledger, confirmed } = this.spendPolicy!;
+		const data = typeof request.data === 'string' ? request.data : '0x';
+		const { spends, recipients } = getTransactionSpends({
+			to: typeof request.to === 'string' ? request.to : null,
+			value: request.value !== undefined && request.value !== null ? BigInt(request.value) : null,
+			data,
+		});
+
+		const decimals: Record<string, number> = { [NATIVE_ASSET]: 18 };
+		const resolved = await Promise.all(spends.map(async (spend): Promise<Spend> => {
+			if (spend.kind === 'native' || !policy.limits[spend.asset]) {
+				return spend;
+			}
+			if (spend.kind === 'nft') {
+				decimals[spend.asset] = 0;
+				return spend;
+			}
+
+			const contract = new ethers.Contract(spend.asset, ERC20_ABI, this.provider);
+			const assetDecimals = await contract.decimals().then(Number).catch(() => null);
+			if (assetDecimals === null && spend.kind === 'tokenOrNft') {
+				decimals[spend.asset] = 0;
+				return { ...spend, kind: 'nft', amount: BigInt(1) };
+			}
+			decimals[spend.asset] = assetDecimals ?? 18;
+			return { ...spend, kind: 'token' };
+		}));
+
+		const violations = checkSpendPolicy(policy, {
+			spends: resolved,
+			recipients,
+			selector: getSelector(data),
+			// Simulations sign nothing, so they need no confirmation
+			confirmed: confirmed || this.simulation !== undefined,
+			account: getNonceAccount(this.config.chainId, await this.getSenderAddress()),
+			ledger,
+			now: Date.now(),
+			decimals,
+		});
+		if (violations.length > 0) {
+			throw new PolicyViolationError(violations);
+		}
+
+		return resolved;
+	}
+
+	/**
+	 * Resolve the fee fields of a transaction
+	 * In auto mode, an explicit gas price selects legacy pricing; otherwise EIP-1559 fees
+	 * are used when the latest block has a base fee.
+	 */
+	async resolveFees(options: FeeOptions = {}): Promise<FeeFields & { type: number }> {
+		let mode = options.feeMode ?? 'auto';
+		if (mode === 'auto') {
+			const latest = await this.provider.getBlock('latest');
+			const supportsEip1559 = (latest?.baseFeePerGas ?? null) !== null;
+			mode = options.gasPrice === undefined && supportsEip1559 ? 'eip1559' : 'legacy';
+		}
+
+		if (mode === 'legacy') {
+			// ethers fills in the network gas price when none is given
+			return { type: 0, gasPrice: options.gasPrice };
+		}
+
+		let { maxFeePerGas, maxPriorityFeePerGas } = options;
+		if (maxFeePerGas === undefined || maxPriorityFeePerGas === undefined) {
+			const estimate = (await this.estimateFees())[options.feeSpeed ?? 'normal'];
+			maxPriorityFeePerGas = maxPriorityFeePerGas ?? estimate.maxPriorityFeePerGas;
+			maxFeePerGas = maxFeePerGas ?? estimate.baseFeePerGas * BigInt(2) + maxPriorityFeePerGas;
+		}
+		if (maxPriorityFeePerGas > maxFeePerGas) {
+			throw new Error('Max priority fee per gas cannot be higher than max fee per gas');
+		}
+
+		return { type: 2, maxFeePerGas, maxPriorityFeePerGas };
+	}
+
+	/**
+	 * Get the fee history of recent blocks at the priority fee percentiles of each speed
+	 */
+	async getFeeHistory(blockCount: number = 20): Promise<FeeHistory> {
+		return this.provider.send('eth_feeHistory', [
+			ethers.toQuantity(blockCount),
+			'latest',
+			Object.values(FEE_HISTORY_PERCENTILES)
+		]);
+	}
+
+	/**
+	 * Estimate EIP-1559 fees for each speed from the fee history
+	 */
+	async estimateFees(blockCount: number = 20): Promise<Record<FeeSpeed, FeeEstimate>> {
+		return estimateFeesFromHistory(await this.getFeeHistory(blockCount));
+	}
+
+	/**
+	 * Wait for a transaction, reporting instead of throwing when another transaction
+	 * with the same nonce got mined
+	 * @param tx Transaction response, made replaceable from the block it was sent at
+	 * @param confirmations Number of confirmations to wait for
+	 */
+	async waitForTransaction(
+		tx: ethers.TransactionResponse,
+		confirmations: number = 1
+	): Promise<MinedTransaction> {
+		try {
+			const receipt = await tx.wait(confirmations);
+			return { hash: tx.hash, minedHash: tx.hash, replaced: false, receipt };
+		} catch (error) {
+			if (ethers.isError(error, 'TRANSACTION_REPLACED')) {
+				return {
+					hash: tx.hash,
+					minedHash: error.replacement.hash,
+					replaced: true,
+					replacementReason: error.reason,
+					receipt: error.receipt,
+				};
+			}
+			throw error;
+		}
+	}
+
+	/**
+	 * Replace a pending transaction by re-signing its nonce with higher fees
+	 * A speed-up resends the same transaction, a cancel sends zero RON to the sender.
+	 */
+	async replaceTransaction(
+		hash: string,
+		options: {
+			cancel?: boolean;
+			bumpPercent: number;
+			gasPrice?: bigint;
+			confirmations?: number;
+		}
+	): Promise<ReplacementResult> {
+		const original = await this.provider.getTransaction(hash);
+		if (!original) {
+			throw new Error(`Transaction ${hash} not found`);
+		}
+		if (original.blockNumber !== null) {
+			throw new Error(`Transaction ${hash} is already mined in block ${original.blockNumber}`);
+		}
+
+		const sender = await this.getSenderAddress();
+		if (original.from.toLowerCase() !== sender.toLowerCase()) {
+			throw new Error(`Transaction ${hash} was not sent by the configured wallet`);
+		}
+
+		const originalFees: FeeFields = original.maxFeePerGas !== null
+			? { maxFeePerGas: original.maxFeePerGas, maxPriorityFeePerGas: original.maxPriorityFeePerGas }
+			: { gasPrice: original.gasPrice };
+		const networkGasPrice = (await this.provider.getFeeData()).gasPrice ?? undefined;
+		const fees = getReplacementFees(originalFees, options.bumpPercent, options.gasPrice, networkGasPrice);
+
+		const request: ethers.TransactionRequest = options.cancel
+			? { to: sender, value: BigInt(0), data: '0x', gasLimit: BigInt(21000) }
+			: { to: original.to, value: original.value, data: original.data, gasLimit: original.gasLimit };
+		Object.assign(request, fees, { nonce: original.nonce, type: original.maxFeePerGas !== null ? 2 : 0 });
+
+		const result: ReplacementResult = {
+			originalHash: hash,
+			replacementHash: '',
+			nonce: original.nonce,
+			original: originalFees,
+			replacement: fees,
+			mined: null,
+			minedHash: null,
+			receipt: null,
+		};
+
+		if (this.simulation) {
+			await this.sendTransaction(request);
+			return result;
+		}
+
+		// The original may have been sent outside the policy, so the replacement is checked
+		// like a new transaction. Its spends are not recorded: only one of the two can be mined.
+		if (this.spendPolicy) {
+			await this.enforceSpendPolicy(request);
+		}
+		const replacement = await (await this.getSigner()).sendTransaction(request);
+		const mined = await this.waitForTransaction(replacement, options.confirmations);
+
+		return {
+			...result,
+			replacementHash: replacement.hash,
+			mined: !mined.replaced ? 'replacement' : mined.minedHash === hash ? 'original' : 'other',
+			minedHash: mined.minedHash,
+			receipt: mined.receipt,
+		};
+	}
+
+	/**
+	 * Simulate a transaction with eth_call and eth_estimateGas without signing it
+	 */
+	async simulateTransaction(
+		request: ethers.TransactionRequest,
+		blockTag: ethers.BlockTag = 'latest'
+	): Promise<SimulationResult> {
+		const from = await this.getSenderAddress();
+		const to = request.to ? normalizeAddress(request.to as string) : null;
+		const value = request.value ? BigInt(request.value) : BigInt(0);
+		const data = (request.data as string | undefined) || '0x';
+		const tx: ethers.TransactionRequest = { ...request, from, to, value, data };
+
+		let returnData: string | null = null;
+		let revertReason: string | null = null;
+		try {
+			returnData = await this.provider.call({ ...tx, blockTag });
+		} catch (error) {
+			revertReason = getRevertReason(error);
+		}
+
+		let gasEstimate: bigint | null = null;
+		if (revertReason === null) {
+			// eth_estimateGas at a block tag, which provider.estimateGas does not support
+			const estimate = await this.provider.send('eth_estimateGas', [
+				this.provider.getRpcTransaction(tx),
+				toRpcBlockTag(blockTag)
+			]);
+			gasEstimate = BigInt(estimate);
+		}
+
+		// The max fee is the upper bound of what a type-2 transaction pays
+		const requestPrice = request.gasPrice ?? request.maxFeePerGas;
+		const gasPrice = requestPrice
+			? BigInt(requestPrice)
+			: (await this.provider.getFeeData()).gasPrice ?? BigInt(0);
+		const gasCost = gasEstimate === null ? null : gasEstimate * gasPrice;
+		const transfer = to && revertReason === null
+			? await this.resolveTokenTransfer(to, from, data)
+			: null;
+
+		// Reverted calls move nothing
+		const derivable = revertReason !== null || canDeriveBalanceDeltas(data, transfer);
+
+		return {
+			success: revertReason === null,
+			requiresApproval: false,
+			revertReason,
+			blockTag: String(blockTag),
+			from: hexToRonin(from),
+			to: to ? hexToRonin(to) : null,
+			value: weiToRon(value),
+			data,
+			gasEstimate: gasEstimate?.toString() ?? null,
+			gasPrice: ethers.formatUnits(gasPrice, 'gwei'),
+			gasCost: gasCost === null ? null : weiToRon(gasCost),
+			returnData,
+			balanceDeltas: revertReason !== null
+				? []
+				: derivable ? computeBalanceDeltas({ from, to, value, gasCost: gasCost ?? BigInt(0), transfer }) : null,
+			balanceDeltasDerivable: derivable,
+		};
+	}
+
+	/**
+	 * Resolve the token movement of a transfer call, telling ERC20 tokens from NFTs by decimals()
+	 */
+	private async resolveTokenTransfer(
+		token: string,
+		sender: string,
+		data: string
+	): Promise<TokenTransfer | null> {
+		const decoded = decodeTransferCall(data, sender);
+		if (!decoded) {
+			return null;
+		}
+
+		const contract = new ethers.Contract(token, ERC20_ABI, this.provider);
+		const [decimals, symbol] = await Promise.all([
+			contract.decimals().then(Number).catch(() => null),
+			contract.symbol().catch(() => null),
+		]);
+
+		return { token, ...decoded, symbol, decimals };
 	}
 
 	/**
@@ -158,27 +701,26 @@ export class RoninClient {
 	 */
 	async transferRon(
 		to: string,
-		amount: string
+		amount: string,
+		overrides: TransactionOverrides = {}
 	): Promise<TransactionResult> {
-		const signer = this.getSigner();
 		const toAddress = normalizeAddress(to);
 		const value = ronToWei(amount);
 
-		const tx = await signer.sendTransaction({
+		const { hash, from, receipt } = await this.sendTransaction({
 			to: toAddress,
 			value,
-		});
-
-		const receipt = await tx.wait();
+		}, overrides);
 
 		return {
-			hash: tx.hash,
+			hash,
 			blockNumber: receipt?.blockNumber,
 			blockHash: receipt?.blockHash,
-			from: tx.from,
-			to: tx.to || toAddress,
+			from,
+			to: toAddress,
 			value: amount,
 			gasUsed: receipt?.gasUsed?.toString(),
+			effectiveGasPrice: receipt?.gasPrice?.toString(),
 			status: receipt?.status === 1,
 		};
 	}
@@ -190,13 +732,13 @@ export class RoninClient {
 		tokenAddress: string,
 		to: string,
 		amount: string,
-		decimals?: number
+		decimals?: number,
+		overrides: TransactionOverrides = {}
 	): Promise<TransactionResult> {
-		const signer = this.getSigner();
 		const contract = new ethers.Contract(
 			normalizeAddress(tokenAddress),
 			ERC20_ABI,
-			signer
+			this.provider
 		);
 
 		// Get decimals if not provided
@@ -204,17 +746,20 @@ export class RoninClient {
 		const parsedAmount = parseUnits(amount, tokenDecimals);
 		const toAddress = normalizeAddress(to);
 
-		const tx = await contract.transfer(toAddress, parsedAmount);
-		const receipt = await tx.wait();
+		const { hash, from, receipt } = await this.sendTransaction({
+			to: normalizeAddress(tokenAddress),
+			data: contract.interface.encodeFunctionData('transfer', [toAddress, parsedAmount]),
+		}, overrides);
 
 		return {
-			hash: tx.hash,
+			hash,
 			blockNumber: receipt?.blockNumber,
 			blockHash: receipt?.blockHash,
-			from: await signer.getAddress(),
+			from,
 			to: toAddress,
 			value: amount,
 			gasUsed: receipt?.gasUsed?.toString(),
+			effectiveGasPrice: receipt?.gasPrice?.toString(),
 			status: receipt?.status === 1,
 		};
 	}
@@ -242,33 +787,125 @@ export class RoninClient {
 	async transferNft(
 		contractAddress: string,
 		to: string,
-		tokenId: string
+		tokenId: string,
+		overrides: TransactionOverrides = {}
 	): Promise<TransactionResult> {
-		const signer = this.getSigner();
-		const contract = new ethers.Contract(
-			normalizeAddress(contractAddress),
-			ERC721_ABI,
-			signer
-		);
-
-		const from = await signer.getAddress();
+		const iface = new ethers.Interface(ERC721_ABI);
+		const from = await this.getSenderAddress();
 		const toAddress = normalizeAddress(to);
 
-		const tx = await contract.transferFrom(from, toAddress, tokenId);
-		const receipt = await tx.wait();
+		const { hash, receipt } = await this.sendTransaction({
+			to: normalizeAddress(contractAddress),
+			data: iface.encodeFunctionData('transferFrom', [from, toAddress, tokenId]),
+		}, overrides);
 
 		return {
-			hash: tx.hash,
+			hash,
 			blockNumber: receipt?.blockNumber,
 			blockHash: receipt?.blockHash,
 			from,
 			to: toAddress,
 			value: tokenId,
 			gasUsed: receipt?.gasUsed?.toString(),
+			effectiveGasPrice: receipt?.gasPrice?.toString(),
 			status: receipt?.status === 1,
 		};
 	}
 
+	/**
+	 * Transfer RON or an ERC20 token to many recipients through the disperse contract
+	 * Balance and allowance are checked for the whole batch before anything is sent. Recipients
+	 * are sent in chunks; once a chunk fails, the remaining ones are skipped.
+	 */
+	async batchTransfer(
+		tokenAddress: string | null,
+		recipients: BatchRecipient[],
+		options: {
+			disperseAddress?: string;
+			batchSize?: number;
+			/** Fee options of every transaction in the batch */
+			fees?: FeeOptions;
+		} = {}
+	): Promise<BatchTransferResult[]> {
+		const disperse = options.disperseAddress
+			? normalizeAddress(options.disperseAddress)
+			: getContracts(this.getNetworkName()).DISPERSE;
+		if (disperse === ethers.ZeroAddress) {
+			throw new Error('No disperse contract configured for this network. Set Disperse Contract to a deployed Disperse contract.');
+		}
+
+		const sender = await this.getSenderAddress();
+		const total = recipients.reduce((sum, recipient) => sum + recipient.amountRaw, BigInt(0));
+		const token = tokenAddress
+			? new ethers.Contract(normalizeAddress(tokenAddress), ERC20_ABI, this.provider)
+			: null;
+
+		if (token) {
+			const [balance, allowance, decimals, symbol] = await Promise.all([
+				token.balanceOf(sender) as Promise<bigint>,
+				token.allowance(sender, disperse) as Promise<bigint>,
+				token.decimals(),
+				token.symbol(),
+			]);
+			if (balance < total) {
+				throw new Error(
+					`Insufficient ${symbol} balance: batch needs ${formatUnits(total, Number(decimals))}, ` +
+					`wallet has ${formatUnits(balance, Number(decimals))}`
+				);
+			}
+			if (allowance < total) {
+				await this.sendTransaction({
+					to: await token.getAddress(),
+					data: token.interface.encodeFunctionData('approve', [disperse, total]),
+				}, options.fees);
+			}
+		} else {
+			const balance = await this.provider.getBalance(sender);
+			if (balance < total) {
+				throw new Error(`Insufficient RON balance: batch needs ${weiToRon(total)} RON, wallet has ${weiToRon(balance)} RON`);
+			}
+		}
+
+		const iface = new ethers.Interface(DISPERSE_ABI);
+		const results: BatchTransferResult[] = [];
+		let failed = false;
+
+		for (const [batch, batchRecipients] of chunk(recipients, options.batchSize ?? 100).entries()) {
+			const toResult = (status: BatchTransferResult['status'], txHash: string | null, error?: string) =>
+				batchRecipients.map((recipient): BatchTransferResult => ({
+					recipient: hexToRonin(recipient.address),
+					amount: recipient.amount,
+					status,
+					batch,
+					txHash,
+					...(error ? { error } : {}),
+				}));
+
+			if (failed) {
+				results.push(...toResult('skipped', null));
+				continue;
+			}
+
+			const addresses = batchRecipients.map((recipient) => recipient.address);
+			const values = batchRecipients.map((recipient) => recipient.amountRaw);
+			try {
+				const { hash } = await this.sendTransaction({
+					to: disperse,
+					data: token
+						? iface.encodeFunctionData('disperseToken', [await token.getAddress(), addresses, values])
+						: iface.encodeFunctionData('disperseEther', [addresses, values]),
+					value: token ? undefined : values.reduce((sum, value) => sum + value, BigInt(0)),
+				}, options.fees);
+				results.push(...toResult('sent', hash));
+			} catch (error) {
+				failed = true;
+				results.push(...toResult('failed', null, (error as Error).message));
+			}
+		}
+
+		return results;
+	}
+
 	/**
 	 * Get latest block
 	 */
@@ -303,13 +940,34 @@ export class RoninClient {
 	async getGasPrice(): Promise<{
 		wei: string;
 		gwei: string;
+		eip1559: boolean;
+		baseFeeGwei: string | null;
+		estimates: Record<FeeSpeed, { maxFeePerGasGwei: string; maxPriorityFeePerGasGwei: string }> | null;
 	}> {
-		const feeData = await this.provider.getFeeData();
+		const [feeData, latest] = await Promise.all([
+			this.provider.getFeeData(),
+			this.provider.getBlock('latest'),
+		]);
 		const gasPrice = feeData.gasPrice || BigInt(0);
+		const baseFee = latest?.baseFeePerGas ?? null;
+
+		let estimates = null;
+		if (baseFee !== null) {
+			const fees = await this.estimateFees();
+			estimates = Object.fromEntries(
+				Object.entries(fees).map(([speed, estimate]) => [speed, {
+					maxFeePerGasGwei: ethers.formatUnits(estimate.maxFeePerGas, 'gwei'),
+					maxPriorityFeePerGasGwei: ethers.formatUnits(estimate.maxPriorityFeePerGas, 'gwei'),
+				}])
+			) as Record<FeeSpeed, { maxFeePerGasGwei: string; maxPriorityFeePerGasGwei: string }>;
+		}
 		
 		return {
 			wei: gasPrice.toString(),
 			gwei: ethers.formatUnits(gasPrice, 'gwei'),
+			eip1559: baseFee !== null,
+			baseFeeGwei: baseFee !== null ? ethers.formatUnits(baseFee, 'gwei') : null,
+			estimates,
 		};
 	}
 
@@ -339,6 +997,49 @@ export class RoninClient {
 		return contract[methodName](...params);
 	}
 
+	/**
+	 * Get the network name used for contract and token lookups
+	 * Custom networks use the mainnet tables.
+	 */
+	getNetworkName(): 'mainnet' | 'testnet' {
+		return this.network === 'testnet' ? 'testnet' : 'mainnet';
+	}
+
+	/**
+	 * Get the Multicall3 contract address of the network
+	 */
+	getMulticallAddress(): string {
+		return getContracts(this.getNetworkName()).MULTICALL3;
+	}
+
+	/**
+	 * Read many contract calls through Multicall3
+	 * Calls are sent in aggregate3 batches of MULTICALL_BATCH_SIZE, so thousands of
+	 * reads take a handful of RPC requests. Failed calls return an error instead of a
+	 * value unless allowFailure is false, in which case the batch throws.
+	 */
+	async multicall(
+		calls: MulticallCall[],
+		options: { batchSize?: number; blockTag?: ethers.BlockTag } = {}
+	): Promise<MulticallResult[]> {
+		const multicall = new ethers.Contract(
+			this.getMulticallAddress(),
+			MULTICALL3_ABI,
+			this.provider
+		);
+
+		const batches = chunk(calls, options.batchSize ?? MULTICALL_BATCH_SIZE);
+		const batchResults = await Promise.all(batches.map(async (batch) => {
+			const returnData = await multicall.aggregate3.staticCall(
+				encodeMulticall(batch),
+				{ blockTag: options.blockTag ?? 'latest' }
+			) as Array<[boolean, string]>;
+			return decodeMulticall(batch, returnData.map(([success, data]) => [success, data] as const));
+		}));
+
+		return batchResults.flat();
+	}
+
 	/**
 	 * Write contract method
 	 */
@@ -347,31 +1048,26 @@ export class RoninClient {
 		abi: string[],
 		methodName: string,
 		params: unknown[] = [],
-		value?: string
+		value?: string,
+		overrides: TransactionOverrides = {}
 	): Promise<TransactionResult> {
-		const signer = this.getSigner();
-		const contract = new ethers.Contract(
-			normalizeAddress(contractAddress),
-			abi,
-			signer
-		);
-
-		const options: { value?: bigint } = {};
-		if (value) {
-			options.value = ronToWei(value);
-		}
+		const iface = new ethers.Interface(abi);
 
-		const tx = await contract[methodName](...params, options);
-		const receipt = await tx.wait();
+		const { hash, from, receipt } = await this.sendTransaction({
+			to: normalizeAddress(contractAddress),
+			data: iface.encodeFunctionData(methodName, params),
+			value: value ? ronToWei(value) : undefined,
+		}, overrides);
 
 		return {
-			hash: tx.hash,
+			hash,
 			blockNumber: receipt?.blockNumber,
 			blockHash: receipt?.blockHash,
-			from: await signer.getAddress(),
+			from,
 			to: contractAddress,
 			value: value || '0',
 			gasUsed: receipt?.gasUsed?.toString(),
+			effectiveGasPrice: receipt?.gasPrice?.toString(),
 			status: receipt?.status === 1,
 		};
 	}
@@ -400,7 +1096,7 @@ export class RoninClient {
 	 * Sign message
 	 */
 	async signMessage(message: string): Promise<string> {
-		const signer = this.getSigner();
+		const signer = await this.getSigner();
 		return signer.signMessage(message);
 	}
 
@@ -416,16 +1112,56 @@ export class RoninClient {
  * Create Ronin client from n8n credentials
  */
 export async function createRoninClient(
-	context: IExecuteFunctions | ILoadOptionsFunctions,
+	context: IExecuteFunctions | ILoadOptionsFunctions | ITriggerFunctions,
+	execution: ClientExecutionOptions = {},
 	credentialsName: string = 'roninNetwork'
 ): Promise<RoninClient> {
 	const credentials = await context.getCredentials(credentialsName);
+	const network = credentials.network as 'mainnet' | 'testnet' | 'custom';
+
+	const signerConfig: SignerConfig = {
+		signerType: (credentials.signerType as SignerType | undefined) ?? 'privateKey',
+		privateKey: credentials.privateKey as string | undefined,
+		keystore: credentials.keystore as string | undefined,
+		keystorePassword: credentials.keystorePassword as string | undefined,
+		mnemonic: credentials.mnemonic as string | undefined,
+		derivationPath: credentials.derivationPath as string | undefined,
+		accountIndex: credentials.accountIndex as number | undefined,
+		remoteSignerUrl: credentials.remoteSignerUrl as string | undefined,
+		remoteSignerAddress: credentials.remoteSignerAddress as string | undefined,
+		remoteSignerToken: credentials.remoteSignerToken as string | undefined,
+	};
+	const chainId = (NETWORKS[network] ?? NETWORKS.mainnet).chainId;
+
+	const { accountIndex } = execution;
+	if (accountIndex !== undefined) {
+		if (signerConfig.signerType !== 'mnemonic') {
+			throw new Error('Account Index requires a Ronin Network credential with the Mnemonic signer type');
+		}
+		signerConfig.accountIndex = accountIndex;
+	}
+	
+	// The rolling spend window is kept in the workflow static data, so it survives executions
+	const policy = parseSpendPolicy(credentials.spendPolicy, network);
+	let spendPolicy: SpendPolicySession | undefined;
+	if (policy) {
+		const staticData = 'getWorkflowStaticData' in context ? context.getWorkflowStaticData('global') : {};
+		staticData.spendLedger = staticData.spendLedger ?? {};
+		spendPolicy = {
+			policy,
+			ledger: staticData.spendLedger as SpendLedger,
+			confirmed: execution.confirmed ?? false,
+		};
+	}
 	
 	const options: RoninClientOptions = {
-		network: credentials.network as 'mainnet' | 'testnet' | 'custom',
+		network,
 		rpcUrl: credentials.rpcUrl as string | undefined,
-		privateKey: credentials.privateKey as string | undefined,
+		// Created on first use, so reads never decrypt a keystore or reach a remote signer
+		loadSigner: () => createSigner(signerConfig, chainId),
 		walletAddress: credentials.walletAddress as string | undefined,
+		simulation: execution.simulation,
+		spendPolicy,
 	};
 
 	return new RoninClient(options);
@@ -0,0 +1,222 @@
+/**
+ * Ronin Signers
+ * Sign transactions, messages and orders with a raw key, an encrypted keystore,
+ * a mnemonic or a remote JSON-RPC signer
+ */
+
+import { ethers } from 'ethers';
+import { buildDerivationPath, normalizeAddress } from '../utils/addressUtils';
+
+/**
+ * Where the signing key is kept
+ */
+export type SignerType = 'privateKey' | 'keystore' | 'mnemonic' | 'remote';
+
+/**
+ * Default BIP-44 derivation path of Ronin (and Ethereum) accounts, without the account index
+ */
+export const DEFAULT_DERIVATION_PATH = "m/44'/60'/0'/0";
+
+/**
+ * Signer settings, as stored on the Ronin Network credential
+ */
+export interface SignerConfig {
+	signerType?: SignerType;
+	privateKey?: string;
+	/** Encrypted JSON keystore (V3) */
+	keystore?: string;
+	keystorePassword?: string;
+	mnemonic?: string;
+	/** BIP-32 path the account index is appended to, or a template with {index} */
+	derivationPath?: string;
+	accountIndex?: number;
+	/** JSON-RPC endpoint implementing eth_signTransaction */
+	remoteSignerUrl?: string;
+	/** Account of the remote signer, the first of eth_accounts when empty */
+	remoteSignerAddress?: string;
+	/** Bearer token sent to the remote signer */
+	remoteSignerToken?: string;
+}
+
+/**
+ * Signer with a known address
+ */
+export type RoninSigner = ethers.Signer & { readonly address: string };
+
+/**
+ * Signer backed by a remote JSON-RPC signing service
+ * Keys never leave the service: transactions are populated locally, signed with
+ * eth_signTransaction and broadcast through the node provider.
+ */
+export class RemoteSigner extends ethers.AbstractSigner {
+	readonly address: string;
+	private transport: ethers.JsonRpcProvider;
+
+	constructor(address: string, transport: ethers.JsonRpcProvider, provider: ethers.Provider | null = null) {
+		super(provider);
+		this.address = ethers.getAddress(address);
+		this.transport = transport;
+	}
+
+	/**
+	 * Connect to a remote signer
+	 * @param url Signer JSON-RPC endpoint
+	 * @param options Chain ID, account (the first of eth_accounts when empty) and bearer token
+	 * @returns Signer, not connected to a provider
+	 */
+	static async connectTo(
+		url: string,
+		options: { chainId: number; address?: string; token?: string }
+	): Promise<RemoteSigner> {
+		const request = new ethers.FetchRequest(url);
+		if (options.token) {
+			request.setHeader('Authorization', `Bearer ${options.token}`);
+		}
+		// Signing services rarely implement eth_chainId or batches, so neither is used
+		const transport = new ethers.JsonRpcProvider(request, ethers.Network.from(options.chainId), {
+			staticNetwork: true,
+			batchMaxCount: 1,
+		});
+
+		let address = options.address;
+		if (!address) {
+			const accounts = await transport.send('eth_accounts', []) as string[];
+			if (!accounts || accounts.length === 0) {
+				throw new Error('Remote signer has no accounts');
+			}
+			address = accounts[0];
+		}
+
+		return new RemoteSigner(address, transport);
+	}
+
+	async getAddress(): Promise<string> {
+		return this.address;
+	}
+
+	connect(provider: ethers.Provider | null): RemoteSigner {
+		return new RemoteSigner(this.address, this.transport, provider);
+	}
+
+	async signTransaction(tx: ethers.TransactionRequest): Promise<string> {
+		const resolved = await ethers.resolveProperties({
+			...tx,
+			from: this.address,
+			to: tx.to ? ethers.resolveAddress(tx.to, this.provider) : null,
+		});
+		const result = await this.transport.send('eth_signTransaction', [this.transport.getRpcTransaction(resolved)]);
+
+		// Geth-style signers return { raw, tx }, others the raw transaction
+		const raw = typeof result === 'string' ? result : (result as { raw?: string })?.raw;
+		if (!raw || !ethers.isHexString(raw)) {
+			throw new Error('Remote signer returned no signed transaction');
+		}
+		const signed = ethers.Transaction.from(raw);
+		if (signed.from?.toLowerCase() !== this.address.toLowerCase()) {
+			throw new Error(`Remote signer signed for ${signed.from} instead of ${this.address}`);
+		}
+		return raw;
+	}
+
+	async signMessage(message: string | Uint8Array): Promise<string> {
+		const data = typeof message === 'string' ? ethers.toUtf8Bytes(message) : message;
+		return this.transport.send('eth_sign', [this.address, ethers.hexlify(data)]);
+	}
+
+	async signTypedData(
+		domain: ethers.TypedDataDomain,
+		types: Record<string, ethers.TypedDataField[]>,
+		value: Record<string, unknown>
+	): Promise<string> {
+		const payload = ethers.TypedDataEncoder.getPayload(domain, types, value);
+		return this.transport.send('eth_signTypedData_v4', [this.address, JSON.stringify(payload)]);
+	}
+}
+
+// Decrypting a keystore takes seconds, so wallets are kept for the life of the process
+const keystoreWallets = new Map<string, Promise<ethers.Wallet>>();
+
+/**
+ * Create the signer described by a credential
+ * @param config Signer settings
+ * @param chainId Chain ID transactions are signed for
+ * @returns Signer (not connected to a provider), or undefined if no key is configured
+ */
+export async function createSigner(config: SignerConfig, chainId: number): Promise<RoninSigner | undefined> {
+	switch (config.signerType ?? 'privateKey') {
+		case 'privateKey':
+			return config.privateKey ? new ethers.Wallet(config.privateKey) : undefined;
+
+		case 'keystore': {
+			if (!config.keystore) {
+				throw new Error('Keystore signer requires a keystore JSON');
+			}
+			const key = ethers.id(`${config.keystore}\n${config.keystorePassword ?? ''}`);
+			let wallet = keystoreWallets.get(key);
+			if (!wallet) {
+				wallet = ethers.Wallet.fromEncryptedJson(config.keystore, config.keystorePassword ?? '')
+					.then((decrypted) => new ethers.Wallet(decrypted.privateKey));
+				keystoreWallets.set(key, wallet);
+				wallet.catch(() => keystoreWallets.delete(key));
+			}
+			try {
+				return await wallet;
+			} catch {
+				throw new Error('Unable to decrypt keystore: wrong password or invalid keystore JSON');
+			}
+		}
+
+		case 'mnemonic': {
+			if (!config.mnemonic) {
+				throw new Error('Mnemonic signer requires a mnemonic phrase');
+			}
+			return deriveMnemonicWallet(config.mnemonic, config.derivationPath, config.accountIndex);
+		}
+
+		case 'remote': {
+			if (!config.remoteSignerUrl) {
+				throw new Error('Remote signer requires a signer URL');
+			}
+			return RemoteSigner.connectTo(config.remoteSignerUrl, {
+				chainId,
+				address: config.remoteSignerAddress ? normalizeAddress(config.remoteSignerAddress) : undefined,
+				token: config.remoteSignerToken || undefined,
+			});
+		}
+
+		default:
+			throw new Error(`Unknown signer type: ${config.signerType}`);
+	}
+}
+
+/**
+ * Parse the optional Account Index node option
+ * @param input Field value, empty to use the credential's account index
+ * @returns Account index, or undefined
+ */
+export function parseAccountIndex(input: string | number | undefined): number | undefined {
+	if (input === undefined || String(input).trim() === '') {
+		return undefined;
+	}
+	const index = Number(input);
+	if (!Number.isSafeInteger(index) || index < 0) {
+		throw new Error(`Invalid account index: ${input}`);
+	}
+	return index;
+}
+
+/**
+ * Derive the wallet of a mnemonic account
+ * @param mnemonic BIP-39 phrase
+ * @param derivationPath Path the account index is appended to, or a template with {index}
+ * @param accountIndex Account index
+ * @returns HD wallet
+ */
+export function deriveMnemonicWallet(
+	mnemonic: string,
+	derivationPath: string = DEFAULT_DERIVATION_PATH,
+	accountIndex: number = 0
+): ethers.HDNodeWallet {
+	const path = buildDerivationPath(derivationPath || DEFAULT_DERIVATION_PATH, accountIndex);
+	return ethers.HDNodeWallet.fromPhrase(mnemonic.trim().replace(/\s+/g, ' '), undefined, path);
+}
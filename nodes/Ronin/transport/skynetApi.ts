@@ -5,7 +5,7 @@
 
 import axios, { AxiosInstance, AxiosRequestConfig } from 'axios';
 import { GraphQLClient, gql } from 'graphql-request';
-import { IExecuteFunctions, ILoadOptionsFunctions } from 'n8n-workflow';
+import { IExecuteFunctions, ILoadOptionsFunctions, ITriggerFunctions } from 'n8n-workflow';
 import { API_ENDPOINTS } from '../constants/networks';
 import { normalizeAddress, hexToRonin } from '../utils/addressUtils';
 
@@ -478,7 +478,7 @@ export class SkynetClient {
  * Create Skynet client from n8n credentials
  */
 export async function createSkynetClient(
-	context: IExecuteFunctions | ILoadOptionsFunctions,
+	context: IExecuteFunctions | ILoadOptionsFunctions | ITriggerFunctions,
 	credentialsName: string = 'roninApi'
 ): Promise<SkynetClient> {
 	const credentials = await context.getCredentials(credentialsName);
@@ -0,0 +1,182 @@
+/**
+ * Ronin WebSocket Subscriber
+ * eth_subscribe client with automatic reconnects, used to wake up the trigger
+ */
+
+import WebSocket from 'ws';
+
+/**
+ * Subscription types supported by the subscriber
+ */
+export type SubscriptionType = 'newHeads' | 'logs' | 'newPendingTransactions';
+
+/**
+ * Log filter for a logs subscription
+ */
+export interface SubscriptionLogFilter {
+	address?: string | string[];
+	topics?: Array<string | string[] | null>;
+}
+
+/**
+ * Subscriber options
+ */
+export interface WsSubscriberOptions {
+	url: string;
+	/** Subscription type, defaults to logs when a log filter is given and newHeads otherwise */
+	type?: SubscriptionType;
+	/** Subscribe to logs matching this filter instead of new block headers */
+	logFilter?: SubscriptionLogFilter;
+	/** Called for every subscription notification */
+	onNotification: (type: SubscriptionType, result: unknown) => void;
+	/** Called after every (re)connect once the subscription is active */
+	onConnect?: () => void;
+	onError?: (error: Error) => void;
+	/** Initial reconnect delay in milliseconds */
+	minReconnectDelay?: number;
+	/** Maximum reconnect delay in milliseconds */
+	maxReconnectDelay?: number;
+}
+
+/**
+ * Get the delay before a reconnect attempt, doubling with each failed attempt
+ * @param attempt Number of reconnects attempted since the last successful connection
+ * @param minDelay Initial delay in milliseconds
+ * @param maxDelay Maximum delay in milliseconds
+ * @returns Delay in milliseconds
+ */
+export function getReconnectDelay(attempt: number, minDelay: number, maxDelay: number): number {
+	return Math.min(maxDelay, minDelay * 2 ** attempt);
+}
+
+/**
+ * WebSocket subscriber
+ * Notifications are only wake-up signals; consumers re-read the chain from their
+ * own checkpoint, so nothing is lost while the connection is down.
+ */
+export class WsSubscriber {
+	private options: WsSubscriberOptions;
+	private socket?: WebSocket;
+	private closed = false;
+	private reconnectAttempts = 0;
+	private reconnectTimer?: NodeJS.Timeout;
+	private subscriptionId?: string;
+	private subscribeRequestId = 0;
+
+	constructor(options: WsSubscriberOptions) {
+		this.options = options;
+	}
+
+	/**
+	 * Subscription type in use
+	 */
+	get type(): SubscriptionType {
+		return this.options.type ?? (this.options.logFilter ? 'logs' : 'newHeads');
+	}
+
+	/**
+	 * Whether the subscription is currently active
+	 */
+	get isSubscribed(): boolean {
+		return this.subscriptionId !== undefined;
+	}
+
+	/**
+	 * Open the connection and subscribe
+	 */
+	start(): void {
+		this.closed = false;
+		this.connect();
+	}
+
+	/**
+	 * Close the connection and stop reconnecting
+	 */
+	close(): void {
+		this.closed = true;
+		if (this.reconnectTimer) {
+			clearTimeout(this.reconnectTimer);
+			this.reconnectTimer = undefined;
+		}
+		this.socket?.removeAllListeners();
+		this.socket?.on('error', () => undefined);
+		this.socket?.terminate();
+		this.socket = undefined;
+		this.subscriptionId = undefined;
+	}
+
+	private connect(): void {
+		const socket = new WebSocket(this.options.url);
+		this.socket = socket;
+
+		socket.on('open', () => {
+			const params = this.type === 'logs' ? ['logs', this.options.logFilter ?? {}] : [this.type];
+			this.subscribeRequestId += 1;
+			socket.send(JSON.stringify({
+				jsonrpc: '2.0',
+				id: this.subscribeRequestId,
+				method: 'eth_subscribe',
+				params,
+			}));
+		});
+
+		socket.on('message', (data) => this.handleMessage(data.toString()));
+
+		// An error is always followed by a close event
+		socket.on('error', (error) => this.options.onError?.(error));
+
+		socket.on('close', () => {
+			this.subscriptionId = undefined;
+			this.scheduleReconnect();
+		});
+	}
+
+	private handleMessage(raw: string): void {
+		let message: {
+			id?: number;
+			result?: unknown;
+			error?: { message?: string };
+			method?: string;
+			params?: { subscription?: string; result?: unknown };
+		};
+		try {
+			message = JSON.parse(raw);
+		} catch {
+			return;
+		}
+
+		if (message.id === this.subscribeRequestId) {
+			if (message.error || typeof message.result !== 'string') {
+				this.options.onError?.(new Error(`eth_subscribe failed: ${message.error?.message ?? 'no subscription id'}`));
+				this.socket?.close();
+				return;
+			}
+
+			this.subscriptionId = message.result;
+			this.reconnectAttempts = 0;
+			this.options.onConnect?.();
+			return;
+		}
+
+		if (message.method === 'eth_subscription' && message.params?.subscription === this.subscriptionId) {
+			this.options.onNotification(this.type, message.params?.result);
+		}
+	}
+
+	private scheduleReconnect(): void {
+		if (this.closed) {
+			return;
+		}
+
+		const delay = getReconnectDelay(
+			this.reconnectAttempts,
+			this.options.minReconnectDelay ?? 1000,
+			this.options.maxReconnectDelay ?? 30000
+		);
+		this.reconnectAttempts += 1;
+		this.reconnectTimer = setTimeout(() => {
+			this.reconnectTimer = undefined;
+			this.connect();
+		}, delay);
+	}
+}
@@ -0,0 +1,106 @@
+/**
+ * ABI Utilities
+ * Parse user-supplied ABIs and decode transaction calldata
+ */
+
+import { ethers } from 'ethers';
+
+/**
+ * Decoded function call
+ */
+export interface DecodedCalldata {
+	function: string | undefined;
+	args: string[];
+	selector: string | undefined;
+}
+
+/**
+ * Build an interface from an ABI given as JSON text or an array
+ * @param abiInput ABI JSON string or parsed ABI
+ * @returns Contract interface
+ */
+export function parseAbi(abiInput: string | object): ethers.Interface {
+	const abi = typeof abiInput === 'string' ? JSON.parse(abiInput) : abiInput;
+	return new ethers.Interface(abi);
+}
+
+/**
+ * Decode calldata with a user-supplied ABI
+ * @param abiInput ABI JSON string or parsed ABI
+ * @param data Transaction input data
+ * @returns Decoded call, or undefined if there is no data or it does not match the ABI
+ */
+export function decodeCalldata(abiInput: string | object, data: string): DecodedCalldata | undefined {
+	if (!abiInput || !data || data === '0x') {
+		return undefined;
+	}
+
+	try {
+		const decoded = parseAbi(abiInput).parseTransaction({ data });
+		if (!decoded) {
+			return undefined;
+		}
+
+		return {
+			function: decoded.name,
+			args: decoded.args.map((arg) => arg.toString()),
+			selector: decoded.selector,
+		};
+	} catch {
+		return undefined;
+	}
+}
+
+/**
+ * Get the function selector of calldata
+ * @param data Transaction input data
+ * @returns 4-byte selector (lowercase), or null for plain transfers
+ */
+export function getSelector(data: string): string | null {
+	return data && data.length >= 10 ? data.slice(0, 10).toLowerCase() : null;
+}
+
+/**
+ * Normalize a method selector or function signature to a 4-byte selector
+ * @param input Selector (0xa9059cbb) or signature (transfer(address,uint256))
+ * @returns 4-byte selector (lowercase)
+ */
+export function toSelector(input: string): string {
+	const value = input.trim();
+
+	if (/^0x[0-9a-fA-F]{8}$/.test(value)) {
+		return value.toLowerCase();
+	}
+
+	if (value.includes('(')) {
+		return ethers.FunctionFragment.from(value.replace(/^function\s+/, '')).selector;
+	}
+
+	throw new Error(`Invalid method selector: ${input}`);
+}
+
+/**
+ * Parse a list of method selectors or function signatures
+ * Entries are separated by newlines, or by commas outside of parentheses so
+ * signatures keep their argument lists.
+ * @param input List such as "0xa9059cbb, transfer(address,uint256)"
+ * @returns 4-byte selectors (lowercase)
+ */
+export function parseSelectorList(input: string): string[] {
+	const entries: string[] = [];
+	let depth = 0;
+	let current = '';
+	for (const char of input ?? '') {
+		if ((char === ',' && depth === 0) || char === '\n') {
+			entries.push(current);
+			current = '';
+			continue;
+		}
+		if (char === '(') depth++;
+		if (char === ')') depth = Math.max(0, depth - 1);
+		current += char;
+	}
+	entries.push(current);
+
+	return entries.filter((entry) => entry.trim().length > 0).map(toSelector);
+}
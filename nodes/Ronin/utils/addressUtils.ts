@@ -125,6 +125,59 @@ export function addressesEqual(address1: string, address2: string): boolean {
 	}
 }
 
+/**
+ * Parse a list of addresses separated by commas, whitespace or newlines
+ * @param input Address list in any format
+ * @returns Unique checksummed 0x addresses
+ */
+export function parseAddressList(input: string | string[]): string[] {
+	const entries = Array.isArray(input) ? input : input.split(/[\s,;]+/);
+	const addresses = entries
+		.map((entry) => entry.trim())
+		.filter((entry) => entry.length > 0)
+		.map((entry) => normalizeAddress(entry));
+
+	return Array.from(new Set(addresses));
+}
+
+/**
+ * Transfer direction relative to a watched address
+ */
+export type TransferDirection = 'in' | 'out' | 'self';
+
+/**
+ * Match a transfer against watched addresses
+ * @param from Sender address
+ * @param to Recipient address (null for contract creation)
+ * @param watched Watched addresses (lowercase 0x)
+ * @returns One match per watched address involved in the transfer
+ */
+export function matchWatchedAddresses(
+	from: string,
+	to: string | null,
+	watched: Set<string>
+): Array<{ address: string; direction: TransferDirection }> {
+	const fromLower = from.toLowerCase();
+	const toLower = to?.toLowerCase();
+	const matches: Array<{ address: string; direction: TransferDirection }> = [];
+
+	if (fromLower === toLower) {
+		if (watched.has(fromLower)) {
+			matches.push({ address: fromLower, direction: 'self' });
+		}
+		return matches;
+	}
+
+	if (watched.has(fromLower)) {
+		matches.push({ address: fromLower, direction: 'out' });
+	}
+	if (toLower && watched.has(toLower)) {
+		matches.push({ address: toLower, direction: 'in' });
+	}
+
+	return matches;
+}
+
 /**
  * Format address for display
  * @param address Address in any format
@@ -187,6 +240,65 @@ export function deriveAddressFromPrivateKey(privateKey: string): {
 	};
 }
 
+/**
+ * Default BIP-44 path template of Ronin (and Ethereum) accounts
+ */
+export const DEFAULT_PATH_TEMPLATE = "m/44'/60'/0'/0/{index}";
+
+/**
+ * Build the derivation path of an account
+ * @param template Path with an {index} placeholder, or a base path the index is appended to
+ * @param index Account index
+ * @returns BIP-32 path (e.g., "m/44'/60'/0'/0/3")
+ */
+export function buildDerivationPath(template: string, index: number): string {
+	if (!Number.isSafeInteger(index) || index < 0 || index >= 0x80000000) {
+		throw new Error(`Invalid account index: ${index}`);
+	}
+	const path = (template || DEFAULT_PATH_TEMPLATE).trim();
+	return path.includes('{index}')
+		? path.replace(/\{index\}/g, String(index))
+		: `${path.replace(/\/+$/, '')}/${index}`;
+}
+
+/**
+ * Derive consecutive account addresses from a mnemonic
+ * @param mnemonic BIP-39 phrase
+ * @param count Number of addresses
+ * @param options Path template and first account index
+ * @returns Addresses in both formats with their index and path
+ */
+export function deriveAddressesFromMnemonic(
+	mnemonic: string,
+	count: number,
+	options: { pathTemplate?: string; startIndex?: number } = {}
+): Array<{
+	index: number;
+	path: string;
+	address: string;
+	roninAddress: string;
+}> {
+	if (!Number.isSafeInteger(count) || count < 1) {
+		throw new Error(`Invalid address count: ${count}`);
+	}
+
+	// The seed is computed once, then each account is derived from the root
+	const root = ethers.HDNodeWallet.fromPhrase(mnemonic.trim().replace(/\s+/g, ' '), undefined, 'm');
+	const startIndex = options.startIndex ?? 0;
+
+	return Array.from({ length: count }, (_, i) => {
+		const index = startIndex + i;
+		const path = buildDerivationPath(options.pathTemplate ?? DEFAULT_PATH_TEMPLATE, index);
+		const wallet = root.derivePath(path);
+		return {
+			index,
+			path,
+			address: wallet.address,
+			roninAddress: hexToRonin(wallet.address),
+		};
+	});
+}
+
 /**
  * Check if address is a contract (requires provider)
  * @param address Address to check
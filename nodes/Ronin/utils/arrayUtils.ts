@@ -0,0 +1,19 @@
+/**
+ * Array Utilities
+ * Generic helpers shared by the batching operations
+ */
+
+/**
+ * Split items into consecutive chunks
+ * @param items Items
+ * @param size Maximum items per chunk
+ * @returns Chunks
+ */
+export function chunk<T>(items: T[], size: number): T[][] {
+	const chunkSize = Math.max(1, Math.floor(size));
+	const chunks: T[][] = [];
+	for (let i = 0; i < items.length; i += chunkSize) {
+		chunks.push(items.slice(i, i + chunkSize));
+	}
+	return chunks;
+}
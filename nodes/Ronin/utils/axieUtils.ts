@@ -4,7 +4,7 @@
  */
 
 import { BREEDING_COSTS, MMR_TIERS, CLASS_ADVANTAGES, AxieClass } from '../constants/axieData';
-import { decodeGenes, calculateStats, calculatePurity, DecodedGenes, AxieStats } from './geneUtils';
+import { decodeGenes, calculateStats, calculatePurity, getDominantParts, DecodedGenes, AxieStats } from './geneUtils';
 
 /**
  * Axie data structure
@@ -332,3 +332,63 @@ export function parseAxieId(input: string): string {
 	
 	throw new Error(`Invalid Axie ID format: ${input}`);
 }
+
+/**
+ * Axie traits used to enrich and filter trigger events
+ */
+export interface AxieProfile {
+	class: string;
+	parts: Array<{ part: string; id: string; name?: string; class: string }>;
+	purity: number;
+	breedCount: number;
+	stats: AxieStats;
+}
+
+/**
+ * Trigger-side Axie filters
+ */
+export interface AxieFilters {
+	classes?: string[];
+	minPurity?: number;
+	maxBreedCount?: number;
+}
+
+/**
+ * Build an Axie profile from its genes
+ * @param geneHex Hex gene string (256-bit)
+ * @param breedCount Number of times the Axie has bred
+ * @returns Axie profile
+ */
+export function buildAxieProfile(geneHex: string, breedCount: number): AxieProfile {
+	const genes = decodeGenes(geneHex);
+	
+	return {
+		class: genes.class,
+		parts: getDominantParts(genes),
+		purity: calculatePurity(genes),
+		breedCount,
+		stats: calculateStats(genes),
+	};
+}
+
+/**
+ * Check whether an Axie profile passes the configured filters
+ * @param profile Axie profile
+ * @param filters Filters (empty values are ignored)
+ * @returns True if the Axie matches
+ */
+export function matchesAxieFilters(profile: AxieProfile, filters: AxieFilters): boolean {
+	if (filters.classes && filters.classes.length > 0 && !filters.classes.includes(profile.class.toLowerCase())) {
+		return false;
+	}
+	
+	if (filters.minPurity !== undefined && profile.purity < filters.minPurity) {
+		return false;
+	}
+	
+	if (filters.maxBreedCount !== undefined && profile.breedCount > filters.maxBreedCount) {
+		return false;
+	}
+	
+	return true;
+}
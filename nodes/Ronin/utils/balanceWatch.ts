@@ -0,0 +1,96 @@
+/**
+ * Balance Watch Utilities
+ * Compare polled balances with the previous observation to detect threshold crossings
+ */
+
+/**
+ * Reason a balance observation fires the trigger
+ */
+export type BalanceAlert =
+	| 'fellBelowLow'
+	| 'roseAboveLow'
+	| 'roseAboveHigh'
+	| 'fellBelowHigh'
+	| 'changed';
+
+/**
+ * Balance thresholds in the token's smallest unit
+ */
+export interface BalanceThresholds {
+	lowWatermark?: bigint;
+	highWatermark?: bigint;
+	/** Minimum relative change in percent (0 or unset to disable) */
+	changePercent?: number;
+}
+
+/**
+ * Balance state persisted in workflow static data, keyed by address and token
+ */
+export interface BalanceState {
+	balances?: Record<string, string>;
+}
+
+/**
+ * Build the static data key of a watched balance
+ * @param address Wallet address (0x)
+ * @param token Token address, or null for RON
+ * @returns Key
+ */
+export function getBalanceKey(address: string, token: string | null): string {
+	return `${address.toLowerCase()}:${token ? token.toLowerCase() : 'RON'}`;
+}
+
+/**
+ * Get the relative change between two balances
+ * @param previous Previous balance
+ * @param current Current balance
+ * @returns Change in percent, or null if the previous balance was zero
+ */
+export function getChangePercent(previous: bigint, current: bigint): number | null {
+	if (previous === BigInt(0)) {
+		return null;
+	}
+	// Basis points keep two decimals without converting large balances to floats
+	const basisPoints = ((current - previous) * BigInt(10000)) / previous;
+	return Number(basisPoints) / 100;
+}
+
+/**
+ * Evaluate a balance observation against the thresholds
+ * The first observation only establishes the baseline and never fires.
+ * @param previous Previous balance (undefined if never observed)
+ * @param current Current balance
+ * @param thresholds Configured thresholds
+ * @returns Alerts raised by the observation
+ */
+export function evaluateBalance(
+	previous: bigint | undefined,
+	current: bigint,
+	thresholds: BalanceThresholds
+): BalanceAlert[] {
+	if (previous === undefined || previous === current) {
+		return [];
+	}
+
+	const alerts: BalanceAlert[] = [];
+	const { lowWatermark, highWatermark, changePercent } = thresholds;
+
+	if (lowWatermark !== undefined) {
+		if (previous >= lowWatermark && current < lowWatermark) alerts.push('fellBelowLow');
+		if (previous < lowWatermark && current >= lowWatermark) alerts.push('roseAboveLow');
+	}
+
+	if (highWatermark !== undefined) {
+		if (previous <= highWatermark && current > highWatermark) alerts.push('roseAboveHigh');
+		if (previous > highWatermark && current <= highWatermark) alerts.push('fellBelowHigh');
+	}
+
+	if (changePercent && changePercent > 0) {
+		const change = getChangePercent(previous, current);
+		if (change === null || Math.abs(change) > changePercent) {
+			alerts.push('changed');
+		}
+	}
+
+	return alerts;
+}
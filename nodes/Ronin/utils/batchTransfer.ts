@@ -0,0 +1,142 @@
+/**
+ * Batch Transfer Utilities
+ * Parse and validate recipient lists, and summarize per-recipient results
+ */
+
+import { isValidAddress, normalizeAddress } from './addressUtils';
+import { parseUnits } from './unitConverter';
+
+/**
+ * Validated batch recipient
+ */
+export interface BatchRecipient {
+	/** Recipient (0x) */
+	address: string;
+	/** Amount as given, in human units */
+	amount: string;
+	/** Amount in the token's smallest unit */
+	amountRaw: bigint;
+}
+
+/**
+ * Outcome of one recipient of a batch transfer
+ */
+export interface BatchTransferResult {
+	recipient: string;
+	amount: string;
+	/** 'sent' once its batch transaction is mined, 'skipped' if an earlier batch failed */
+	status: 'sent' | 'failed' | 'skipped';
+	/** Index of the batch transaction the recipient belongs to */
+	batch: number;
+	txHash: string | null;
+	error?: string;
+}
+
+/**
+ * Options for reading recipients
+ */
+export interface RecipientParseOptions {
+	/** Token decimals the amounts are parsed with */
+	decimals: number;
+	/** Item field holding the recipient address */
+	addressField?: string;
+	/** Item field holding the amount */
+	amountField?: string;
+}
+
+/**
+ * Split CSV text into address/amount rows
+ * Blank lines, # comments and a header row are skipped; commas, semicolons and tabs are accepted.
+ * @param csv CSV text with one recipient per line
+ * @returns Rows of address and amount
+ */
+export function parseRecipientsCsv(csv: string): Array<{ address: string; amount: string }> {
+	const rows = csv
+		.split(/\r?\n/)
+		.map((line) => line.trim())
+		.filter((line) => line !== '' && !line.startsWith('#'))
+		.map((line) => {
+			const [address = '', amount = ''] = line.split(/[,;\t]/).map((cell) => cell.trim());
+			return { address, amount };
+		});
+
+	if (rows.length > 0 && !isValidAddress(rows[0].address) && isNaN(Number(rows[0].amount))) {
+		rows.shift();
+	}
+
+	return rows;
+}
+
+/**
+ * Read and validate batch recipients
+ * Every row is checked before anything is sent; all problems are reported in one error.
+ * @param input CSV text, or input item data with address and amount fields
+ * @param options Decimals and item field names
+ * @returns Validated recipients
+ */
+export function parseBatchRecipients(
+	input: string | Array<Record<string, unknown>>,
+	options: RecipientParseOptions
+): BatchRecipient[] {
+	const addressField = options.addressField || 'address';
+	const amountField = options.amountField || 'amount';
+	const rows = typeof input === 'string'
+		? parseRecipientsCsv(input)
+		: input.map((item) => ({
+			address: String(item[addressField] ?? '').trim(),
+			amount: String(item[amountField] ?? '').trim(),
+		}));
+
+	if (rows.length === 0) {
+		throw new Error('No recipients given for the batch transfer');
+	}
+
+	const recipients: BatchRecipient[] = [];
+	const errors: string[] = [];
+
+	rows.forEach((row, i) => {
+		if (!isValidAddress(row.address)) {
+			errors.push(`Row ${i + 1}: invalid address "${row.address}"`);
+			return;
+		}
+
+		let amountRaw: bigint;
+		try {
+			amountRaw = parseUnits(row.amount, options.decimals);
+		} catch {
+			amountRaw = BigInt(0);
+		}
+		if (amountRaw <= BigInt(0)) {
+			errors.push(`Row ${i + 1}: invalid amount "${row.amount}"`);
+			return;
+		}
+
+		recipients.push({ address: normalizeAddress(row.address), amount: row.amount, amountRaw });
+	});
+
+	if (errors.length > 0) {
+		const shown = errors.slice(0, 10).join('; ');
+		const more = errors.length > 10 ? ` (and ${errors.length - 10} more)` : '';
+		throw new Error(`Invalid batch recipients: ${shown}${more}`);
+	}
+
+	return recipients;
+}
+
+/**
+ * Describe a batch transfer that did not fully go through
+ * @param results Per-recipient results
+ * @returns Error message, or null if every recipient was paid
+ */
+export function getBatchFailure(results: BatchTransferResult[]): string | null {
+	const count = (status: BatchTransferResult['status']) => results.filter((result) => result.status === status).length;
+	const failed = results.find((result) => result.status === 'failed');
+	if (!failed) {
+		return null;
+	}
+
+	const sentHashes = [...new Set(results.filter((result) => result.txHash).map((result) => result.txHash))];
+	return `Batch transfer partially failed: ${count('sent')} of ${results.length} recipients paid` +
+		(sentHashes.length > 0 ? ` in ${sentHashes.join(', ')}` : '') +
+		`, ${count('failed')} failed in batch ${failed.batch} (${failed.error}), ${count('skipped')} skipped`;
+}
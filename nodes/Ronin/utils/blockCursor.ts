@@ -0,0 +1,105 @@
+/**
+ * Block Cursor Utilities
+ * Track trigger progress in workflow static data so polling can resume after restarts
+ */
+
+/**
+ * Where a trigger starts when it has no stored checkpoint
+ */
+export type StartFrom = 'latest' | 'block';
+
+/**
+ * Cursor state persisted in workflow static data
+ */
+export interface BlockCursorState {
+	lastBlockNumber?: number;
+	cursorKey?: string;
+}
+
+/**
+ * Cursor configuration from trigger parameters
+ */
+export interface BlockCursorOptions {
+	startFrom: StartFrom;
+	startBlock: number;
+}
+
+/**
+ * Inclusive block range to process in one poll
+ */
+export interface BlockRange {
+	fromBlock: number;
+	toBlock: number;
+}
+
+/**
+ * Build a key identifying the start configuration a checkpoint belongs to
+ * @param options Cursor options
+ * @returns Key stored alongside the checkpoint
+ */
+export function getCursorKey(options: BlockCursorOptions): string {
+	return options.startFrom === 'block' ? `block:${options.startBlock}` : 'latest';
+}
+
+/**
+ * Resolve the last processed block when a trigger is activated
+ * Resumes from the stored checkpoint unless the start configuration changed
+ * @param state Persisted cursor state
+ * @param options Cursor options
+ * @param head Current chain head
+ * @returns Block number treated as already processed
+ */
+export function resolveStartingBlock(
+	state: BlockCursorState,
+	options: BlockCursorOptions,
+	head: number
+): number {
+	const cursorKey = getCursorKey(options);
+
+	if (typeof state.lastBlockNumber === 'number' && state.cursorKey === cursorKey) {
+		return state.lastBlockNumber;
+	}
+
+	if (options.startFrom === 'block') {
+		return Math.max(0, options.startBlock - 1);
+	}
+
+	return head;
+}
+
+/**
+ * Get the next range of blocks to process, capped to avoid hammering the RPC
+ * @param lastBlock Last processed block
+ * @param head Highest block that may be processed
+ * @param maxBlocks Maximum number of blocks per poll
+ * @returns Block range, or null if there is nothing to process
+ */
+export function getNextBlockRange(
+	lastBlock: number,
+	head: number,
+	maxBlocks: number
+): BlockRange | null {
+	if (head <= lastBlock) {
+		return null;
+	}
+
+	const fromBlock = lastBlock + 1;
+	const toBlock = Math.min(head, lastBlock + Math.max(1, Math.floor(maxBlocks)));
+
+	return { fromBlock, toBlock };
+}
+
+/**
+ * Store the checkpoint in workflow static data
+ * @param state Persisted cursor state (mutated)
+ * @param options Cursor options
+ * @param blockNumber Last processed block
+ */
+export function saveCheckpoint(
+	state: BlockCursorState,
+	options: BlockCursorOptions,
+	blockNumber: number
+): void {
+	state.lastBlockNumber = blockNumber;
+	state.cursorKey = getCursorKey(options);
+}
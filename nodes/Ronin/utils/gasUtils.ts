@@ -0,0 +1,194 @@
+/**
+ * Gas Utilities
+ * Fee modes, fee history estimates and fee calculations for replacement transactions
+ */
+
+import { formatGasPrice, parseGasPrice } from './unitConverter';
+
+/**
+ * Minimum fee increase in percent nodes accept for a transaction replacing another one
+ */
+export const MIN_REPLACEMENT_BUMP = 10;
+
+/**
+ * Fee fields of a transaction, legacy (gasPrice) or EIP-1559 (maxFeePerGas)
+ */
+export interface FeeFields {
+	gasPrice?: bigint | null;
+	maxFeePerGas?: bigint | null;
+	maxPriorityFeePerGas?: bigint | null;
+}
+
+/**
+ * How transactions are priced: legacy gasPrice, EIP-1559 max fees, or EIP-1559 when the network supports it
+ */
+export type FeeMode = 'auto' | 'legacy' | 'eip1559';
+
+/**
+ * Fee estimate speed
+ */
+export type FeeSpeed = 'slow' | 'normal' | 'fast';
+
+/**
+ * Priority fee percentiles requested from eth_feeHistory for each speed
+ */
+export const FEE_HISTORY_PERCENTILES: Record<FeeSpeed, number> = {
+	slow: 10,
+	normal: 50,
+	fast: 90,
+};
+
+/**
+ * Fee options of a write operation, in wei
+ */
+export interface FeeOptions {
+	feeMode?: FeeMode;
+	/** Estimate used for max fees left empty */
+	feeSpeed?: FeeSpeed;
+	gasPrice?: bigint;
+	maxFeePerGas?: bigint;
+	maxPriorityFeePerGas?: bigint;
+}
+
+/**
+ * eth_feeHistory result
+ */
+export interface FeeHistory {
+	oldestBlock: string;
+	/** Base fees of the blocks, plus the base fee of the next block */
+	baseFeePerGas: string[];
+	gasUsedRatio: number[];
+	/** Priority fees paid per block at the requested percentiles */
+	reward?: string[][];
+}
+
+/**
+ * EIP-1559 fee estimate in wei
+ */
+export interface FeeEstimate {
+	baseFeePerGas: bigint;
+	maxFeePerGas: bigint;
+	maxPriorityFeePerGas: bigint;
+}
+
+/**
+ * Read the fee fields of a write operation
+ * @param getParameter Returns a node parameter by name, or undefined if it is not set
+ * @returns Fee options with gwei inputs converted to wei
+ */
+export function parseFeeOptions(getParameter: (name: string) => unknown): FeeOptions {
+	const gwei = (name: string): bigint | undefined => {
+		const value = getParameter(name);
+		return typeof value === 'string' && value.trim() !== '' ? parseGasPrice(value) : undefined;
+	};
+
+	return {
+		feeMode: (getParameter('feeMode') as FeeMode | undefined) ?? 'auto',
+		feeSpeed: (getParameter('feeSpeed') as FeeSpeed | undefined) ?? 'normal',
+		gasPrice: gwei('gasPrice'),
+		maxFeePerGas: gwei('maxFeePerGas'),
+		maxPriorityFeePerGas: gwei('maxPriorityFeePerGas'),
+	};
+}
+
+/**
+ * Estimate EIP-1559 fees from eth_feeHistory
+ * The priority fee is the median over non-empty blocks of the speed's percentile,
+ * and the max fee leaves room for the base fee to double.
+ * @param history Fee history requested with the FEE_HISTORY_PERCENTILES, in speed order
+ * @returns Estimates per speed
+ */
+export function estimateFeesFromHistory(history: FeeHistory): Record<FeeSpeed, FeeEstimate> {
+	const baseFees = history.baseFeePerGas.map((fee) => BigInt(fee));
+	const baseFeePerGas = baseFees[baseFees.length - 1] ?? BigInt(0);
+	const rewards = (history.reward ?? []).filter((_, i) => history.gasUsedRatio[i] > 0);
+	const speeds = Object.keys(FEE_HISTORY_PERCENTILES) as FeeSpeed[];
+
+	const estimates = {} as Record<FeeSpeed, FeeEstimate>;
+	speeds.forEach((speed, column) => {
+		const tips = rewards
+			.map((blockRewards) => BigInt(blockRewards[column] ?? 0))
+			.sort((a, b) => (a < b ? -1 : a > b ? 1 : 0));
+		const maxPriorityFeePerGas = tips.length > 0 ? tips[Math.floor(tips.length / 2)] : BigInt(0);
+
+		estimates[speed] = {
+			baseFeePerGas,
+			maxFeePerGas: baseFeePerGas * BigInt(2) + maxPriorityFeePerGas,
+			maxPriorityFeePerGas,
+		};
+	});
+
+	return estimates;
+}
+
+/**
+ * Increase a gas price by a percentage, rounding up
+ * @param gasPrice Gas price in wei
+ * @param percent Increase in percent
+ * @returns Bumped gas price in wei
+ */
+export function bumpGasPrice(gasPrice: bigint, percent: number): bigint {
+	const basisPoints = BigInt(Math.round((100 + percent) * 100));
+	return (gasPrice * basisPoints + BigInt(9999)) / BigInt(10000);
+}
+
+/**
+ * Format transaction fees for display
+ * @param fees Legacy or EIP-1559 fees in wei
+ * @returns Formatted fees
+ */
+export function formatFees(fees: FeeFields): string {
+	if (fees.maxFeePerGas !== undefined && fees.maxFeePerGas !== null) {
+		return `${formatGasPrice(fees.maxFeePerGas)} max, ${formatGasPrice(fees.maxPriorityFeePerGas ?? BigInt(0))} priority`;
+	}
+	return formatGasPrice(fees.gasPrice ?? BigInt(0));
+}
+
+/**
+ * Get the fees of a transaction replacing a pending one with the same nonce
+ * @param original Fees of the pending transaction
+ * @param bumpPercent Increase over the original fees in percent (at least MIN_REPLACEMENT_BUMP)
+ * @param override Explicit gas price (or max fee) in wei, instead of the bumped one
+ * @param networkGasPrice Current network gas price in wei, used when higher than the bumped price
+ * @returns Replacement fees, of the same type as the original
+ */
+export function getReplacementFees(
+	original: FeeFields,
+	bumpPercent: number,
+	override?: bigint,
+	networkGasPrice?: bigint
+): FeeFields {
+	if (bumpPercent < MIN_REPLACEMENT_BUMP) {
+		throw new Error(`Gas price bump must be at least ${MIN_REPLACEMENT_BUMP}%`);
+	}
+
+	const isEip1559 = original.maxFeePerGas !== undefined && original.maxFeePerGas !== null;
+	const originalPrice = (isEip1559 ? original.maxFeePerGas : original.gasPrice) ?? BigInt(0);
+	const minimum = bumpGasPrice(originalPrice, MIN_REPLACEMENT_BUMP);
+
+	let price: bigint;
+	if (override !== undefined) {
+		if (override < minimum) {
+			throw new Error(
+				`Replacement gas price must be at least ${formatGasPrice(minimum)} ` +
+				`(${MIN_REPLACEMENT_BUMP}% above the original ${formatGasPrice(originalPrice)})`
+			);
+		}
+		price = override;
+	} else {
+		price = bumpGasPrice(originalPrice, bumpPercent);
+		if (networkGasPrice !== undefined && networkGasPrice > price) {
+			price = networkGasPrice;
+		}
+	}
+
+	if (!isEip1559) {
+		return { gasPrice: price };
+	}
+
+	const priorityFee = bumpGasPrice(original.maxPriorityFeePerGas ?? BigInt(0), bumpPercent);
+	return {
+		maxFeePerGas: price,
+		maxPriorityFeePerGas: priorityFee < price ? priorityFee : price,
+	};
+}
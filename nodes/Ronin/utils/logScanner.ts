@@ -0,0 +1,152 @@
+/**
+ * Log Scanning Utilities
+ * Fetch event logs over block ranges with as few RPC calls as possible
+ */
+
+import { ethers } from 'ethers';
+
+/**
+ * Function that performs a single eth_getLogs call
+ */
+export type LogFetcher = (filter: ethers.Filter) => Promise<ethers.Log[]>;
+
+/**
+ * Log filter without a block range
+ */
+export type LogQuery = Omit<ethers.Filter, 'fromBlock' | 'toBlock'>;
+
+/**
+ * ERC20 / ERC721 Transfer event topic
+ */
+export const TRANSFER_TOPIC = ethers.id('Transfer(address,address,uint256)');
+
+/**
+ * Error messages RPC nodes return when a getLogs query is too large
+ */
+const TOO_MANY_RESULTS_PATTERNS = [
+	/too many (results|logs)/i,
+	/query returned more than/i,
+	/limit exceeded/i,
+	/exceed(s|ed)? .*(limit|range|max)/i,
+	/block range/i,
+	/response (size|is too big)/i,
+];
+
+/**
+ * Check whether an RPC error means the getLogs range must be narrowed
+ * @param error Error thrown by the provider
+ * @returns True if the query should be retried with a smaller range
+ */
+export function isTooManyResultsError(error: unknown): boolean {
+	const err = error as { message?: string; shortMessage?: string; error?: { message?: string } };
+	const messages = [err?.message, err?.shortMessage, err?.error?.message].filter(Boolean) as string[];
+
+	return messages.some((message) =>
+		TOO_MANY_RESULTS_PATTERNS.some((pattern) => pattern.test(message))
+	);
+}
+
+/**
+ * Fetch logs for an inclusive block range with one getLogs call,
+ * splitting the range in half whenever the RPC reports too many results
+ * @param fetchLogs Function performing eth_getLogs
+ * @param query Address and topic filter
+ * @param fromBlock First block
+ * @param toBlock Last block
+ * @returns Logs in the range
+ */
+export async function getLogsInRange(
+	fetchLogs: LogFetcher,
+	query: LogQuery,
+	fromBlock: number,
+	toBlock: number
+): Promise<ethers.Log[]> {
+	try {
+		return await fetchLogs({ ...query, fromBlock, toBlock });
+	} catch (error) {
+		if (fromBlock >= toBlock || !isTooManyResultsError(error)) {
+			throw error;
+		}
+
+		const middle = Math.floor((fromBlock + toBlock) / 2);
+		const lower = await getLogsInRange(fetchLogs, query, fromBlock, middle);
+		const upper = await getLogsInRange(fetchLogs, query, middle + 1, toBlock);
+		return [...lower, ...upper];
+	}
+}
+
+/**
+ * Encode an address as an indexed topic
+ * @param address 0x address
+ * @returns 32-byte topic
+ */
+export function addressToTopic(address: string): string {
+	return ethers.zeroPadValue(address, 32).toLowerCase();
+}
+
+/**
+ * Decode an indexed address topic
+ * @param topic 32-byte topic
+ * @returns 0x address (lowercase)
+ */
+export function topicToAddress(topic: string): string {
+	return ('0x' + topic.slice(26)).toLowerCase();
+}
+
+/**
+ * Build queries matching a Transfer event sent from or to any of the given addresses
+ * Indexed topics are ORed within a position, so two queries cover both directions.
+ * @param addresses Watched 0x addresses (empty to match all transfers)
+ * @param contracts Contract addresses to restrict to (optional)
+ * @returns Log queries
+ */
+export function buildTransferQueries(addresses: string[], contracts?: string[]): LogQuery[] {
+	const address = contracts && contracts.length > 0 ? contracts : undefined;
+
+	if (addresses.length === 0) {
+		return [{ address, topics: [TRANSFER_TOPIC] }];
+	}
+
+	const addressTopics = addresses.map(addressToTopic);
+	return [
+		{ address, topics: [TRANSFER_TOPIC, addressTopics] },
+		{ address, topics: [TRANSFER_TOPIC, null, addressTopics] },
+	];
+}
+
+/**
+ * Remove duplicate logs returned by overlapping queries and sort them in chain order
+ * @param logs Logs from one or more queries
+ * @returns Unique logs ordered by block and log index
+ */
+export function dedupeLogs(logs: ethers.Log[]): ethers.Log[] {
+	const unique = new Map<string, ethers.Log>();
+
+	for (const log of logs) {
+		unique.set(`${log.transactionHash}:${log.index}`, log);
+	}
+
+	return Array.from(unique.values()).sort(
+		(a, b) => a.blockNumber - b.blockNumber || a.index - b.index
+	);
+}
+
+/**
+ * Run several queries over the same range and merge the results
+ * @param fetchLogs Function performing eth_getLogs
+ * @param queries Log queries
+ * @param fromBlock First block
+ * @param toBlock Last block
+ * @returns Unique logs ordered by block and log index
+ */
+export async function scanLogs(
+	fetchLogs: LogFetcher,
+	queries: LogQuery[],
+	fromBlock: number,
+	toBlock: number
+): Promise<ethers.Log[]> {
+	const results = await Promise.all(
+		queries.map((query) => getLogsInRange(fetchLogs, query, fromBlock, toBlock))
+	);
+	return dedupeLogs(results.flat());
+}
@@ -0,0 +1,112 @@
+/**
+ * Marketplace Sale Utilities
+ * Decode OrdersMatched logs together with the transfers of the settling transaction
+ */
+
+import { ethers } from 'ethers';
+import { MARKETPLACE_ABI } from '../constants/contracts';
+import { getTokenByAddress } from '../constants/tokens';
+import { formatUnits } from './unitConverter';
+import { TRANSFER_TOPIC, topicToAddress } from './logScanner';
+
+const marketplaceInterface = new ethers.Interface(MARKETPLACE_ABI);
+
+/**
+ * OrdersMatched event topic
+ */
+export const ORDERS_MATCHED_TOPIC = marketplaceInterface.getEvent('OrdersMatched')!.topicHash;
+
+/**
+ * Decoded marketplace sale
+ */
+export interface MarketplaceSale {
+	orderHash: string;
+	seller: string;
+	buyer: string;
+	nftContract: string | null;
+	tokenId: string | null;
+	paymentToken: string;
+	paymentSymbol: string;
+	price: string;
+	priceRaw: string;
+	marketFee: string | null;
+	marketFeeRaw: string | null;
+}
+
+/**
+ * Decode a sale from its OrdersMatched log and the logs of the same transaction
+ * Seller and buyer come from the NFT transfer, the fee is the part of the price
+ * the seller did not receive. Bulk buys settle several orders in one transaction,
+ * so each sale only reads the logs emitted after the previous OrdersMatched.
+ * @param saleLog OrdersMatched log
+ * @param txLogs All logs of the settling transaction
+ * @param network Network name for token lookups
+ * @returns Decoded sale
+ */
+export function decodeMarketplaceSale(
+	saleLog: ethers.Log,
+	txLogs: readonly ethers.Log[],
+	network: string
+): MarketplaceSale {
+	const parsed = marketplaceInterface.parseLog({
+		topics: saleLog.topics as string[],
+		data: saleLog.data,
+	});
+	if (!parsed) {
+		throw new Error('Log is not an OrdersMatched event');
+	}
+
+	const priceRaw = parsed.args.price as bigint;
+	const maker = (parsed.args.maker as string).toLowerCase();
+	const taker = (parsed.args.taker as string).toLowerCase();
+
+	const previousSale = Math.max(
+		-1,
+		...txLogs
+			.filter((log) => log.topics[0] === ORDERS_MATCHED_TOPIC && log.index < saleLog.index)
+			.map((log) => log.index)
+	);
+	const transfers = txLogs.filter(
+		(log) => log.topics[0] === TRANSFER_TOPIC && log.index > previousSale && log.index <= saleLog.index
+	);
+
+	// ERC721 transfers index the token id, ERC20 transfers carry the amount in data
+	const nftTransfers = transfers.filter((log) => log.topics.length >= 4);
+	const nftTransfer =
+		nftTransfers.find((log) => topicToAddress(log.topics[1]) === maker && topicToAddress(log.topics[2]) === taker) ??
+		nftTransfers[0];
+	const seller = nftTransfer ? topicToAddress(nftTransfer.topics[1]) : maker;
+	const buyer = nftTransfer ? topicToAddress(nftTransfer.topics[2]) : taker;
+
+	const payments = transfers.filter(
+		(log) => log.topics.length === 3 && topicToAddress(log.topics[1]) === buyer
+	);
+	const paymentToken = payments.length > 0
+		? payments[0].address.toLowerCase()
+		: ethers.ZeroAddress;
+	const token = getTokenByAddress(network, paymentToken);
+	const decimals = token?.decimals ?? 18;
+
+	// Native RON payments leave no transfer logs, so the fee cannot be derived
+	let marketFeeRaw: bigint | null = null;
+	if (payments.length > 0) {
+		const proceeds = payments
+			.filter((log) => log.address.toLowerCase() === paymentToken && topicToAddress(log.topics[2]) === seller)
+			.reduce((sum, log) => sum + BigInt(log.data), BigInt(0));
+		marketFeeRaw = proceeds > BigInt(0) && proceeds <= priceRaw ? priceRaw - proceeds : null;
+	}
+
+	return {
+		orderHash: parsed.args.sellHash as string,
+		seller,
+		buyer,
+		nftContract: nftTransfer ? nftTransfer.address.toLowerCase() : null,
+		tokenId: nftTransfer ? BigInt(nftTransfer.topics[3]).toString() : null,
+		paymentToken,
+		paymentSymbol: token?.symbol ?? (payments.length > 0 ? paymentToken : 'RON'),
+		price: formatUnits(priceRaw, decimals),
+		priceRaw: priceRaw.toString(),
+		marketFee: marketFeeRaw === null ? null : formatUnits(marketFeeRaw, decimals),
+		marketFeeRaw: marketFeeRaw === null ? null : marketFeeRaw.toString(),
+	};
+}
@@ -0,0 +1,120 @@
+/**
+ * Mempool Utilities
+ * Normalize pending transactions from txpool_content and subscriptions
+ */
+
+/**
+ * Pending transaction fields used by the trigger
+ */
+export interface PendingTransaction {
+	hash: string;
+	from: string;
+	to: string | null;
+	input: string;
+	value: bigint;
+	nonce: number;
+}
+
+/**
+ * Raw JSON-RPC transaction as returned by txpool_content
+ */
+export interface RawPoolTransaction {
+	hash: string;
+	from: string;
+	to?: string | null;
+	input?: string;
+	data?: string;
+	value?: string;
+	nonce?: string;
+}
+
+/**
+ * txpool_content result, grouped by sender and nonce
+ */
+export interface TxpoolContent {
+	pending?: Record<string, Record<string, RawPoolTransaction>>;
+	queued?: Record<string, Record<string, RawPoolTransaction>>;
+}
+
+/**
+ * Convert a raw JSON-RPC transaction
+ * @param tx Raw transaction
+ * @returns Pending transaction
+ */
+export function toPendingTransaction(tx: RawPoolTransaction): PendingTransaction {
+	return {
+		hash: tx.hash,
+		from: tx.from.toLowerCase(),
+		to: tx.to ? tx.to.toLowerCase() : null,
+		input: tx.input ?? tx.data ?? '0x',
+		value: BigInt(tx.value ?? 0),
+		nonce: Number(tx.nonce ?? 0),
+	};
+}
+
+/**
+ * Flatten the pending section of txpool_content
+ * Queued transactions are skipped since they cannot be mined until a nonce gap is filled.
+ * @param content txpool_content result
+ * @returns Pending transactions
+ */
+export function flattenTxpool(content: TxpoolContent): PendingTransaction[] {
+	const transactions: PendingTransaction[] = [];
+
+	for (const byNonce of Object.values(content.pending || {})) {
+		for (const tx of Object.values(byNonce)) {
+			transactions.push(toPendingTransaction(tx));
+		}
+	}
+
+	return transactions;
+}
+
+/**
+ * Remember which pending transactions were already emitted
+ * Hashes that left the pool are forgotten, and the oldest are evicted past the size limit.
+ */
+export class SeenTransactions {
+	private hashes = new Set<string>();
+	private maxSize: number;
+
+	constructor(maxSize: number = 10000) {
+		this.maxSize = maxSize;
+	}
+
+	/**
+	 * Mark a hash as seen
+	 * @param hash Transaction hash
+	 * @returns True if the hash was not seen before
+	 */
+	add(hash: string): boolean {
+		const key = hash.toLowerCase();
+		if (this.hashes.has(key)) {
+			return false;
+		}
+		this.hashes.add(key);
+
+		// Sets iterate in insertion order, so the first entry is the oldest
+		if (this.hashes.size > this.maxSize) {
+			this.hashes.delete(this.hashes.values().next().value as string);
+		}
+		return true;
+	}
+
+	/**
+	 * Forget hashes that are no longer pending
+	 * @param pendingHashes Hashes currently in the pool
+	 */
+	retain(pendingHashes: string[]): void {
+		const pending = new Set(pendingHashes.map((hash) => hash.toLowerCase()));
+		for (const hash of this.hashes) {
+			if (!pending.has(hash)) {
+				this.hashes.delete(hash);
+			}
+		}
+	}
+
+	get size(): number {
+		return this.hashes.size;
+	}
+}
@@ -0,0 +1,147 @@
+/**
+ * Multicall Utilities
+ * Encode contract reads for Multicall3 aggregate3 and decode their results
+ */
+
+import { ethers } from 'ethers';
+import { isValidAddress, normalizeAddress } from './addressUtils';
+import { decodeRevertReason } from './simulation';
+
+/**
+ * Read call batched through Multicall3
+ */
+export interface MulticallCall {
+	/** Contract address (0x) */
+	target: string;
+	/** ABI or interface of the contract */
+	abi: ethers.InterfaceAbi | ethers.Interface;
+	/** Function name or signature */
+	method: string;
+	params?: unknown[];
+	/** Return a failed result instead of reverting the whole batch (default true) */
+	allowFailure?: boolean;
+}
+
+/**
+ * Result of one batched call
+ */
+export interface MulticallResult {
+	success: boolean;
+	/** Decoded return value, unwrapped when the function has a single output */
+	value: unknown;
+	error?: string;
+}
+
+/**
+ * Encoded aggregate3 call
+ */
+export interface Aggregate3Call {
+	target: string;
+	allowFailure: boolean;
+	callData: string;
+}
+
+/**
+ * Maximum calls sent in one aggregate3 request
+ */
+export const MULTICALL_BATCH_SIZE = 500;
+
+const toInterface = (abi: ethers.InterfaceAbi | ethers.Interface): ethers.Interface =>
+	abi instanceof ethers.Interface ? abi : new ethers.Interface(abi);
+
+/**
+ * Encode calls for Multicall3 aggregate3
+ * @param calls Read calls
+ * @returns aggregate3 call tuples
+ */
+export function encodeMulticall(calls: MulticallCall[]): Aggregate3Call[] {
+	return calls.map((call) => ({
+		target: call.target,
+		allowFailure: call.allowFailure ?? true,
+		callData: toInterface(call.abi).encodeFunctionData(call.method, call.params ?? []),
+	}));
+}
+
+/**
+ * Decode the aggregate3 results of calls
+ * @param calls Read calls, in the order they were encoded
+ * @param results aggregate3 return data, one [success, returnData] pair per call
+ * @returns Decoded results
+ */
+export function decodeMulticall(
+	calls: MulticallCall[],
+	results: ReadonlyArray<readonly [boolean, string]>
+): MulticallResult[] {
+	return calls.map((call, i) => {
+		const [success, returnData] = results[i] ?? [false, '0x'];
+		if (!success) {
+			return { success: false, value: null, error: decodeRevertReason(returnData) ?? 'execution reverted' };
+		}
+		if (returnData === '0x') {
+			return { success: false, value: null, error: 'No return data (not a contract?)' };
+		}
+
+		try {
+			const decoded = toInterface(call.abi).decodeFunctionResult(call.method, returnData);
+			return { success: true, value: decoded.length === 1 ? decoded[0] : decoded.toArray() };
+		} catch {
+			return { success: false, value: null, error: 'Return data does not match the ABI' };
+		}
+	});
+}
+
+/**
+ * Parse the calls of a Read Contract (Batch) operation
+ * Each call is an object with contractAddress, functionName, and optional parameters and abi.
+ * @param input Calls as JSON text or an array
+ * @param defaultAbi ABI used by calls without their own
+ * @param allowFailure Whether a failed call is returned as an error instead of failing the batch
+ * @returns Multicall calls
+ */
+export function parseBatchCalls(
+	input: string | unknown[],
+	defaultAbi: ethers.InterfaceAbi,
+	allowFailure: boolean
+): MulticallCall[] {
+	const entries = typeof input === 'string' ? JSON.parse(input) : input;
+	if (!Array.isArray(entries) || entries.length === 0) {
+		throw new Error('Calls must be a non-empty JSON array');
+	}
+
+	return entries.map((entry: Record<string, unknown>, i: number) => {
+		const contractAddress = String(entry?.contractAddress ?? '');
+		if (!isValidAddress(contractAddress)) {
+			throw new Error(`Call ${i + 1}: invalid contract address "${contractAddress}"`);
+		}
+		if (typeof entry.functionName !== 'string' || entry.functionName === '') {
+			throw new Error(`Call ${i + 1}: functionName is required`);
+		}
+
+		const abi = typeof entry.abi === 'string' ? JSON.parse(entry.abi) : entry.abi;
+		return {
+			target: normalizeAddress(contractAddress),
+			abi: (abi ?? defaultAbi) as ethers.InterfaceAbi,
+			method: entry.functionName,
+			params: (entry.parameters ?? []) as unknown[],
+			allowFailure,
+		};
+	});
+}
+
+/**
+ * Convert a decoded value to plain JSON (bigints as strings, results as arrays)
+ * @param value Decoded value
+ * @returns JSON-safe value
+ */
+export function toPlainValue(value: unknown): unknown {
+	if (typeof value === 'bigint') {
+		return value.toString();
+	}
+	if (value instanceof ethers.Result) {
+		return value.toArray().map(toPlainValue);
+	}
+	if (Array.isArray(value)) {
+		return value.map(toPlainValue);
+	}
+	return value;
+}
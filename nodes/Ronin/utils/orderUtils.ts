@@ -0,0 +1,232 @@
+/**
+ * Marketplace Order Utilities
+ * EIP-712 types, ABI encoding and hashing of Mavis Market orders
+ */
+
+import { ethers } from 'ethers';
+import { normalizeAddress } from './addressUtils';
+
+/**
+ * Order kinds
+ */
+export const ORDER_KIND = {
+	OFFER: 0,
+	LISTING: 1,
+} as const;
+
+/**
+ * Asset standards, as encoded in the erc field of an order asset
+ */
+export const ORDER_ASSET = {
+	ERC20: 0,
+	ERC721: 1,
+	ERC1155: 2,
+} as const;
+
+/**
+ * Mavis Market order
+ */
+export interface Order {
+	maker: string;
+	kind: number;
+	assets: Array<{
+		erc: number;
+		addr: string;
+		id: string;
+		quantity: string;
+	}>;
+	expiredAt: number;
+	paymentToken: string;
+	startedAt: number;
+	basePrice: string;
+	endedAt: number;
+	endedPrice: string;
+	expectedState: string;
+	nonce: number;
+	marketFeePercentage: number;
+}
+
+/**
+ * EIP-712 types of an order
+ */
+export const ORDER_TYPES: Record<string, ethers.TypedDataField[]> = {
+	Asset: [
+		{ name: 'erc', type: 'uint8' },
+		{ name: 'addr', type: 'address' },
+		{ name: 'id', type: 'uint256' },
+		{ name: 'quantity', type: 'uint256' },
+	],
+	Order: [
+		{ name: 'maker', type: 'address' },
+		{ name: 'kind', type: 'uint8' },
+		{ name: 'assets', type: 'Asset[]' },
+		{ name: 'expiredAt', type: 'uint256' },
+		{ name: 'paymentToken', type: 'address' },
+		{ name: 'startedAt', type: 'uint256' },
+		{ name: 'basePrice', type: 'uint256' },
+		{ name: 'endedAt', type: 'uint256' },
+		{ name: 'endedPrice', type: 'uint256' },
+		{ name: 'expectedState', type: 'uint256' },
+		{ name: 'nonce', type: 'uint256' },
+		{ name: 'marketFeePercentage', type: 'uint256' },
+	],
+};
+
+/**
+ * Get the EIP-712 domain orders are signed for
+ * @param chainId Chain ID of the network
+ * @param gateway Mavis Market gateway of the network
+ * @returns Typed data domain
+ */
+export function getOrderDomain(chainId: number, gateway: string): ethers.TypedDataDomain {
+	return {
+		name: 'MarketGateway',
+		version: '1',
+		chainId,
+		verifyingContract: normalizeAddress(gateway),
+	};
+}
+
+/**
+ * Recover the account that signed an order
+ * @param order Order
+ * @param signature EIP-712 signature
+ * @param domain Domain the order was signed for
+ * @returns Signer address (checksummed)
+ */
+export function recoverOrderSigner(order: Order, signature: string, domain: ethers.TypedDataDomain): string {
+	return ethers.verifyTypedData(domain, ORDER_TYPES, order, signature);
+}
+
+/**
+ * Parse an order given as JSON, such as the order of a marketplace listing
+ * @param input Order JSON string or object
+ * @returns Order with hex addresses
+ */
+export function parseOrder(input: string | object): Order {
+	let value: Record<string, unknown>;
+	try {
+		value = (typeof input === 'string' ? JSON.parse(input) : input) as Record<string, unknown>;
+	} catch {
+		throw new Error('Order is not valid JSON');
+	}
+
+	const fields = ORDER_TYPES.Order.map((field) => field.name);
+	const missing = fields.filter((name) => value?.[name] === undefined || value[name] === null);
+	if (missing.length > 0) {
+		throw new Error(`Order is missing ${missing.join(', ')}`);
+	}
+	if (!Array.isArray(value.assets)) {
+		throw new Error('Order assets must be an array');
+	}
+
+	return {
+		...(value as unknown as Order),
+		maker: normalizeAddress(value.maker as string),
+		paymentToken: normalizeAddress(value.paymentToken as string),
+		assets: (value.assets as Order['assets']).map((asset) => ({ ...asset, addr: normalizeAddress(asset.addr) })),
+	};
+}
+
+/**
+ * ABI type of an order, as passed to the order exchange
+ */
+export const ORDER_TUPLE =
+	'tuple(address maker, uint8 kind, tuple(uint8 erc, address addr, uint256 id, uint256 quantity)[] assets, ' +
+	'uint256 expiredAt, address paymentToken, uint256 startedAt, uint256 basePrice, uint256 endedAt, ' +
+	'uint256 endedPrice, uint256 expectedState, uint256 nonce, uint256 marketFeePercentage)';
+
+/**
+ * ABI-encode an order for settlement
+ * @param order Order
+ * @returns Encoded order data
+ */
+export function encodeOrder(order: Order): string {
+	return ethers.AbiCoder.defaultAbiCoder().encode([ORDER_TUPLE], [order]);
+}
+
+/**
+ * Get the on-chain hash of an order, used to cancel it
+ * @param order Order
+ * @returns EIP-712 struct hash of the order
+ */
+export function getOrderHash(order: Order): string {
+	return ethers.TypedDataEncoder.hashStruct('Order', ORDER_TYPES, order);
+}
+
+/**
+ * Get the price of an order at a given time
+ * The price moves linearly from basePrice at startedAt to endedPrice at endedAt, so a
+ * Dutch auction declines until it ends. Orders without an end time keep their base price.
+ * @param order Order
+ * @param at Unix timestamp in seconds, now by default
+ * @returns Price in the smallest unit of the payment token
+ */
+export function getCurrentPrice(
+	order: Pick<Order, 'startedAt' | 'basePrice' | 'endedAt' | 'endedPrice'>,
+	at: number = Math.floor(Date.now() / 1000)
+): bigint {
+	const basePrice = BigInt(order.basePrice);
+	const endedPrice = BigInt(order.endedPrice);
+	if (order.endedAt <= order.startedAt || at <= order.startedAt) {
+		return basePrice;
+	}
+	if (at >= order.endedAt) {
+		return endedPrice;
+	}
+
+	const elapsed = BigInt(at - order.startedAt);
+	const duration = BigInt(order.endedAt - order.startedAt);
+	return basePrice - ((basePrice - endedPrice) * elapsed) / duration;
+}
+
+/**
+ * Token ID of collection offers, which any token of the collection can fill
+ */
+export const ANY_TOKEN_ID = '0';
+
+/**
+ * Axie traits a collection offer requires from the token that fills it
+ */
+export interface OfferCriteria {
+	/** Classes, any of which matches */
+	classes?: string[];
+	/** Part IDs such as eyes-zeal, all of which are required */
+	parts?: string[];
+}
+
+/**
+ * Axie traits checked against offer criteria
+ */
+export interface AxieTraits {
+	class: string;
+	parts: Array<{ id: string }>;
+}
+
+/**
+ * Check whether an offer restricts the traits of the token that fills it
+ * @param criteria Offer criteria
+ * @returns Whether any class or part is required
+ */
+export function hasOfferCriteria(criteria?: OfferCriteria | null): boolean {
+	return (criteria?.classes?.length ?? 0) > 0 || (criteria?.parts?.length ?? 0) > 0;
+}
+
+/**
+ * Check an Axie against the criteria of an offer
+ * @param axie Axie class and parts
+ * @param criteria Offer criteria, none for plain collection offers
+ * @returns Whether the Axie can fill the offer
+ */
+export function matchesOfferCriteria(
+	axie: AxieTraits,
+	criteria?: OfferCriteria | null
+): boolean {
+	const classes = (criteria?.classes ?? []).map((value) => value.toLowerCase());
+	if (classes.length > 0 && !classes.includes(axie.class.toLowerCase())) {
+		return false;
+	}
+
+	const parts = new Set(axie.parts.map((part) => part.id.toLowerCase()));
+	return (criteria?.parts ?? []).every((part) => parts.has(part.toLowerCase()));
+}
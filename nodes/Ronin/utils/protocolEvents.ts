@@ -0,0 +1,229 @@
+/**
+ * Protocol Event Utilities
+ * Decode staking, bridge and Katana logs into human-readable trigger items
+ */
+
+import { ethers } from 'ethers';
+import { KATANA_PAIR_ABI, RON_STAKING_ABI } from '../constants/contracts';
+import { TokenInfo, getTokenByAddress } from '../constants/tokens';
+import { BRIDGE_ABI } from '../transport/bridgeClient';
+import { hexToRonin } from './addressUtils';
+import { formatUnits, weiToRon } from './unitConverter';
+
+export const STAKING_INTERFACE = new ethers.Interface(RON_STAKING_ABI);
+export const BRIDGE_INTERFACE = new ethers.Interface(BRIDGE_ABI);
+export const KATANA_PAIR_INTERFACE = new ethers.Interface(KATANA_PAIR_ABI);
+
+/**
+ * Trigger events emitted by the RON staking contract
+ */
+export const STAKING_TRIGGER_EVENTS: Record<string, string> = {
+	stakingDelegated: 'Delegated',
+	stakingUndelegated: 'Undelegated',
+	stakingRewardClaimed: 'RewardClaimed',
+};
+
+/**
+ * Trigger events emitted by the bridge gateway
+ */
+export const BRIDGE_TRIGGER_EVENTS: Record<string, string> = {
+	bridgeDeposit: 'Deposited',
+	bridgeWithdrawalRequested: 'WithdrawalRequested',
+	bridgeWithdrawalCompleted: 'WithdrawalCompleted',
+};
+
+/**
+ * Trigger events emitted by Katana pairs
+ */
+export const KATANA_TRIGGER_EVENTS: Record<string, string> = {
+	katanaSwap: 'Swap',
+	katanaSync: 'Sync',
+};
+
+/**
+ * Decoded protocol event
+ */
+export interface DecodedProtocolEvent {
+	/** Item fields with amounts in human units and addresses in ronin: format */
+	fields: Record<string, string | null>;
+	/** Accounts involved in the event (lowercase 0x), used for watch address filtering */
+	parties: string[];
+}
+
+/**
+ * Katana pair with its sorted tokens
+ */
+export interface KatanaPair {
+	address: string;
+	name: string;
+	token0: TokenInfo;
+	token1: TokenInfo;
+}
+
+/**
+ * Build a Katana pair, ordering its tokens the way the pair contract does (lower address first)
+ * @param address Pair contract address
+ * @param tokenA First token
+ * @param tokenB Second token
+ * @returns Pair with token0 and token1
+ */
+export function buildKatanaPair(address: string, tokenA: TokenInfo, tokenB: TokenInfo): KatanaPair {
+	const [token0, token1] = tokenA.address.toLowerCase() < tokenB.address.toLowerCase()
+		? [tokenA, tokenB]
+		: [tokenB, tokenA];
+
+	return {
+		address: address.toLowerCase(),
+		name: `${tokenA.symbol}/${tokenB.symbol}`,
+		token0,
+		token1,
+	};
+}
+
+/**
+ * Get the topic hash of an event
+ * @param iface Contract interface
+ * @param eventName Event name
+ * @returns Event topic
+ */
+export function getEventTopic(iface: ethers.Interface, eventName: string): string {
+	const fragment = iface.getEvent(eventName);
+	if (!fragment) {
+		throw new Error(`Unknown event: ${eventName}`);
+	}
+	return fragment.topicHash;
+}
+
+/**
+ * Parse a log, throwing if it does not belong to the interface
+ */
+function parseLog(iface: ethers.Interface, log: ethers.Log): ethers.LogDescription {
+	const parsed = iface.parseLog({ topics: log.topics as string[], data: log.data });
+	if (!parsed) {
+		throw new Error(`Unrecognized log in transaction ${log.transactionHash}`);
+	}
+	return parsed;
+}
+
+/**
+ * Decode a Delegated, Undelegated or RewardClaimed log
+ * @param log Staking contract log
+ * @returns Decoded event
+ */
+export function decodeStakingLog(log: ethers.Log): DecodedProtocolEvent {
+	const parsed = parseLog(STAKING_INTERFACE, log);
+	const delegator = (parsed.name === 'RewardClaimed' ? parsed.args.user : parsed.args.delegator) as string;
+	const amount = parsed.args.amount as bigint;
+
+	return {
+		fields: {
+			event: parsed.name.charAt(0).toLowerCase() + parsed.name.slice(1),
+			delegator: hexToRonin(delegator),
+			validator: hexToRonin(parsed.args.consensusAddr),
+			amount: weiToRon(amount),
+			amountRaw: amount.toString(),
+		},
+		parties: [delegator.toLowerCase()],
+	};
+}
+
+/**
+ * Decode a Deposited, WithdrawalRequested or WithdrawalCompleted log
+ * @param log Bridge gateway log
+ * @param network Network name for token lookups
+ * @returns Decoded event
+ */
+export function decodeBridgeLog(log: ethers.Log, network: string): DecodedProtocolEvent {
+	const parsed = parseLog(BRIDGE_INTERFACE, log);
+
+	if (parsed.name === 'WithdrawalCompleted') {
+		return {
+			fields: {
+				event: 'withdrawalCompleted',
+				withdrawalId: (parsed.args.withdrawalId as bigint).toString(),
+			},
+			parties: [],
+		};
+	}
+
+	const tokenAddress = (parsed.args.token as string).toLowerCase();
+	const token = getTokenByAddress(network, tokenAddress);
+	const amount = parsed.args.amount as bigint;
+	const tokenFields = {
+		token: tokenAddress,
+		tokenSymbol: token?.symbol ?? null,
+		amount: formatUnits(amount, token?.decimals ?? 18),
+		amountRaw: amount.toString(),
+	};
+
+	if (parsed.name === 'Deposited') {
+		const from = parsed.args.from as string;
+		const to = parsed.args.to as string;
+		return {
+			fields: {
+				event: 'deposited',
+				from: hexToRonin(from),
+				to: hexToRonin(to),
+				...tokenFields,
+			},
+			parties: [from.toLowerCase(), to.toLowerCase()],
+		};
+	}
+
+	const owner = parsed.args.owner as string;
+	return {
+		fields: {
+			event: 'withdrawalRequested',
+			withdrawalId: (parsed.args.withdrawalId as bigint).toString(),
+			owner: hexToRonin(owner),
+			...tokenFields,
+		},
+		parties: [owner.toLowerCase()],
+	};
+}
+
+/**
+ * Decode a Swap or Sync log of a Katana pair
+ * @param log Pair log
+ * @param pair Pair the log was emitted by
+ * @returns Decoded event
+ */
+export function decodeKatanaLog(log: ethers.Log, pair: KatanaPair): DecodedProtocolEvent {
+	const parsed = parseLog(KATANA_PAIR_INTERFACE, log);
+	const { token0, token1 } = pair;
+
+	if (parsed.name === 'Sync') {
+		return {
+			fields: {
+				event: 'sync',
+				pair: pair.name,
+				[`reserve${token0.symbol}`]: formatUnits(parsed.args.reserve0, token0.decimals),
+				[`reserve${token1.symbol}`]: formatUnits(parsed.args.reserve1, token1.decimals),
+			},
+			parties: [],
+		};
+	}
+
+	const amount0In = parsed.args.amount0In as bigint;
+	const amount1In = parsed.args.amount1In as bigint;
+	const amount0Out = parsed.args.amount0Out as bigint;
+	const amount1Out = parsed.args.amount1Out as bigint;
+	const zeroForOne = amount0In > BigInt(0);
+	const [tokenIn, tokenOut] = zeroForOne ? [token0, token1] : [token1, token0];
+	const sender = parsed.args.sender as string;
+	const to = parsed.args.to as string;
+
+	return {
+		fields: {
+			event: 'swap',
+			pair: pair.name,
+			sender: hexToRonin(sender),
+			to: hexToRonin(to),
+			tokenIn: tokenIn.symbol,
+			amountIn: formatUnits(zeroForOne ? amount0In : amount1In, tokenIn.decimals),
+			tokenOut: tokenOut.symbol,
+			amountOut: formatUnits(zeroForOne ? amount1Out : amount0Out, tokenOut.decimals),
+		},
+		parties: [sender.toLowerCase(), to.toLowerCase()],
+	};
+}
@@ -0,0 +1,116 @@
+/**
+ * Reorg Tracking Utilities
+ * Remember which blocks a trigger emitted events for and detect when they get orphaned
+ */
+
+/**
+ * Block a trigger emitted events for
+ */
+export interface EmittedBlock {
+	hash: string;
+	txHashes: string[];
+}
+
+/**
+ * Reorg state persisted in workflow static data
+ */
+export interface ReorgState {
+	emittedBlocks?: Record<string, EmittedBlock>;
+}
+
+/**
+ * Emitted block that is no longer part of the canonical chain
+ */
+export interface ReorgedBlock extends EmittedBlock {
+	blockNumber: number;
+	newHash: string | null;
+}
+
+/**
+ * Record the block hash and transactions of an emission
+ * @param state Persisted reorg state (mutated)
+ * @param blockNumber Block height
+ * @param blockHash Block hash at emission time
+ * @param txHashes Transaction hashes emitted for the block
+ */
+export function recordEmission(
+	state: ReorgState,
+	blockNumber: number,
+	blockHash: string,
+	txHashes: string[]
+): void {
+	if (!state.emittedBlocks) {
+		state.emittedBlocks = {};
+	}
+
+	const existing = state.emittedBlocks[blockNumber];
+	const merged = existing && existing.hash === blockHash
+		? [...existing.txHashes, ...txHashes]
+		: txHashes;
+
+	state.emittedBlocks[blockNumber] = {
+		hash: blockHash,
+		txHashes: Array.from(new Set(merged)),
+	};
+}
+
+/**
+ * Get tracked block heights in ascending order
+ * @param state Persisted reorg state
+ * @returns Block heights with recorded emissions
+ */
+export function getTrackedBlocks(state: ReorgState): number[] {
+	return Object.keys(state.emittedBlocks || {})
+		.map(Number)
+		.sort((a, b) => a - b);
+}
+
+/**
+ * Stop tracking blocks older than the given height
+ * @param state Persisted reorg state (mutated)
+ * @param minBlock Lowest block height to keep
+ */
+export function pruneEmissions(state: ReorgState, minBlock: number): void {
+	for (const blockNumber of getTrackedBlocks(state)) {
+		if (blockNumber < minBlock) {
+			delete state.emittedBlocks![blockNumber];
+		}
+	}
+}
+
+/**
+ * Compare tracked hashes with the current chain and remove orphaned emissions
+ * Every tracked block at or above the lowest changed height is treated as reorged,
+ * since the blocks built on top of an orphaned block are orphaned too.
+ * @param state Persisted reorg state (mutated)
+ * @param currentHashes Current canonical hash per tracked height (null if missing)
+ * @returns Reorged blocks in ascending order
+ */
+export function takeReorgedBlocks(
+	state: ReorgState,
+	currentHashes: Map<number, string | null>
+): ReorgedBlock[] {
+	const tracked = getTrackedBlocks(state);
+	const firstChanged = tracked.find((blockNumber) => {
+		if (!currentHashes.has(blockNumber)) return false;
+		return currentHashes.get(blockNumber) !== state.emittedBlocks![blockNumber].hash;
+	});
+
+	if (firstChanged === undefined) {
+		return [];
+	}
+
+	const reorged: ReorgedBlock[] = [];
+	for (const blockNumber of tracked) {
+		if (blockNumber < firstChanged) continue;
+
+		reorged.push({
+			...state.emittedBlocks![blockNumber],
+			blockNumber,
+			newHash: currentHashes.get(blockNumber) ?? null,
+		});
+		delete state.emittedBlocks![blockNumber];
+	}
+
+	return reorged;
+}
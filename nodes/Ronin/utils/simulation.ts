@@ -0,0 +1,303 @@
+/**
+ * Simulation Utilities
+ * Decode revert reasons and expected balance changes of simulated transactions
+ */
+
+import { ethers } from 'ethers';
+import { hexToRonin } from './addressUtils';
+
+const ERROR_SELECTOR = '0x08c379a0';
+const PANIC_SELECTOR = '0x4e487b71';
+const TRANSFER_SELECTOR = '0xa9059cbb';
+const TRANSFER_FROM_SELECTOR = '0x23b872dd';
+const APPROVE_SELECTOR = '0x095ea7b3';
+const INCREASE_ALLOWANCE_SELECTOR = '0x39509351';
+const SET_APPROVAL_FOR_ALL_SELECTOR = '0xa22cb465';
+
+/**
+ * Solidity panic codes
+ */
+const PANIC_REASONS: Record<number, string> = {
+	0x01: 'assertion failed',
+	0x11: 'arithmetic overflow or underflow',
+	0x12: 'division or modulo by zero',
+	0x21: 'invalid enum value',
+	0x22: 'invalid storage byte array',
+	0x31: 'pop on empty array',
+	0x32: 'array index out of bounds',
+	0x41: 'out of memory',
+	0x51: 'call to invalid internal function',
+};
+
+/**
+ * Expected balance change of one account
+ */
+export interface BalanceDelta {
+	/** Account (ronin: format) */
+	address: string;
+	/** 'RON' or the token contract address */
+	asset: string;
+	symbol: string | null;
+	/** Signed change in human units (+1/-1 for NFTs) */
+	delta: string;
+	/** Signed change in the smallest unit */
+	deltaRaw: string;
+	/** NFT token ID, for ERC721 transfers */
+	tokenId?: string;
+}
+
+/**
+ * Token movement encoded in a transfer or transferFrom call
+ */
+export interface TokenTransfer {
+	token: string;
+	from: string;
+	to: string;
+	/** Amount for ERC20 tokens, token ID for NFTs */
+	amount: bigint;
+	symbol: string | null;
+	/** Token decimals, or null for NFTs */
+	decimals: number | null;
+}
+
+/**
+ * Result of simulating a transaction
+ */
+export interface SimulationResult {
+	/** Null when the call relies on an approval simulated before it */
+	success: boolean | null;
+	/** Whether the call could only be checked once an approval simulated before it is sent */
+	requiresApproval: boolean;
+	revertReason: string | null;
+	blockTag: string;
+	from: string;
+	to: string | null;
+	/** Value sent in RON */
+	value: string;
+	data: string;
+	gasEstimate: string | null;
+	/** Gas price in gwei */
+	gasPrice: string;
+	/** Expected fee in RON */
+	gasCost: string | null;
+	returnData: string | null;
+	/** Null when the call moves assets its calldata does not show, such as swaps and purchases */
+	balanceDeltas: BalanceDelta[] | null;
+	/** Whether balanceDeltas could be derived from the calldata */
+	balanceDeltasDerivable: boolean;
+}
+
+/**
+ * Parse a simulation block input
+ * @param input 'latest', another block tag, or a block number
+ * @returns Block tag
+ */
+export function parseBlockTag(input: string): ethers.BlockTag {
+	const value = (input || 'latest').trim();
+	if (['latest', 'pending', 'safe', 'finalized', 'earliest'].includes(value)) {
+		return value;
+	}
+	if (/^\d+$/.test(value)) {
+		return Number(value);
+	}
+	if (/^0x[0-9a-fA-F]+$/.test(value)) {
+		return Number(BigInt(value));
+	}
+	throw new Error(`Invalid simulation block: ${input}`);
+}
+
+/**
+ * Convert a block tag to its JSON-RPC form
+ * @param blockTag Block tag
+ * @returns Tag name or hex block number
+ */
+export function toRpcBlockTag(blockTag: ethers.BlockTag): string {
+	return typeof blockTag === 'string' ? blockTag : ethers.toQuantity(blockTag);
+}
+
+/**
+ * Decode revert data returned by a failed call
+ * @param data Revert data (0x)
+ * @returns Human-readable reason, or null if there is no data
+ */
+export function decodeRevertReason(data: string): string | null {
+	if (!data || data === '0x') {
+		return null;
+	}
+
+	const selector = data.slice(0, 10).toLowerCase();
+	const coder = ethers.AbiCoder.defaultAbiCoder();
+
+	try {
+		if (selector === ERROR_SELECTOR) {
+			return coder.decode(['string'], ethers.dataSlice(data, 4))[0] as string;
+		}
+		if (selector === PANIC_SELECTOR) {
+			const code = Number(coder.decode(['uint256'], ethers.dataSlice(data, 4))[0]);
+			return `Panic: ${PANIC_REASONS[code] ?? `code 0x${code.toString(16)}`}`;
+		}
+	} catch {
+		// Malformed payload, fall through to the raw selector
+	}
+
+	return `Custom error ${selector}`;
+}
+
+/**
+ * Find the revert data of an ethers call error
+ */
+function findRevertData(error: unknown): string | null {
+	let current = error as { data?: unknown; error?: unknown; info?: { error?: unknown } } | undefined;
+	for (let depth = 0; current && depth < 5; depth++) {
+		if (typeof current.data === 'string' && current.data.startsWith('0x')) {
+			return current.data;
+		}
+		current = (current.info?.error ?? current.error) as typeof current;
+	}
+	return null;
+}
+
+/**
+ * Get the revert reason of a failed eth_call
+ * @param error Error thrown by the provider
+ * @returns Decoded reason, falling back to the error message
+ */
+export function getRevertReason(error: unknown): string {
+	const data = findRevertData(error);
+	const decoded = data ? decodeRevertReason(data) : null;
+	if (decoded) {
+		return decoded;
+	}
+	const { shortMessage, message } = error as { shortMessage?: string; message?: string };
+	return shortMessage || message || 'execution reverted';
+}
+
+/**
+ * Decode a transfer(to, amount) or transferFrom(from, to, amount) call
+ * @param data Calldata
+ * @param sender Transaction sender, the source of a plain transfer
+ * @returns Source, destination and amount, or null for other calls
+ */
+export function decodeTransferCall(
+	data: string,
+	sender: string
+): { from: string; to: string; amount: bigint } | null {
+	const selector = data.slice(0, 10).toLowerCase();
+	const coder = ethers.AbiCoder.defaultAbiCoder();
+
+	try {
+		if (selector === TRANSFER_SELECTOR) {
+			const [to, amount] = coder.decode(['address', 'uint256'], ethers.dataSlice(data, 4));
+			return { from: sender, to, amount };
+		}
+		if (selector === TRANSFER_FROM_SELECTOR) {
+			const [from, to, amount] = coder.decode(['address', 'address', 'uint256'], ethers.dataSlice(data, 4));
+			return { from, to, amount };
+		}
+	} catch {
+		return null;
+	}
+
+	return null;
+}
+
+/**
+ * Decode the spender granted by an approve, increaseAllowance or setApprovalForAll call
+ * @param data Calldata
+ * @returns Spender or operator (lowercase 0x), or null for revocations and other calls
+ */
+export function decodeApprovalSpender(data: string): string | null {
+	const selector = data.slice(0, 10).toLowerCase();
+	const coder = ethers.AbiCoder.defaultAbiCoder();
+
+	try {
+		if (selector === APPROVE_SELECTOR || selector === INCREASE_ALLOWANCE_SELECTOR) {
+			const [spender, amount] = coder.decode(['address', 'uint256'], ethers.dataSlice(data, 4));
+			return amount > BigInt(0) && spender !== ethers.ZeroAddress ? spender.toLowerCase() : null;
+		}
+		if (selector === SET_APPROVAL_FOR_ALL_SELECTOR) {
+			const [operator, approved] = coder.decode(['address', 'bool'], ethers.dataSlice(data, 4));
+			return approved ? operator.toLowerCase() : null;
+		}
+	} catch {
+		return null;
+	}
+
+	return null;
+}
+
+/**
+ * Check whether the balance changes of a call can be derived from its calldata
+ * Plain RON transfers, decoded token transfers and approvals move nothing else;
+ * any other contract call may move assets that only its execution shows.
+ * @param data Calldata
+ * @param transfer Token transfer decoded from the calldata
+ */
+export function canDeriveBalanceDeltas(data: string, transfer: TokenTransfer | null): boolean {
+	const selector = data.slice(0, 10).toLowerCase();
+	return data === '0x'
+		|| transfer !== null
+		|| [APPROVE_SELECTOR, INCREASE_ALLOWANCE_SELECTOR, SET_APPROVAL_FOR_ALL_SELECTOR].includes(selector);
+}
+
+/**
+ * Compute the expected balance changes of a successful transaction
+ * @param params Sender, recipient, value and fee in wei, and the token transfer it encodes
+ * @returns Non-zero deltas per account and asset
+ */
+export function computeBalanceDeltas(params: {
+	from: string;
+	to: string | null;
+	value: bigint;
+	gasCost: bigint;
+	transfer?: TokenTransfer | null;
+}): BalanceDelta[] {
+	const deltas = new Map<string, BalanceDelta & { raw: bigint; decimals: number }>();
+	const add = (address: string, asset: string, symbol: string | null, decimals: number, amount: bigint) => {
+		const key = `${address.toLowerCase()}:${asset.toLowerCase()}`;
+		const entry = deltas.get(key) ?? {
+			address: hexToRonin(address),
+			asset,
+			symbol,
+			delta: '0',
+			deltaRaw: '0',
+			raw: BigInt(0),
+			decimals,
+		};
+		entry.raw += amount;
+		deltas.set(key, entry);
+	};
+
+	add(params.from, 'RON', 'RON', 18, -(params.value + params.gasCost));
+	if (params.to && params.value > BigInt(0)) {
+		add(params.to, 'RON', 'RON', 18, params.value);
+	}
+
+	const nftDeltas: BalanceDelta[] = [];
+	const transfer = params.transfer;
+	if (transfer && transfer.decimals !== null) {
+		add(transfer.from, transfer.token, transfer.symbol, transfer.decimals, -transfer.amount);
+		add(transfer.to, transfer.token, transfer.symbol, transfer.decimals, transfer.amount);
+	} else if (transfer && transfer.from.toLowerCase() !== transfer.to.toLowerCase()) {
+		for (const [address, delta] of [[transfer.from, '-1'], [transfer.to, '1']]) {
+			nftDeltas.push({
+				address: hexToRonin(address),
+				asset: transfer.token,
+				symbol: transfer.symbol,
+				delta,
+				deltaRaw: delta,
+				tokenId: transfer.amount.toString(),
+			});
+		}
+	}
+
+	const fungibleDeltas = [...deltas.values()]
+		.filter((entry) => entry.raw !== BigInt(0))
+		.map(({ raw, decimals, ...entry }) => ({
+			...entry,
+			delta: ethers.formatUnits(raw, decimals),
+			deltaRaw: raw.toString(),
+		}));
+
+	return [...fungibleDeltas, ...nftDeltas];
+}
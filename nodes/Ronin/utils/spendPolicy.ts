@@ -0,0 +1,394 @@
+/**
+ * Spend Policy Utilities
+ * Per-transaction and rolling 24h caps, recipient lists and blocked methods checked before signing
+ */
+
+import { ethers } from 'ethers';
+import { DISPERSE_ABI } from '../constants/contracts';
+import { getToken } from '../constants/tokens';
+import { isValidAddress, normalizeAddress } from './addressUtils';
+import { getSelector, toSelector } from './abiUtils';
+import { parseUnits } from './unitConverter';
+
+/**
+ * Asset key of native RON in policies and spends
+ */
+export const NATIVE_ASSET = 'RON';
+
+/**
+ * Length of the rolling spend window in milliseconds
+ */
+export const SPEND_WINDOW = 24 * 60 * 60 * 1000;
+
+const TRANSFER_SELECTOR = '0xa9059cbb';
+const TRANSFER_FROM_SELECTOR = '0x23b872dd';
+const SAFE_TRANSFER_FROM_SELECTORS = ['0x42842e0e', '0xb88d4fde'];
+const APPROVE_SELECTOR = '0x095ea7b3';
+const INCREASE_ALLOWANCE_SELECTOR = '0x39509351';
+const SET_APPROVAL_FOR_ALL_SELECTOR = '0xa22cb465';
+
+/**
+ * Caps of one asset, in human units (NFT caps count tokens)
+ */
+export interface AssetLimit {
+	maxPerTransaction?: string;
+	maxPer24h?: string;
+}
+
+/**
+ * Spend policy, as configured on the Ronin Network credential
+ */
+export interface SpendPolicy {
+	/** Caps per asset: RON, a token symbol or a token/collection address (lowercase 0x once parsed) */
+	limits: Record<string, AssetLimit>;
+	/** Only these recipients may receive funds or be called (lowercase 0x), when not empty */
+	allowedRecipients: string[];
+	/** Recipients that may never receive funds or be called (lowercase 0x) */
+	blockedRecipients: string[];
+	/** Blocked 4-byte method selectors */
+	blockedMethods: string[];
+	/** Whether write operations must be confirmed on the node */
+	requireConfirmation: boolean;
+}
+
+/**
+ * Value leaving the wallet in a transaction
+ */
+export interface Spend {
+	/** RON, or the token/collection address (lowercase 0x) */
+	asset: string;
+	/** Amount in the asset's smallest unit; 1 per NFT */
+	amount: bigint;
+	recipient: string;
+	/** 'transferFrom' is shared by ERC20 and ERC721, so its kind is resolved by the caller */
+	kind: 'native' | 'token' | 'nft' | 'tokenOrNft';
+}
+
+/**
+ * Policy rule a transaction breaks
+ */
+export type PolicyRule =
+	| 'maxPerTransaction'
+	| 'maxPer24h'
+	| 'recipientNotAllowed'
+	| 'recipientBlocked'
+	| 'methodBlocked'
+	| 'confirmationRequired';
+
+/**
+ * Policy violation
+ */
+export interface PolicyViolation {
+	rule: PolicyRule;
+	message: string;
+	asset?: string;
+	recipient?: string;
+	selector?: string;
+	/** Cap, amount and amount already spent in the window, in the asset's smallest unit */
+	limit?: string;
+	amount?: string;
+	spentInWindow?: string;
+}
+
+/**
+ * Error thrown before signing a transaction that breaks the spend policy
+ */
+export class PolicyViolationError extends Error {
+	readonly violations: PolicyViolation[];
+
+	constructor(violations: PolicyViolation[]) {
+		super(`Spend policy violation: ${violations.map((violation) => violation.message).join('; ')}`);
+		this.name = 'PolicyViolationError';
+		this.violations = violations;
+	}
+}
+
+/**
+ * Spends recorded in the rolling window, per sender and asset
+ */
+export type SpendLedger = Record<string, Array<{ at: number; amount: string }>>;
+
+const toAddressList = (value: unknown, field: string): string[] => {
+	if (value === undefined) {
+		return [];
+	}
+	if (!Array.isArray(value)) {
+		throw new Error(`Invalid spend policy: ${field} must be an array of addresses`);
+	}
+	return value.map((entry) => {
+		if (!isValidAddress(String(entry))) {
+			throw new Error(`Invalid spend policy: ${field} contains an invalid address "${entry}"`);
+		}
+		return normalizeAddress(String(entry)).toLowerCase();
+	});
+};
+
+/**
+ * Parse the spend policy of a credential
+ * @param input Policy JSON text or object, empty for no policy
+ * @param network Network token symbols are resolved on
+ * @returns Policy, or null if none is configured
+ */
+export function parseSpendPolicy(input: unknown, network: string): SpendPolicy | null {
+	if (input === undefined || input === null || (typeof input === 'string' && input.trim() === '')) {
+		return null;
+	}
+
+	let raw: Record<string, unknown>;
+	try {
+		raw = typeof input === 'string' ? JSON.parse(input) : input as Record<string, unknown>;
+	} catch {
+		throw new Error('Invalid spend policy: not valid JSON');
+	}
+	if (typeof raw !== 'object' || raw === null || Array.isArray(raw)) {
+		throw new Error('Invalid spend policy: expected a JSON object');
+	}
+
+	const limits: Record<string, AssetLimit> = {};
+	for (const [key, limit] of Object.entries((raw.limits ?? {}) as Record<string, AssetLimit>)) {
+		let asset: string;
+		if (key.toUpperCase() === NATIVE_ASSET) {
+			asset = NATIVE_ASSET;
+		} else if (isValidAddress(key)) {
+			asset = normalizeAddress(key).toLowerCase();
+		} else {
+			const token = getToken(network === 'testnet' ? 'testnet' : 'mainnet', key.toUpperCase());
+			if (!token) {
+				throw new Error(`Invalid spend policy: unknown token "${key}"`);
+			}
+			asset = token.address.toLowerCase();
+		}
+
+		for (const field of ['maxPerTransaction', 'maxPer24h'] as const) {
+			const value = limit?.[field];
+			if (value !== undefined && (isNaN(Number(value)) || Number(value) < 0)) {
+				throw new Error(`Invalid spend policy: ${key}.${field} must be a non-negative amount`);
+			}
+		}
+		limits[asset] = {
+			maxPerTransaction: limit?.maxPerTransaction !== undefined ? String(limit.maxPerTransaction) : undefined,
+			maxPer24h: limit?.maxPer24h !== undefined ? String(limit.maxPer24h) : undefined,
+		};
+	}
+
+	const blockedMethods = raw.blockedMethods ?? [];
+	if (!Array.isArray(blockedMethods)) {
+		throw new Error('Invalid spend policy: blockedMethods must be an array of selectors or signatures');
+	}
+
+	return {
+		limits,
+		allowedRecipients: toAddressList(raw.allowedRecipients, 'allowedRecipients'),
+		blockedRecipients: toAddressList(raw.blockedRecipients, 'blockedRecipients'),
+		blockedMethods: blockedMethods.map((method) => toSelector(String(method))),
+		requireConfirmation: raw.requireConfirmation === true,
+	};
+}
+
+/**
+ * Get the value a transaction moves out of the wallet
+ * Native value, ERC20/ERC721 transfers and Disperse batches are decoded; other
+ * contract calls only spend their RON value. Approvals are checked against their
+ * spender, since it can move the approved assets later.
+ * @param tx Transaction request fields
+ * @returns Spends, and the recipients the policy lists are checked against
+ */
+export function getTransactionSpends(tx: {
+	to?: string | null;
+	value?: bigint | null;
+	data?: string | null;
+}): { spends: Spend[]; recipients: string[] } {
+	const to = tx.to ? tx.to.toLowerCase() : null;
+	const data = tx.data || '0x';
+	const spends: Spend[] = [];
+	const value = tx.value ?? BigInt(0);
+	const coder = ethers.AbiCoder.defaultAbiCoder();
+	const selector = getSelector(data);
+
+	const decoded: Spend[] = [];
+	// Spender of an approval, null for a revocation
+	let spender: string | null | undefined;
+	if (to && selector) {
+		const args = ethers.dataSlice(data, 4);
+		try {
+			if (selector === APPROVE_SELECTOR || selector === INCREASE_ALLOWANCE_SELECTOR) {
+				const [approved, amount] = coder.decode(['address', 'uint256'], args);
+				spender = amount > BigInt(0) && approved !== ethers.ZeroAddress ? approved.toLowerCase() : null;
+			} else if (selector === SET_APPROVAL_FOR_ALL_SELECTOR) {
+				const [operator, approved] = coder.decode(['address', 'bool'], args);
+				spender = approved ? operator.toLowerCase() : null;
+			} else if (selector === TRANSFER_SELECTOR) {
+				const [recipient, amount] = coder.decode(['address', 'uint256'], args);
+				decoded.push({ asset: to, amount, recipient: recipient.toLowerCase(), kind: 'token' });
+			} else if (selector === TRANSFER_FROM_SELECTOR) {
+				const [, recipient, amount] = coder.decode(['address', 'address', 'uint256'], args);
+				decoded.push({ asset: to, amount, recipient: recipient.toLowerCase(), kind: 'tokenOrNft' });
+			} else if (SAFE_TRANSFER_FROM_SELECTORS.includes(selector)) {
+				const [, recipient] = coder.decode(['address', 'address', 'uint256'], ethers.dataSlice(args, 0, 96));
+				decoded.push({ asset: to, amount: BigInt(1), recipient: recipient.toLowerCase(), kind: 'nft' });
+			} else {
+				const disperse = new ethers.Interface(DISPERSE_ABI).parseTransaction({ data, value });
+				if (disperse?.name === 'disperseEther') {
+					const [recipients, values] = disperse.args as unknown as [string[], bigint[]];
+					recipients.forEach((recipient, i) => decoded.push({
+						asset: NATIVE_ASSET,
+						amount: values[i],
+						recipient: recipient.toLowerCase(),
+						kind: 'native',
+					}));
+				} else if (disperse?.name === 'disperseToken') {
+					const [token, recipients, values] = disperse.args as unknown as [string, string[], bigint[]];
+					recipients.forEach((recipient, i) => decoded.push({
+						asset: token.toLowerCase(),
+						amount: values[i],
+						recipient: recipient.toLowerCase(),
+						kind: 'token',
+					}));
+				}
+			}
+		} catch {
+			// Not a transfer
+		}
+	}
+
+	const isDisperseEther = decoded.some((spend) => spend.kind === 'native');
+	if (value > BigInt(0) && to && !isDisperseEther) {
+		spends.push({ asset: NATIVE_ASSET, amount: value, recipient: to, kind: 'native' });
+	}
+	spends.push(...decoded);
+
+	// Transfers are checked against their recipients, approvals against their spender and
+	// any other call against the contract. Revocations only take rights away, so they pass.
+	let recipients: string[];
+	if (spender !== undefined) {
+		recipients = [spender, value > BigInt(0) ? to : null].filter((recipient): recipient is string => !!recipient);
+	} else if (decoded.length > 0) {
+		recipients = [...new Set(decoded.map((spend) => spend.recipient))];
+	} else {
+		recipients = to ? [to] : [];
+	}
+
+	return { spends, recipients };
+}
+
+/**
+ * Get the ledger key of a sender's spends of an asset
+ * @param account Sender account (chain and address)
+ * @param asset Asset key
+ * @returns Ledger key
+ */
+export function getLedgerKey(account: string, asset: string): string {
+	return `${account.toLowerCase()}:${asset.toLowerCase()}`;
+}
+
+/**
+ * Check a transaction against a spend policy
+ * @param policy Spend policy
+ * @param params Spends and recipients of the transaction, its method selector, whether it was
+ * confirmed, the sender account, the ledger, the current time, and the decimals of capped assets
+ * @returns Violations, empty if the transaction may be signed
+ */
+export function checkSpendPolicy(
+	policy: SpendPolicy,
+	params: {
+		spends: Spend[];
+		recipients: string[];
+		selector: string | null;
+		confirmed: boolean;
+		account: string;
+		ledger: SpendLedger;
+		now: number;
+		decimals: Record<string, number>;
+	}
+): PolicyViolation[] {
+	const violations: PolicyViolation[] = [];
+
+	if (policy.requireConfirmation && !params.confirmed) {
+		violations.push({
+			rule: 'confirmationRequired',
+			message: 'the spend policy requires Confirm Transactions to be enabled on the node',
+		});
+	}
+
+	if (params.selector && policy.blockedMethods.includes(params.selector)) {
+		violations.push({
+			rule: 'methodBlocked',
+			message: `method ${params.selector} is blocked`,
+			selector: params.selector,
+		});
+	}
+
+	for (const recipient of params.recipients) {
+		if (policy.blockedRecipients.includes(recipient)) {
+			violations.push({ rule: 'recipientBlocked', message: `recipient ${recipient} is blocked`, recipient });
+		} else if (policy.allowedRecipients.length > 0 && !policy.allowedRecipients.includes(recipient)) {
+			violations.push({ rule: 'recipientNotAllowed', message: `recipient ${recipient} is not on the allowlist`, recipient });
+		}
+	}
+
+	const totals = new Map<string, bigint>();
+	for (const spend of params.spends) {
+		totals.set(spend.asset, (totals.get(spend.asset) ?? BigInt(0)) + spend.amount);
+	}
+
+	for (const [asset, amount] of totals) {
+		const limit = policy.limits[asset];
+		if (!limit) {
+			continue;
+		}
+		const decimals = params.decimals[asset] ?? 18;
+
+		if (limit.maxPerTransaction !== undefined) {
+			const cap = parseUnits(limit.maxPerTransaction, decimals);
+			if (amount > cap) {
+				violations.push({
+					rule: 'maxPerTransaction',
+					message: `${asset} amount ${amount} exceeds the per-transaction cap of ${cap}`,
+					asset,
+					limit: cap.toString(),
+					amount: amount.toString(),
+				});
+			}
+		}
+
+		if (limit.maxPer24h !== undefined) {
+			const cap = parseUnits(limit.maxPer24h, decimals);
+			const spent = (params.ledger[getLedgerKey(params.account, asset)] ?? [])
+				.filter((entry) => params.now - entry.at < SPEND_WINDOW)
+				.reduce((sum, entry) => sum + BigInt(entry.amount), BigInt(0));
+			if (spent + amount > cap) {
+				violations.push({
+					rule: 'maxPer24h',
+					message: `${asset} amount ${amount} plus ${spent} spent in the last 24h exceeds the 24h cap of ${cap}`,
+					asset,
+					limit: cap.toString(),
+					amount: amount.toString(),
+					spentInWindow: spent.toString(),
+				});
+			}
+		}
+	}
+
+	return violations;
+}
+
+/**
+ * Record sent spends in the ledger and drop entries outside the window
+ * @param ledger Ledger, updated in place
+ * @param account Sender account
+ * @param spends Spends of the sent transaction
+ * @param now Current time in milliseconds
+ */
+export function recordSpends(ledger: SpendLedger, account: string, spends: Spend[], now: number): void {
+	for (const spend of spends) {
+		const key = getLedgerKey(account, spend.asset);
+		ledger[key] = [...(ledger[key] ?? []), { at: now, amount: spend.amount.toString() }];
+	}
+
+	for (const key of Object.keys(ledger)) {
+		ledger[key] = ledger[key].filter((entry) => now - entry.at < SPEND_WINDOW);
+		if (ledger[key].length === 0) {
+			delete ledger[key];
+		}
+	}
+}
@@ -0,0 +1,311 @@
+/**
+ * Transaction Explainer Utilities
+ * Decode a transaction and its logs with the ABIs of known contracts, and list the
+ * RON, token and NFT movements it caused
+ */
+
+import { ethers } from 'ethers';
+import {
+	AXIE_ABI,
+	DISPERSE_ABI,
+	ERC20_ABI,
+	ERC721_ABI,
+	KATANA_FACTORY_ABI,
+	KATANA_PAIR_ABI,
+	KATANA_ROUTER_ABI,
+	MARKETPLACE_ABI,
+	MULTICALL3_ABI,
+	NFT_CONTRACTS,
+	RON_STAKING_ABI,
+	getContracts,
+} from '../constants/contracts';
+import { getAllTokens, getTokenByAddress } from '../constants/tokens';
+import { BRIDGE_ABI } from '../transport/bridgeClient';
+import { hexToRonin } from './addressUtils';
+import { TRANSFER_TOPIC, topicToAddress } from './logScanner';
+import { toPlainValue } from './multicall';
+import { formatUnits, weiToRon } from './unitConverter';
+
+/**
+ * Known contract with its ABI
+ */
+export interface KnownContract {
+	name: string;
+	iface: ethers.Interface;
+}
+
+/**
+ * Decoded function call
+ */
+export interface ExplainedCall {
+	name: string;
+	signature: string;
+	selector: string;
+	/** Arguments by name (arg0, arg1... when unnamed), bigints as strings */
+	args: Record<string, unknown>;
+}
+
+/**
+ * Decoded log
+ */
+export interface ExplainedEvent {
+	logIndex: number;
+	address: string;
+	/** Name of the known contract that emitted the log */
+	contract: string | null;
+	/** Event name, or null if no ABI matched */
+	event: string | null;
+	signature: string | null;
+	args: Record<string, unknown>;
+	topics?: string[];
+	data?: string;
+}
+
+/**
+ * RON, token or NFT moved by a transaction
+ */
+export interface AssetMovement {
+	type: 'RON' | 'ERC20' | 'ERC721';
+	/** Token or collection contract, null for RON */
+	token: string | null;
+	symbol: string | null;
+	from: string;
+	to: string;
+	/** Amount in token units, null for NFTs and unknown tokens */
+	amount: string | null;
+	amountRaw: string | null;
+	tokenId: string | null;
+}
+
+/**
+ * Explained transaction
+ */
+export interface ExplainedTransaction {
+	hash: string;
+	status: 'success' | 'failed' | 'pending';
+	from: string;
+	to: string | null;
+	/** Name of the known contract called */
+	contract: string | null;
+	value: string;
+	method: ExplainedCall | null;
+	events: ExplainedEvent[];
+	movements: AssetMovement[];
+}
+
+const ERC20_INTERFACE = new ethers.Interface(ERC20_ABI);
+const ERC721_INTERFACE = new ethers.Interface(ERC721_ABI);
+
+/**
+ * Interfaces tried for contracts that are not in the registry, before the token standards
+ */
+const GENERIC_INTERFACES = [
+	KATANA_ROUTER_ABI,
+	KATANA_PAIR_ABI,
+	RON_STAKING_ABI,
+	BRIDGE_ABI,
+	MARKETPLACE_ABI,
+	DISPERSE_ABI,
+].map((abi) => new ethers.Interface(abi));
+
+/**
+ * Build the ABI registry of the known contracts and tokens of a network
+ * @param network Network name (mainnet or testnet)
+ * @returns Known contracts by lowercase address
+ */
+export function buildAbiRegistry(network: string): Map<string, KnownContract> {
+	const contracts = getContracts(network);
+	const registry = new Map<string, KnownContract>();
+	const add = (address: string, name: string, abi: ethers.InterfaceAbi) => {
+		if (address && address !== ethers.ZeroAddress) {
+			registry.set(address.toLowerCase(), { name, iface: new ethers.Interface(abi) });
+		}
+	};
+
+	for (const token of getAllTokens(network)) {
+		if (!token.isNative) {
+			add(token.address, token.name, ERC20_ABI);
+		}
+	}
+	for (const collection of Object.values(NFT_CONTRACTS)) {
+		add(network === 'testnet' ? collection.testnet : collection.mainnet, collection.name, ERC721_ABI);
+	}
+	add(contracts.AXIE_CONTRACT, 'Axie Infinity', AXIE_ABI);
+	add(contracts.KATANA_ROUTER, 'Katana Router', KATANA_ROUTER_ABI);
+	add(contracts.KATANA_FACTORY, 'Katana Factory', KATANA_FACTORY_ABI);
+	add(contracts.RON_STAKING, 'RON Staking', RON_STAKING_ABI);
+	add(contracts.BRIDGE_GATEWAY, 'Ronin Bridge', BRIDGE_ABI);
+	add(contracts.MARKETPLACE, 'Mavis Market', MARKETPLACE_ABI);
+	add(contracts.MARKETPLACE_V2, 'Mavis Market', MARKETPLACE_ABI);
+	add(contracts.MULTICALL3, 'Multicall3', MULTICALL3_ABI);
+
+	return registry;
+}
+
+const namedArgs = (inputs: readonly ethers.ParamType[], args: ethers.Result): Record<string, unknown> =>
+	Object.fromEntries(inputs.map((input, i) => [input.name || `arg${i}`, toPlainValue(args[i])]));
+
+/**
+ * Decode calldata with the first interface that knows its selector
+ * @param data Calldata
+ * @param value RON value sent
+ * @param interfaces Candidate interfaces, in order of preference
+ * @returns Decoded call, or null
+ */
+export function explainCall(data: string, value: bigint, interfaces: ethers.Interface[]): ExplainedCall | null {
+	if (!data || data.length < 10) {
+		return null;
+	}
+
+	for (const iface of interfaces) {
+		try {
+			const parsed = iface.parseTransaction({ data, value });
+			if (parsed) {
+				return {
+					name: parsed.name,
+					signature: parsed.signature,
+					selector: parsed.selector,
+					args: namedArgs(parsed.fragment.inputs, parsed.args),
+				};
+			}
+		} catch {
+			// Selector matched but the arguments did not, try the next interface
+		}
+	}
+
+	return null;
+}
+
+/**
+ * Decode a log with the first interface that knows its topic
+ * @param log Log
+ * @param interfaces Candidate interfaces, in order of preference
+ * @returns Decoded event, with the raw topics and data when no ABI matched
+ */
+export function explainLog(
+	log: { index: number; address: string; topics: readonly string[]; data: string },
+	interfaces: ethers.Interface[]
+): Omit<ExplainedEvent, 'contract'> {
+	// ERC721 events index the token id, so they have one more topic than their ERC20 twins
+	const standards = log.topics.length === 4 ? [ERC721_INTERFACE, ERC20_INTERFACE] : [ERC20_INTERFACE, ERC721_INTERFACE];
+	const candidates = log.topics[0] === TRANSFER_TOPIC ? [standards[0]] : [...interfaces, ...standards];
+
+	for (const iface of candidates) {
+		try {
+			const parsed = iface.parseLog({ topics: [...log.topics], data: log.data });
+			if (parsed) {
+				return {
+					logIndex: log.index,
+					address: log.address.toLowerCase(),
+					event: parsed.name,
+					signature: parsed.signature,
+					args: namedArgs(parsed.fragment.inputs, parsed.args),
+				};
+			}
+		} catch {
+			// Topic matched but the data did not, try the next interface
+		}
+	}
+
+	return {
+		logIndex: log.index,
+		address: log.address.toLowerCase(),
+		event: null,
+		signature: null,
+		args: {},
+		topics: [...log.topics],
+		data: log.data,
+	};
+}
+
+/**
+ * Explain a transaction: its method, its decoded logs and the assets it moved
+ * @param tx Transaction
+ * @param receipt Receipt, or null while pending
+ * @param network Network name for contract and token lookups
+ * @param userAbi Additional interface tried after the known ABI of each contract
+ * @returns Explained transaction
+ */
+export function explainTransaction(
+	tx: { hash: string; from: string; to: string | null; value: bigint; data: string },
+	receipt: { status: number | null; logs: ReadonlyArray<{ index: number; address: string; topics: readonly string[]; data: string }> } | null,
+	network: string,
+	userAbi?: ethers.Interface
+): ExplainedTransaction {
+	const registry = buildAbiRegistry(network);
+	const extra = userAbi ? [userAbi] : [];
+	const interfacesFor = (address: string | null): ethers.Interface[] => {
+		const known = address ? registry.get(address.toLowerCase()) : undefined;
+		return [...(known ? [known.iface] : []), ...extra, ...GENERIC_INTERFACES];
+	};
+
+	const succeeded = receipt?.status === 1;
+	const logs = receipt?.logs ?? [];
+
+	const events = logs.map((log): ExplainedEvent => ({
+		...explainLog(log, interfacesFor(log.address)),
+		contract: registry.get(log.address.toLowerCase())?.name ?? null,
+	}));
+
+	// A failed transaction moves nothing
+	const movements: AssetMovement[] = [];
+	if (succeeded && tx.value > BigInt(0) && tx.to) {
+		movements.push({
+			type: 'RON',
+			token: null,
+			symbol: 'RON',
+			from: hexToRonin(tx.from),
+			to: hexToRonin(tx.to),
+			amount: weiToRon(tx.value),
+			amountRaw: tx.value.toString(),
+			tokenId: null,
+		});
+	}
+	for (const log of logs) {
+		if (log.topics[0] !== TRANSFER_TOPIC || log.topics.length < 3) {
+			continue;
+		}
+		const contract = log.address.toLowerCase();
+		const from = hexToRonin(topicToAddress(log.topics[1]));
+		const to = hexToRonin(topicToAddress(log.topics[2]));
+
+		if (log.topics.length === 4) {
+			movements.push({
+				type: 'ERC721',
+				token: contract,
+				symbol: registry.get(contract)?.name ?? null,
+				from,
+				to,
+				amount: null,
+				amountRaw: null,
+				tokenId: BigInt(log.topics[3]).toString(),
+			});
+			continue;
+		}
+
+		const token = getTokenByAddress(network, contract);
+		const amountRaw = log.data === '0x' ? BigInt(0) : BigInt(log.data);
+		movements.push({
+			type: 'ERC20',
+			token: contract,
+			symbol: token?.symbol ?? null,
+			from,
+			to,
+			amount: token ? formatUnits(amountRaw, token.decimals) : null,
+			amountRaw: amountRaw.toString(),
+			tokenId: null,
+		});
+	}
+
+	return {
+		hash: tx.hash,
+		status: receipt === null ? 'pending' : succeeded ? 'success' : 'failed',
+		from: hexToRonin(tx.from),
+		to: tx.to ? hexToRonin(tx.to) : null,
+		contract: tx.to ? registry.get(tx.to.toLowerCase())?.name ?? null : null,
+		value: weiToRon(tx.value),
+		method: explainCall(tx.data, tx.value, [...interfacesFor(tx.to), ERC20_INTERFACE, ERC721_INTERFACE]),
+		events,
+		movements,
+	};
+}
@@ -0,0 +1,58 @@
+/*
+ * Copyright (c) Velocity BPA, LLC
+ * Licensed under the Business Source License 1.1
+ * Commercial use requires a separate commercial license.
+ * See LICENSE file for details.
+ */
+
+import { ethers } from 'ethers';
+import { decodeCalldata, getSelector, parseSelectorList, toSelector } from '../../nodes/Ronin/utils/abiUtils';
+
+describe('abiUtils', () => {
+	const abi = JSON.stringify(['function transfer(address to, uint256 amount) returns (bool)']);
+	const recipient = '0x1111111111111111111111111111111111111111';
+	const data = new ethers.Interface(JSON.parse(abi)).encodeFunctionData('transfer', [recipient, 5]);
+
+	describe('decodeCalldata', () => {
+		it('should decode calldata with a JSON ABI', () => {
+			expect(decodeCalldata(abi, data)).toEqual({
+				function: 'transfer',
+				args: [recipient, '5'],
+				selector: '0xa9059cbb',
+			});
+		});
+
+		it('should return undefined for empty or unknown calldata', () => {
+			expect(decodeCalldata(abi, '0x')).toBeUndefined();
+			expect(decodeCalldata('[]', data)).toBeUndefined();
+			expect(decodeCalldata('not json', data)).toBeUndefined();
+		});
+	});
+
+	describe('getSelector', () => {
+		it('should return the first four bytes', () => {
+			expect(getSelector(data)).toBe('0xa9059cbb');
+			expect(getSelector('0x')).toBeNull();
+		});
+	});
+
+	describe('toSelector', () => {
+		it('should accept selectors and signatures', () => {
+			expect(toSelector('0xA9059CBB')).toBe('0xa9059cbb');
+			expect(toSelector('transfer(address,uint256)')).toBe('0xa9059cbb');
+			expect(toSelector('function transfer(address to, uint256 amount)')).toBe('0xa9059cbb');
+		});
+
+		it('should reject anything else', () => {
+			expect(() => toSelector('transfer')).toThrow('Invalid method selector');
+		});
+	});
+
+	describe('parseSelectorList', () => {
+		it('should keep the commas of multi-argument signatures', () => {
+			expect(parseSelectorList('0xa9059cbb, approve(address,uint256)')).toEqual(['0xa9059cbb', '0x095ea7b3']);
+			expect(parseSelectorList('transfer(address,uint256)\napprove(address, uint256),')).toEqual(['0xa9059cbb', '0x095ea7b3']);
+			expect(parseSelectorList('')).toEqual([]);
+		});
+	});
+});
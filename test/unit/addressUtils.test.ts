@@ -12,6 +12,10 @@ import {
 	hexToRonin,
 	normalizeAddress,
 	validateAddress,
+	parseAddressList,
+	matchWatchedAddresses,
+	buildDerivationPath,
+	deriveAddressesFromMnemonic,
 } from '../../nodes/Ronin/utils/addressUtils';
 
 describe('addressUtils', () => {
@@ -99,4 +103,88 @@ describe('addressUtils', () => {
 			expect(result.valid).toBe(false);
 		});
 	});
+	describe('parseAddressList', () => {
+		const other = '0xabcdefabcdefabcdefabcdefabcdefabcdefabcd';
+
+		it('should split on commas and new lines', () => {
+			const result = parseAddressList(`${validRoninAddress},\n${other}`);
+			expect(result.map((a) => a.toLowerCase())).toEqual([validHexAddress, other]);
+		});
+
+		it('should remove duplicates across formats', () => {
+			expect(parseAddressList(`${validRoninAddress}, ${validHexAddress}`)).toHaveLength(1);
+		});
+
+		it('should return an empty list for empty input', () => {
+			expect(parseAddressList('  ')).toEqual([]);
+		});
+
+		it('should throw on an invalid entry', () => {
+			expect(() => parseAddressList(`${validHexAddress}, ${invalidAddress}`)).toThrow();
+		});
+	});
+
+	describe('matchWatchedAddresses', () => {
+		const other = '0xabcdefabcdefabcdefabcdefabcdefabcdefabcd';
+		const watched = new Set([validHexAddress, other]);
+
+		it('should report both sides when both are watched', () => {
+			expect(matchWatchedAddresses(validHexAddress, other, watched)).toEqual([
+				{ address: validHexAddress, direction: 'out' },
+				{ address: other, direction: 'in' },
+			]);
+		});
+
+		it('should report self transfers once', () => {
+			expect(matchWatchedAddresses(other, other, watched)).toEqual([
+				{ address: other, direction: 'self' },
+			]);
+		});
+
+		it('should return no matches for unwatched addresses', () => {
+			const unwatched = '0x0000000000000000000000000000000000000001';
+			expect(matchWatchedAddresses(unwatched, null, watched)).toEqual([]);
+		});
+	});
+
+	describe('buildDerivationPath', () => {
+		it('should fill in path templates', () => {
+			expect(buildDerivationPath("m/44'/60'/{index}'/0/0", 2)).toBe("m/44'/60'/2'/0/0");
+		});
+
+		it('should append the index to base paths', () => {
+			expect(buildDerivationPath("m/44'/60'/0'/0/", 7)).toBe("m/44'/60'/0'/0/7");
+		});
+
+		it('should reject invalid indexes', () => {
+			expect(() => buildDerivationPath("m/44'/60'/0'/0", 1.5)).toThrow('Invalid account index');
+		});
+	});
+
+	describe('deriveAddressesFromMnemonic', () => {
+		const mnemonic = 'test test test test test test test test test test test junk';
+
+		it('should derive consecutive accounts in both formats', () => {
+			const accounts = deriveAddressesFromMnemonic(mnemonic, 2, { startIndex: 1 });
+
+			expect(accounts).toEqual([
+				{
+					index: 1,
+					path: "m/44'/60'/0'/0/1",
+					address: '0x70997970C51812dc3A010C7d01b50e0d17dc79C8',
+					roninAddress: 'ronin:70997970c51812dc3a010c7d01b50e0d17dc79c8',
+				},
+				{
+					index: 2,
+					path: "m/44'/60'/0'/0/2",
+					address: '0x3C44CdDdB6a900fa2b585dd299e03d12FA4293BC',
+					roninAddress: 'ronin:3c44cdddb6a900fa2b585dd299e03d12fa4293bc',
+				},
+			]);
+		});
+
+		it('should reject invalid counts', () => {
+			expect(() => deriveAddressesFromMnemonic(mnemonic, 0)).toThrow('Invalid address count');
+		});
+	});
 });
@@ -0,0 +1,20 @@
+/*
+ * Copyright (c) Velocity BPA, LLC
+ * Licensed under the Business Source License 1.1
+ * Commercial use requires a separate commercial license.
+ * See LICENSE file for details.
+ */
+
+import { chunk } from '../../nodes/Ronin/utils/arrayUtils';
+
+describe('Array Utilities', () => {
+	describe('chunk', () => {
+		it('should split items into chunks', () => {
+			expect(chunk([1, 2, 3, 4, 5], 2)).toEqual([[1, 2], [3, 4], [5]]);
+		});
+
+		it('should use a chunk size of at least one', () => {
+			expect(chunk([1, 2], 0)).toEqual([[1], [2]]);
+		});
+	});
+});
@@ -0,0 +1,53 @@
+/*
+ * Copyright (c) Velocity BPA, LLC
+ * Licensed under the Business Source License 1.1
+ * Commercial use requires a separate commercial license.
+ * See LICENSE file for details.
+ */
+
+import { AxieProfile, buildAxieProfile, matchesAxieFilters } from '../../nodes/Ronin/utils/axieUtils';
+
+describe('axieUtils', () => {
+	describe('buildAxieProfile', () => {
+		it('should combine decoded class, parts, purity and stats', () => {
+			const profile = buildAxieProfile('0x' + '1'.repeat(64), 2);
+
+			expect(typeof profile.class).toBe('string');
+			expect(profile.parts).toHaveLength(6);
+			expect(profile.purity).toBeGreaterThanOrEqual(0);
+			expect(profile.purity).toBeLessThanOrEqual(100);
+			expect(profile.breedCount).toBe(2);
+			expect(profile.stats).toHaveProperty('hp');
+		});
+	});
+
+	describe('matchesAxieFilters', () => {
+		const profile: AxieProfile = {
+			class: 'aquatic',
+			parts: [],
+			purity: 50,
+			breedCount: 3,
+			stats: { hp: 39, speed: 39, skill: 35, morale: 27 },
+		};
+
+		it('should match when no filters are set', () => {
+			expect(matchesAxieFilters(profile, {})).toBe(true);
+			expect(matchesAxieFilters(profile, { classes: [] })).toBe(true);
+		});
+
+		it('should filter by class', () => {
+			expect(matchesAxieFilters(profile, { classes: ['aquatic', 'bird'] })).toBe(true);
+			expect(matchesAxieFilters(profile, { classes: ['beast'] })).toBe(false);
+		});
+
+		it('should filter by minimum purity', () => {
+			expect(matchesAxieFilters(profile, { minPurity: 50 })).toBe(true);
+			expect(matchesAxieFilters(profile, { minPurity: 66 })).toBe(false);
+		});
+
+		it('should filter by maximum breed count', () => {
+			expect(matchesAxieFilters(profile, { maxBreedCount: 3 })).toBe(true);
+			expect(matchesAxieFilters(profile, { maxBreedCount: 2 })).toBe(false);
+		});
+	});
+});
@@ -0,0 +1,59 @@
+/*
+ * Copyright (c) Velocity BPA, LLC
+ * Licensed under the Business Source License 1.1
+ * Commercial use requires a separate commercial license.
+ * See LICENSE file for details.
+ */
+
+import { evaluateBalance, getBalanceKey, getChangePercent } from '../../nodes/Ronin/utils/balanceWatch';
+
+describe('balanceWatch', () => {
+	const low = BigInt(100);
+	const high = BigInt(1000);
+
+	describe('evaluateBalance', () => {
+		it('should only set the baseline on the first observation', () => {
+			expect(evaluateBalance(undefined, BigInt(5), { lowWatermark: low })).toEqual([]);
+		});
+
+		it('should fire when falling below the low watermark', () => {
+			expect(evaluateBalance(BigInt(150), BigInt(50), { lowWatermark: low })).toEqual(['fellBelowLow']);
+		});
+
+		it('should not fire again while staying below the low watermark', () => {
+			expect(evaluateBalance(BigInt(50), BigInt(40), { lowWatermark: low })).toEqual([]);
+		});
+
+		it('should fire when recovering to the low watermark', () => {
+			expect(evaluateBalance(BigInt(50), BigInt(100), { lowWatermark: low })).toEqual(['roseAboveLow']);
+		});
+
+		it('should fire when crossing the high watermark in either direction', () => {
+			expect(evaluateBalance(BigInt(900), BigInt(1100), { highWatermark: high })).toEqual(['roseAboveHigh']);
+			expect(evaluateBalance(BigInt(1100), BigInt(900), { highWatermark: high })).toEqual(['fellBelowHigh']);
+		});
+
+		it('should fire on changes larger than the percentage', () => {
+			expect(evaluateBalance(BigInt(1000), BigInt(1200), { changePercent: 10 })).toEqual(['changed']);
+			expect(evaluateBalance(BigInt(1000), BigInt(1050), { changePercent: 10 })).toEqual([]);
+			expect(evaluateBalance(BigInt(0), BigInt(1), { changePercent: 10 })).toEqual(['changed']);
+		});
+	});
+
+	describe('getChangePercent', () => {
+		it('should return the signed change in percent', () => {
+			expect(getChangePercent(BigInt(200), BigInt(150))).toBe(-25);
+			expect(getChangePercent(BigInt(0), BigInt(150))).toBeNull();
+		});
+	});
+
+	describe('getBalanceKey', () => {
+		it('should key native and token balances separately', () => {
+			const address = '0xABCDEFabcdefABCDEFabcdefABCDEFabcdefABCD';
+			expect(getBalanceKey(address, null)).toBe('0xabcdefabcdefabcdefabcdefabcdefabcdefabcd:RON');
+			expect(getBalanceKey(address, '0xA8754B9FA15FC18BB59458815510E40A12CD2014')).toBe(
+				'0xabcdefabcdefabcdefabcdefabcdefabcdefabcd:0xa8754b9fa15fc18bb59458815510e40a12cd2014',
+			);
+		});
+	});
+});
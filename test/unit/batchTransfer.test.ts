@@ -0,0 +1,90 @@
+/*
+ * Copyright (c) Velocity BPA, LLC
+ * Licensed under the Business Source License 1.1
+ * Commercial use requires a separate commercial license.
+ * See LICENSE file for details.
+ */
+
+import {
+	BatchTransferResult,
+	getBatchFailure,
+	parseBatchRecipients,
+	parseRecipientsCsv,
+} from '../../nodes/Ronin/utils/batchTransfer';
+
+describe('batchTransfer', () => {
+	const alice = '0x1111111111111111111111111111111111111111';
+	const bob = 'ronin:2222222222222222222222222222222222222222';
+
+	describe('parseRecipientsCsv', () => {
+		it('should skip headers, comments and blank lines', () => {
+			const csv = `address,amount\n# scholars\n${alice},100\n\n${bob}; 250\n`;
+			expect(parseRecipientsCsv(csv)).toEqual([
+				{ address: alice, amount: '100' },
+				{ address: bob, amount: '250' },
+			]);
+		});
+	});
+
+	describe('parseBatchRecipients', () => {
+		it('should parse CSV amounts with the token decimals', () => {
+			const recipients = parseBatchRecipients(`${alice},1.5\n${bob},2`, { decimals: 18 });
+
+			expect(recipients).toEqual([
+				{ address: alice, amount: '1.5', amountRaw: BigInt('1500000000000000000') },
+				{ address: '0x2222222222222222222222222222222222222222', amount: '2', amountRaw: BigInt('2000000000000000000') },
+			]);
+		});
+
+		it('should read recipients from input items', () => {
+			const recipients = parseBatchRecipients(
+				[{ wallet: alice, slp: 40 }, { wallet: bob, slp: '60' }],
+				{ decimals: 0, addressField: 'wallet', amountField: 'slp' }
+			);
+
+			expect(recipients.map((recipient) => recipient.amountRaw)).toEqual([BigInt(40), BigInt(60)]);
+		});
+
+		it('should report every invalid row at once', () => {
+			expect(() => parseBatchRecipients(
+				`${alice},10\nnot-an-address,5\n${bob},-1\n${bob},1.5`,
+				{ decimals: 0 }
+			)).toThrow(
+				'Invalid batch recipients: Row 2: invalid address "not-an-address"; ' +
+				'Row 3: invalid amount "-1"; Row 4: invalid amount "1.5"'
+			);
+		});
+
+		it('should reject an empty list', () => {
+			expect(() => parseBatchRecipients('address,amount\n', { decimals: 18 })).toThrow('No recipients');
+		});
+	});
+
+	describe('getBatchFailure', () => {
+		const result = (status: BatchTransferResult['status'], batch: number, txHash: string | null, error?: string): BatchTransferResult => ({
+			recipient: bob,
+			amount: '1',
+			status,
+			batch,
+			txHash,
+			error,
+		});
+
+		it('should return null when every recipient was paid', () => {
+			expect(getBatchFailure([result('sent', 0, '0xaa'), result('sent', 1, '0xbb')])).toBeNull();
+		});
+
+		it('should summarize partial failures', () => {
+			const results = [
+				result('sent', 0, '0xaa'),
+				result('sent', 0, '0xaa'),
+				result('failed', 1, null, 'execution reverted'),
+				result('skipped', 2, null),
+			];
+
+			expect(getBatchFailure(results)).toBe(
+				'Batch transfer partially failed: 2 of 4 recipients paid in 0xaa, 1 failed in batch 1 (execution reverted), 1 skipped'
+			);
+		});
+	});
+});
@@ -0,0 +1,57 @@
+/*
+ * Copyright (c) Velocity BPA, LLC
+ * Licensed under the Business Source License 1.1
+ * Commercial use requires a separate commercial license.
+ * See LICENSE file for details.
+ */
+
+import {
+	BlockCursorState,
+	getNextBlockRange,
+	resolveStartingBlock,
+	saveCheckpoint,
+} from '../../nodes/Ronin/utils/blockCursor';
+
+describe('blockCursor', () => {
+	describe('resolveStartingBlock', () => {
+		it('should start at the chain head when no checkpoint exists', () => {
+			const result = resolveStartingBlock({}, { startFrom: 'latest', startBlock: 0 }, 500);
+			expect(result).toBe(500);
+		});
+
+		it('should start before the configured block', () => {
+			const result = resolveStartingBlock({}, { startFrom: 'block', startBlock: 120 }, 500);
+			expect(result).toBe(119);
+		});
+
+		it('should resume from the stored checkpoint', () => {
+			const state: BlockCursorState = {};
+			const options = { startFrom: 'latest' as const, startBlock: 0 };
+			saveCheckpoint(state, options, 250);
+
+			expect(resolveStartingBlock(state, options, 500)).toBe(250);
+		});
+
+		it('should ignore a checkpoint stored for a different start configuration', () => {
+			const state: BlockCursorState = {};
+			saveCheckpoint(state, { startFrom: 'latest', startBlock: 0 }, 250);
+
+			const result = resolveStartingBlock(state, { startFrom: 'block', startBlock: 100 }, 500);
+			expect(result).toBe(99);
+		});
+	});
+
+	describe('getNextBlockRange', () => {
+		it('should return null when there are no new blocks', () => {
+			expect(getNextBlockRange(100, 100, 50)).toBeNull();
+		});
+
+		it('should cover all new blocks within the cap', () => {
+			expect(getNextBlockRange(100, 110, 50)).toEqual({ fromBlock: 101, toBlock: 110 });
+		});
+
+		it('should cap the range to the maximum blocks per poll', () => {
+			expect(getNextBlockRange(100, 1000, 50)).toEqual({ fromBlock: 101, toBlock: 150 });
+		});
+	});
+});
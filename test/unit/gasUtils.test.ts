@@ -0,0 +1,114 @@
+/*
+ * Copyright (c) Velocity BPA, LLC
+ * Licensed under the Business Source License 1.1
+ * Commercial use requires a separate commercial license.
+ * See LICENSE file for details.
+ */
+
+import {
+	bumpGasPrice,
+	estimateFeesFromHistory,
+	formatFees,
+	getReplacementFees,
+	parseFeeOptions,
+} from '../../nodes/Ronin/utils/gasUtils';
+
+describe('gasUtils', () => {
+	const gwei = (value: number) => BigInt(value) * BigInt(1000000000);
+
+	describe('bumpGasPrice', () => {
+		it('should raise the price by the percentage, rounding up', () => {
+			expect(bumpGasPrice(gwei(20), 10)).toBe(gwei(22));
+			expect(bumpGasPrice(BigInt(15), 10)).toBe(BigInt(17));
+		});
+	});
+
+	describe('getReplacementFees', () => {
+		it('should bump legacy gas prices', () => {
+			expect(getReplacementFees({ gasPrice: gwei(20) }, 25)).toEqual({ gasPrice: gwei(25) });
+		});
+
+		it('should use the network gas price when it is higher', () => {
+			expect(getReplacementFees({ gasPrice: gwei(20) }, 10, undefined, gwei(30))).toEqual({ gasPrice: gwei(30) });
+		});
+
+		it('should bump both EIP-1559 fees', () => {
+			expect(getReplacementFees({ maxFeePerGas: gwei(40), maxPriorityFeePerGas: gwei(2) }, 50)).toEqual({
+				maxFeePerGas: gwei(60),
+				maxPriorityFeePerGas: gwei(3),
+			});
+		});
+
+		it('should accept an explicit price above the minimum bump', () => {
+			expect(getReplacementFees({ gasPrice: gwei(20) }, 10, gwei(50))).toEqual({ gasPrice: gwei(50) });
+		});
+
+		it('should reject replacements nodes would refuse as underpriced', () => {
+			expect(() => getReplacementFees({ gasPrice: gwei(20) }, 10, gwei(21))).toThrow(
+				'Replacement gas price must be at least 22.00 gwei (10% above the original 20.00 gwei)'
+			);
+			expect(() => getReplacementFees({ gasPrice: gwei(20) }, 5)).toThrow('at least 10%');
+		});
+	});
+
+	describe('formatFees', () => {
+		it('should format legacy and EIP-1559 fees', () => {
+			expect(formatFees({ gasPrice: gwei(20) })).toBe('20.00 gwei');
+			expect(formatFees({ maxFeePerGas: gwei(40), maxPriorityFeePerGas: gwei(2) })).toBe('40.00 gwei max, 2.00 gwei priority');
+		});
+	});
+
+	describe('parseFeeOptions', () => {
+		it('should default to auto mode at normal speed', () => {
+			expect(parseFeeOptions(() => undefined)).toEqual({
+				feeMode: 'auto',
+				feeSpeed: 'normal',
+				gasPrice: undefined,
+				maxFeePerGas: undefined,
+				maxPriorityFeePerGas: undefined,
+			});
+		});
+
+		it('should convert gwei inputs to wei', () => {
+			const parameters: Record<string, string> = { feeMode: 'eip1559', maxFeePerGas: '30', maxPriorityFeePerGas: '1.5', gasPrice: '' };
+			expect(parseFeeOptions((name) => parameters[name])).toMatchObject({
+				feeMode: 'eip1559',
+				gasPrice: undefined,
+				maxFeePerGas: gwei(30),
+				maxPriorityFeePerGas: BigInt(1500000000),
+			});
+		});
+	});
+
+	describe('estimateFeesFromHistory', () => {
+		const hex = (value: bigint) => `0x${value.toString(16)}`;
+
+		it('should take the median tip per percentile and double the next base fee', () => {
+			const estimates = estimateFeesFromHistory({
+				oldestBlock: '0x1',
+				baseFeePerGas: [hex(gwei(18)), hex(gwei(19)), hex(gwei(20)), hex(gwei(21))],
+				gasUsedRatio: [0.5, 0.4, 0.6],
+				reward: [
+					[hex(gwei(1)), hex(gwei(2)), hex(gwei(5))],
+					[hex(gwei(1)), hex(gwei(3)), hex(gwei(6))],
+					[hex(gwei(2)), hex(gwei(4)), hex(gwei(9))],
+				],
+			});
+
+			expect(estimates.slow).toEqual({ baseFeePerGas: gwei(21), maxPriorityFeePerGas: gwei(1), maxFeePerGas: gwei(43) });
+			expect(estimates.normal.maxPriorityFeePerGas).toBe(gwei(3));
+			expect(estimates.fast).toEqual({ baseFeePerGas: gwei(21), maxPriorityFeePerGas: gwei(6), maxFeePerGas: gwei(48) });
+		});
+
+		it('should ignore empty blocks', () => {
+			const estimates = estimateFeesFromHistory({
+				oldestBlock: '0x1',
+				baseFeePerGas: [hex(gwei(20)), hex(gwei(20)), hex(gwei(20))],
+				gasUsedRatio: [0, 0.5],
+				reward: [['0x0', '0x0', '0x0'], [hex(gwei(1)), hex(gwei(2)), hex(gwei(3))]],
+			});
+
+			expect(estimates.fast.maxPriorityFeePerGas).toBe(gwei(3));
+		});
+	});
+});
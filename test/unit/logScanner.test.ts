@@ -0,0 +1,111 @@
+/*
+ * Copyright (c) Velocity BPA, LLC
+ * Licensed under the Business Source License 1.1
+ * Commercial use requires a separate commercial license.
+ * See LICENSE file for details.
+ */
+
+import { ethers } from 'ethers';
+import {
+	TRANSFER_TOPIC,
+	addressToTopic,
+	buildTransferQueries,
+	dedupeLogs,
+	getLogsInRange,
+	isTooManyResultsError,
+	scanLogs,
+	topicToAddress,
+} from '../../nodes/Ronin/utils/logScanner';
+
+const makeLog = (blockNumber: number, index: number, txHash = `0x${blockNumber}`) =>
+	({ blockNumber, index, transactionHash: txHash }) as unknown as ethers.Log;
+
+describe('logScanner', () => {
+	const watched = '0x1234567890abcdef1234567890abcdef12345678';
+
+	describe('isTooManyResultsError', () => {
+		it('should detect common RPC limit errors', () => {
+			expect(isTooManyResultsError(new Error('query returned more than 10000 results'))).toBe(true);
+			expect(isTooManyResultsError({ error: { message: 'Too many logs in response' } })).toBe(true);
+		});
+
+		it('should ignore unrelated errors', () => {
+			expect(isTooManyResultsError(new Error('connection refused'))).toBe(false);
+		});
+	});
+
+	describe('getLogsInRange', () => {
+		it('should use a single call when the range is accepted', async () => {
+			const fetchLogs = jest.fn().mockResolvedValue([makeLog(10, 0)]);
+
+			const logs = await getLogsInRange(fetchLogs, { topics: [TRANSFER_TOPIC] }, 1, 100);
+
+			expect(logs).toHaveLength(1);
+			expect(fetchLogs).toHaveBeenCalledTimes(1);
+			expect(fetchLogs).toHaveBeenCalledWith({ topics: [TRANSFER_TOPIC], fromBlock: 1, toBlock: 100 });
+		});
+
+		it('should split the range when the RPC returns too many results', async () => {
+			const fetchLogs = jest.fn(async (filter: ethers.Filter) => {
+				const from = filter.fromBlock as number;
+				const to = filter.toBlock as number;
+				if (to - from + 1 > 25) {
+					throw new Error('query returned more than 10000 results');
+				}
+				return [makeLog(from, 0)];
+			});
+
+			const logs = await getLogsInRange(fetchLogs, {}, 1, 100);
+
+			expect(logs.map((log) => log.blockNumber)).toEqual([1, 26, 51, 76]);
+		});
+
+		it('should rethrow other errors', async () => {
+			const fetchLogs = jest.fn().mockRejectedValue(new Error('connection refused'));
+
+			await expect(getLogsInRange(fetchLogs, {}, 1, 100)).rejects.toThrow('connection refused');
+			expect(fetchLogs).toHaveBeenCalledTimes(1);
+		});
+	});
+
+	describe('buildTransferQueries', () => {
+		it('should match all transfers without watched addresses', () => {
+			expect(buildTransferQueries([])).toEqual([{ address: undefined, topics: [TRANSFER_TOPIC] }]);
+		});
+
+		it('should filter indexed from and to topics', () => {
+			const queries = buildTransferQueries([watched], [watched]);
+
+			expect(queries).toHaveLength(2);
+			expect(queries[0].topics).toEqual([TRANSFER_TOPIC, [addressToTopic(watched)]]);
+			expect(queries[1].topics).toEqual([TRANSFER_TOPIC, null, [addressToTopic(watched)]]);
+			expect(queries[0].address).toEqual([watched]);
+		});
+	});
+
+	describe('topic conversion', () => {
+		it('should round-trip addresses through topics', () => {
+			expect(topicToAddress(addressToTopic(watched))).toBe(watched);
+		});
+	});
+
+	describe('dedupeLogs', () => {
+		it('should remove duplicates and sort in chain order', () => {
+			const logs = dedupeLogs([makeLog(5, 1), makeLog(3, 0), makeLog(5, 1), makeLog(5, 0)]);
+			expect(logs.map((log) => `${log.blockNumber}:${log.index}`)).toEqual(['3:0', '5:0', '5:1']);
+		});
+	});
+
+	describe('scanLogs', () => {
+		it('should merge the results of several queries', async () => {
+			const fetchLogs = jest.fn()
+				.mockResolvedValueOnce([makeLog(5, 0), makeLog(7, 2)])
+				.mockResolvedValueOnce([makeLog(5, 0), makeLog(6, 1)]);
+
+			const logs = await scanLogs(fetchLogs, buildTransferQueries([watched]), 1, 10);
+
+			expect(fetchLogs).toHaveBeenCalledTimes(2);
+			expect(logs.map((log) => log.blockNumber)).toEqual([5, 6, 7]);
+		});
+	});
+});
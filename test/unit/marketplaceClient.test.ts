@@ -0,0 +1,507 @@
+/*
+ * Copyright (c) Velocity BPA, LLC
+ * Licensed under the Business Source License 1.1
+ * Commercial use requires a separate commercial license.
+ * See LICENSE file for details.
+ */
+
+import { AddressInfo } from 'net';
+import { Server, createServer } from 'http';
+import { ethers } from 'ethers';
+import { ERC20_ABI, ERC721_ABI, MARKET_GATEWAY_ABI, ORDER_EXCHANGE_ABI } from '../../nodes/Ronin/constants/contracts';
+import { Listing, MarketplaceClient, Offer } from '../../nodes/Ronin/transport/marketplaceClient';
+import { RoninClient, SimulationSession } from '../../nodes/Ronin/transport/roninClient';
+import { ANY_TOKEN_ID, ORDER_TYPES, OfferCriteria, Order, encodeOrder, getOrderHash } from '../../nodes/Ronin/utils/orderUtils';
+
+describe('MarketplaceClient', () => {
+	const gateway = '0xfff9ce5f71ca6178d3beecedb61e7eff1602950e';
+	const weth = '0xc99a6a985ed2cac1ef41640596c5a5f9f4e19ef5';
+	const maker = new ethers.Wallet('0x59c6995e998f97a5a0044966f0945389dc9e86dae88c7a8412f4603b6b78690d');
+	const buyer = new ethers.Wallet('0x5de4111afa1a4b94908f83103eb1f1706367c2e68ca870fc3fb9a804cdab365a');
+	const domain = { name: 'MarketGateway', version: '1', chainId: 2020, verifyingContract: gateway };
+	const erc20 = new ethers.Interface(ERC20_ABI);
+	const erc721 = new ethers.Interface(ERC721_ABI);
+	const gatewayInterface = new ethers.Interface(MARKET_GATEWAY_ABI);
+	const exchange = new ethers.Interface(ORDER_EXCHANGE_ABI);
+
+	const order: Order = {
+		maker: maker.address,
+		kind: 1,
+		assets: [{ erc: 1, addr: '0x32950db2a7164ae833121501c797d79e7b79d74c', id: '42', quantity: '1' }],
+		expiredAt: Math.floor(Date.now() / 1000) + 3600,
+		paymentToken: weth,
+		startedAt: Math.floor(Date.now() / 1000) - 60,
+		basePrice: ethers.parseEther('0.5').toString(),
+		endedAt: 0,
+		endedPrice: '0',
+		expectedState: '7',
+		nonce: 0,
+		marketFeePercentage: 425,
+	};
+
+	// Offer of the buyer that any token of the collection can fill
+	const collectionOffer: Order = {
+		...order,
+		maker: buyer.address,
+		kind: 0,
+		assets: [{ ...order.assets[0], id: ANY_TOKEN_ID }],
+	};
+
+	let server: Server;
+	let url: string;
+	let listing: Partial<Listing>;
+	let offer: Partial<Offer>;
+	let collectionOffers: Offer[];
+	let allowance: bigint;
+	let balance: bigint;
+	let tokenOwner: string;
+	let approvedForAll: boolean;
+	let revertReason: string | null;
+	const sent: ethers.Transaction[] = [];
+	const submitted: Array<{ order: Order; signature: string; criteria?: OfferCriteria }> = [];
+
+	// Marketplace API and Ronin node stub, with the token and gateway as mocked contracts
+	const handleRpc = ({ id, method, params }: { id: number; method: string; params: any[] }) => {
+		const reply = (result: unknown) => ({ jsonrpc: '2.0', id, result });
+		switch (method) {
+			case 'eth_chainId':
+				return reply('0x7e4');
+			case 'eth_blockNumber':
+				return reply('0x10');
+			case 'eth_gasPrice':
+				return reply('0x4a817c800');
+			case 'eth_estimateGas':
+				return reply('0x30d40');
+			case 'eth_getTransactionCount':
+				return reply('0x0');
+			case 'eth_getBlockByNumber':
+				return reply({
+					hash: ethers.id('block'),
+					parentHash: ethers.ZeroHash,
+					number: '0x10',
+					timestamp: '0x1',
+					nonce: '0x0000000000000000',
+					difficulty: '0x0',
+					gasLimit: '0x1c9c380',
+					gasUsed: '0x0',
+					miner: ethers.ZeroAddress,
+					extraData: '0x',
+					transactions: [],
+				});
+			case 'eth_call': {
+				const { to, data } = params[0];
+				if (to.toLowerCase() === gateway) {
+					const view = gatewayInterface.parseTransaction({ data })!;
+					if (view.name === 'getMarketFeePercentage') {
+						return reply(gatewayInterface.encodeFunctionResult(view.name, [500]));
+					}
+					if (view.name === 'makerNonce') {
+						return reply(gatewayInterface.encodeFunctionResult(view.name, [3]));
+					}
+					if (revertReason) {
+						const error = ethers.concat(['0x08c379a0', ethers.AbiCoder.defaultAbiCoder().encode(['string'], [revertReason])]);
+						return { jsonrpc: '2.0', id, error: { code: 3, message: 'execution reverted', data: error } };
+					}
+					return reply('0x');
+				}
+				if (to.toLowerCase() === order.assets[0].addr) {
+					const view = erc721.parseTransaction({ data })!;
+					const result = view.name === 'ownerOf' ? [tokenOwner] : [approvedForAll];
+					return reply(erc721.encodeFunctionResult(view.name, result));
+				}
+				const call = erc20.parseTransaction({ data });
+				const results: Record<string, unknown[]> = {
+					balanceOf: [balance],
+					allowance: [allowance],
+					approve: [true],
+					decimals: [18],
+					symbol: ['WETH'],
+				};
+				return reply(erc20.encodeFunctionResult(call!.name, results[call!.name]));
+			}
+			case 'eth_sendRawTransaction': {
+				const tx = ethers.Transaction.from(params[0]);
+				sent.push(tx);
+				return reply(tx.hash);
+			}
+			case 'eth_getTransactionReceipt': {
+				const tx = sent.find((candidate) => candidate.hash === params[0]);
+				return reply(tx ? {
+					transactionHash: tx.hash,
+					transactionIndex: '0x0',
+					blockHash: ethers.id('block'),
+					blockNumber: '0x10',
+					from: tx.from,
+					to: tx.to,
+					contractAddress: null,
+					gasUsed: '0x5208',
+					cumulativeGasUsed: '0x5208',
+					effectiveGasPrice: '0x4a817c800',
+					logsBloom: `0x${'0'.repeat(512)}`,
+					logs: [],
+					status: '0x1',
+					type: '0x0',
+				} : null);
+			}
+			default:
+				return { jsonrpc: '2.0', id, error: { code: -32601, message: `Unsupported method ${method}` } };
+		}
+	};
+
+	beforeAll(async () => {
+		server = createServer((req, res) => {
+			let body = '';
+			req.on('data', (chunk) => (body += chunk));
+			req.on('end', () => {
+				res.setHeader('content-type', 'application/json');
+				if (req.method === 'GET' && req.url?.startsWith('/v1/orders/')) {
+					res.end(JSON.stringify(listing));
+					return;
+				}
+				if (req.method === 'GET' && req.url?.startsWith('/v1/tokens/')) {
+					res.end(JSON.stringify({ total: 0, data: [] }));
+					return;
+				}
+				if (req.method === 'GET' && req.url?.startsWith('/v1/collections/')) {
+					res.end(JSON.stringify({ total: collectionOffers.length, data: collectionOffers }));
+					return;
+				}
+				if (req.method === 'GET' && req.url?.startsWith('/v1/offers/')) {
+					res.end(JSON.stringify(offer));
+					return;
+				}
+				if (req.method === 'POST' && (req.url === '/v1/orders' || req.url === '/v1/offers')) {
+					submitted.push(JSON.parse(body));
+					res.end(JSON.stringify({ id: String(submitted.length) }));
+					return;
+				}
+				const payload = JSON.parse(body);
+				res.end(JSON.stringify(Array.isArray(payload) ? payload.map(handleRpc) : handleRpc(payload)));
+			});
+		});
+		await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+		url = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+	});
+
+	afterAll(async () => {
+		await new Promise((resolve) => server.close(resolve));
+	});
+
+	beforeEach(async () => {
+		sent.length = 0;
+		submitted.length = 0;
+		allowance = BigInt(0);
+		balance = ethers.parseEther('10');
+		revertReason = null;
+		tokenOwner = maker.address;
+		approvedForAll = false;
+		listing = { id: '1', status: 'active', order, signature: await maker.signTypedData(domain, ORDER_TYPES, order) };
+		offer = { id: '2', status: 'active', order: collectionOffer, signature: await buyer.signTypedData(domain, ORDER_TYPES, collectionOffer) };
+		collectionOffers = [];
+	});
+
+	const createClient = (wallet: ethers.Wallet, simulation?: SimulationSession) => {
+		const marketplace = new MarketplaceClient({ apiEndpoint: url });
+		marketplace.setRoninClient(new RoninClient({ network: 'custom', rpcUrl: url, privateKey: wallet.privateKey, simulation }));
+		return marketplace;
+	};
+
+	const decodeExchangeCall = (tx: ethers.Transaction) => {
+		const [name, data] = gatewayInterface.decodeFunctionData('interactWith', tx.data);
+		expect(name).toBe('ORDER_EXCHANGE');
+		return exchange.parseTransaction({ data })!;
+	};
+
+	describe('buyNft', () => {
+		it('should approve the payment token and settle the signed order', async () => {
+			const result = await createClient(buyer).buyNft('1');
+
+			expect(sent).toHaveLength(2);
+			expect(sent[0].to?.toLowerCase()).toBe(weth);
+			expect(erc20.decodeFunctionData('approve', sent[0].data).map(String)).toEqual([
+				ethers.getAddress(gateway),
+				order.basePrice,
+			]);
+
+			expect(sent[1].to?.toLowerCase()).toBe(gateway);
+			const settle = decodeExchangeCall(sent[1]);
+			expect(settle.name).toBe('settleOrder');
+			const [settleInfo, settlePrice] = settle.args;
+			expect(settleInfo.orderData).toBe(encodeOrder(order));
+			expect(settleInfo.signature).toBe(listing.signature);
+			expect(settleInfo.expectedState).toBe(BigInt(7));
+			expect(settleInfo.recipient).toBe(buyer.address);
+			expect(settlePrice).toBe(BigInt(order.basePrice));
+
+			expect(result).toEqual({
+				success: true,
+				txHash: sent[1].hash,
+				orderHash: getOrderHash(order),
+				approvalTxHash: sent[0].hash,
+			});
+		});
+
+		it('should skip the approval when the allowance covers the price', async () => {
+			allowance = ethers.parseEther('1');
+			await createClient(buyer).buyNft('1');
+
+			expect(sent).toHaveLength(1);
+			expect(decodeExchangeCall(sent[0]).name).toBe('settleOrder');
+		});
+
+		it('should pay the current price of auctions', async () => {
+			const now = Math.floor(Date.now() / 1000);
+			const auction = { ...order, startedAt: now - 1800, endedAt: now + 1800, endedPrice: ethers.parseEther('0.1').toString() };
+			listing.order = auction;
+			listing.signature = await maker.signTypedData(domain, ORDER_TYPES, auction);
+			allowance = ethers.parseEther('1');
+
+			await createClient(buyer).buyNft('1');
+
+			const [, settlePrice] = decodeExchangeCall(sent[0]).args;
+			expect(settlePrice).toBeLessThanOrEqual(ethers.parseEther('0.3'));
+			expect(settlePrice).toBeGreaterThan(ethers.parseEther('0.29'));
+		});
+
+		it('should reject orders not signed by their maker', async () => {
+			listing.signature = await buyer.signTypedData(domain, ORDER_TYPES, order);
+
+			await expect(createClient(buyer).buyNft('1')).rejects.toThrow('not signed by its maker');
+			expect(sent).toHaveLength(0);
+		});
+
+		it('should stop before sending when the exchange would revert', async () => {
+			allowance = ethers.parseEther('1');
+			revertReason = 'MarketGateway: invalid expected state';
+
+			await expect(createClient(buyer).buyNft('1')).rejects.toThrow('invalid expected state');
+			expect(sent).toHaveLength(0);
+		});
+
+		it('should simulate a purchase that needs an approval as waiting for it', async () => {
+			revertReason = 'ERC20: insufficient allowance';
+			const session: SimulationSession = { blockTag: 'latest', simulations: [] };
+
+			await createClient(buyer, session).buyNft('1');
+
+			expect(sent).toHaveLength(0);
+			expect(session.simulations.map(({ success, requiresApproval, revertReason }) => ({ success, requiresApproval, revertReason }))).toEqual([
+				{ success: true, requiresApproval: false, revertReason: null },
+				{ success: null, requiresApproval: true, revertReason: null },
+			]);
+			expect(session.simulations.map((simulation) => simulation.balanceDeltasDerivable)).toEqual([true, false]);
+			expect(session.simulations[1].balanceDeltas).toBeNull();
+		});
+	});
+
+	describe('createListing', () => {
+		it('should sign Dutch auctions paid in a token chosen by symbol', async () => {
+			const result = await createClient(maker).createListing({
+				contractAddress: '0x32950db2a7164ae833121501c797d79e7b79d74c',
+				tokenId: '42',
+				price: '100',
+				endPrice: '40',
+				auctionDurationHours: 2,
+				paymentToken: 'usdc',
+				expirationDays: 1,
+			});
+
+			const listed = submitted[0].order;
+			expect(result.orderId).toBe('1');
+			expect(listed.paymentToken).toBe(ethers.getAddress('0x0b7007c13325c48911f73a2dad5fa5dcbf808adc'));
+			expect([listed.basePrice, listed.endedPrice]).toEqual(['100000000', '40000000']);
+			expect(listed.endedAt - listed.startedAt).toBe(7200);
+			expect(listed.expiredAt - listed.startedAt).toBe(86400);
+			expect([listed.marketFeePercentage, listed.nonce]).toEqual([500, 3]);
+			expect(ethers.verifyTypedData(domain, ORDER_TYPES, listed, result.signature)).toBe(maker.address);
+		});
+
+		it('should approve the gateway for the collection before signing', async () => {
+			const params = { contractAddress: order.assets[0].addr, tokenId: '42', price: '1' };
+
+			const result = await createClient(maker).createListing(params);
+			expect(sent).toHaveLength(1);
+			expect(sent[0].to?.toLowerCase()).toBe(order.assets[0].addr);
+			expect(erc721.decodeFunctionData('setApprovalForAll', sent[0].data)).toEqual([ethers.getAddress(gateway), true]);
+			expect(result.approvalTxHash).toBe(sent[0].hash);
+
+			approvedForAll = true;
+			expect((await createClient(maker).createListing(params)).approvalTxHash).toBeUndefined();
+			expect(sent).toHaveLength(1);
+		});
+
+		it('should reject auctions that outlive the listing or rise in price', async () => {
+			const params = { contractAddress: order.assets[0].addr, tokenId: '42', price: '1', auctionDurationHours: 2 };
+
+			await expect(createClient(maker).createListing({ ...params, endPrice: '2' })).rejects.toThrow('higher than its start price');
+			await expect(createClient(maker).createListing({ ...params, endPrice: '0.5', auctionDurationHours: 48, expirationDays: 1 }))
+				.rejects.toThrow('expire before its auction ends');
+			await expect(createClient(maker).createListing({ ...params, paymentToken: 'RON' })).rejects.toThrow('Unknown payment token');
+		});
+	});
+
+	describe('verifyOrderSignature', () => {
+		it('should recover the maker with the domain of the connected chain', async () => {
+			const client = createClient(buyer);
+
+			expect(await client.getOrderDomain()).toEqual({ ...domain, verifyingContract: ethers.getAddress(gateway) });
+			expect(await client.verifyOrderSignature(order, listing.signature!)).toEqual({
+				isValid: true,
+				signer: maker.address,
+				maker: maker.address,
+				orderHash: getOrderHash(order),
+			});
+		});
+
+		it('should reject signatures for another chain', async () => {
+			const signature = await maker.signTypedData({ ...domain, chainId: 2021 }, ORDER_TYPES, order);
+			const result = await createClient(buyer).verifyOrderSignature(order, signature);
+
+			expect(result.isValid).toBe(false);
+			expect(result.signer).not.toBe(maker.address);
+		});
+	});
+
+	describe('cancelListing', () => {
+		it('should cancel by order hash', async () => {
+			const result = await createClient(maker).cancelListing('1');
+
+			expect(sent).toHaveLength(1);
+			const cancel = decodeExchangeCall(sent[0]);
+			expect(cancel.name).toBe('cancelOrder');
+			expect(cancel.args[0]).toBe(getOrderHash(order));
+			expect(result).toEqual({ success: true, txHash: sent[0].hash, orderHash: getOrderHash(order) });
+		});
+
+		it('should only let the maker cancel', async () => {
+			await expect(createClient(buyer).cancelListing('1')).rejects.toThrow('not by');
+		});
+	});
+
+	describe('acceptOffer', () => {
+		it('should approve the gateway and settle collection offers with the given token', async () => {
+			const result = await createClient(maker).acceptOffer('2', '42');
+
+			expect(sent).toHaveLength(2);
+			expect(sent[0].to?.toLowerCase()).toBe(order.assets[0].addr);
+			expect(erc721.decodeFunctionData('setApprovalForAll', sent[0].data)).toEqual([ethers.getAddress(gateway), true]);
+
+			const settle = decodeExchangeCall(sent[1]);
+			expect(settle.name).toBe('settleCollectionOrder');
+			const [settleInfo, settlePrice, tokenId] = settle.args;
+			expect(settleInfo.orderData).toBe(encodeOrder(collectionOffer));
+			expect(settleInfo.recipient).toBe(buyer.address);
+			expect(settleInfo.refunder).toBe(maker.address);
+			expect([settlePrice, tokenId]).toEqual([BigInt(order.basePrice), BigInt(42)]);
+
+			expect(result).toEqual({
+				success: true,
+				txHash: sent[1].hash,
+				orderHash: getOrderHash(collectionOffer),
+				approvalTxHash: sent[0].hash,
+				tokenId: '42',
+				price: order.basePrice,
+			});
+		});
+
+		it('should settle token offers without a token ID once approved', async () => {
+			const tokenOffer = { ...collectionOffer, assets: order.assets };
+			offer.order = tokenOffer;
+			offer.signature = await buyer.signTypedData(domain, ORDER_TYPES, tokenOffer);
+			approvedForAll = true;
+
+			const result = await createClient(maker).acceptOffer('2');
+
+			expect(sent).toHaveLength(1);
+			expect(decodeExchangeCall(sent[0]).name).toBe('settleOrder');
+			expect(result.tokenId).toBe('42');
+		});
+
+		it('should reject collection offers without a token and tokens of another owner', async () => {
+			await expect(createClient(maker).acceptOffer('2')).rejects.toThrow('a token ID is required');
+
+			tokenOwner = buyer.address;
+			await expect(createClient(maker).acceptOffer('2', '42')).rejects.toThrow(`owned by ${buyer.address}`);
+			expect(sent).toHaveLength(0);
+		});
+
+		it('should reject listings and cancelled offers', async () => {
+			offer.order = order;
+			await expect(createClient(maker).acceptOffer('2', '42')).rejects.toThrow('is not an offer');
+
+			offer.status = 'cancelled';
+			await expect(createClient(maker).acceptOffer('2', '42')).rejects.toThrow('Offer 2 is cancelled');
+		});
+	});
+
+	describe('getIncomingOffers', () => {
+		it('should only list criteria offers for tokens whose traits match', async () => {
+			collectionOffers = [
+				{ ...(offer as Offer), id: 'any' },
+				{ ...(offer as Offer), id: 'aquatic', criteria: { classes: ['aquatic'] } },
+				{ ...(offer as Offer), id: 'beast', criteria: { classes: ['beast'] } },
+			];
+			const tokens = [{ contractAddress: order.assets[0].addr, tokenId: '42' }];
+			const getTraits = jest.fn(async () => ({ class: 'Aquatic', parts: [] }));
+
+			const offers = await createClient(maker).getIncomingOffers(tokens, getTraits);
+
+			expect(offers.map((incoming) => incoming.id)).toEqual(['any', 'aquatic']);
+			expect(offers.every((incoming) => incoming.tokenId === '42' && incoming.scope === 'collection')).toBe(true);
+			expect(getTraits).toHaveBeenCalledTimes(1);
+			expect((await createClient(maker).getIncomingOffers(tokens)).map((incoming) => incoming.id)).toEqual(['any']);
+		});
+	});
+
+	describe('makeOffer', () => {
+		it('should submit collection offers with their criteria', async () => {
+			const criteria = { classes: ['aquatic'], parts: ['eyes-zeal'] };
+			const result = await createClient(buyer).makeOffer({
+				contractAddress: order.assets[0].addr,
+				criteria,
+				price: '0.2',
+				paymentToken: 'WETH',
+			});
+
+			expect(result.scope).toBe('collection');
+			expect(submitted[0].order.assets[0].id).toBe(ANY_TOKEN_ID);
+			expect(submitted[0].criteria).toEqual(criteria);
+		});
+
+		it('should approve the gateway for the price before signing', async () => {
+			const params = { contractAddress: order.assets[0].addr, tokenId: '42', price: '0.2', paymentToken: weth };
+
+			const result = await createClient(buyer).makeOffer(params);
+			expect(sent).toHaveLength(1);
+			expect(sent[0].to?.toLowerCase()).toBe(weth);
+			expect(erc20.decodeFunctionData('approve', sent[0].data).map(String)).toEqual([
+				ethers.getAddress(gateway),
+				ethers.parseEther('0.2').toString(),
+			]);
+			expect(result.approvalTxHash).toBe(sent[0].hash);
+
+			allowance = ethers.parseEther('1');
+			expect((await createClient(buyer).makeOffer(params)).approvalTxHash).toBeUndefined();
+			expect(sent).toHaveLength(1);
+		});
+
+		it('should not submit offers the wallet cannot pay', async () => {
+			balance = ethers.parseEther('0.1');
+
+			await expect(createClient(buyer).makeOffer({ contractAddress: order.assets[0].addr, tokenId: '42', price: '0.2' }))
+				.rejects.toThrow('Insufficient WETH balance: offer costs 0.2, wallet has 0.1');
+			expect(sent).toHaveLength(0);
+			expect(submitted).toHaveLength(0);
+		});
+	});
+
+	describe('cancelOffer', () => {
+		it('should only let the maker of the offer cancel it', async () => {
+			await expect(createClient(maker).cancelOffer('2')).rejects.toThrow('not by');
+
+			const result = await createClient(buyer).cancelOffer('2');
+			expect(decodeExchangeCall(sent[0]).name).toBe('cancelOrder');
+			expect(result.orderHash).toBe(getOrderHash(collectionOffer));
+		});
+	});
+});
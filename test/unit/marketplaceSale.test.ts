@@ -0,0 +1,99 @@
+/*
+ * Copyright (c) Velocity BPA, LLC
+ * Licensed under the Business Source License 1.1
+ * Commercial use requires a separate commercial license.
+ * See LICENSE file for details.
+ */
+
+import { ethers } from 'ethers';
+import { MAINNET_CONTRACTS, MARKETPLACE_ABI } from '../../nodes/Ronin/constants/contracts';
+import { TRANSFER_TOPIC, addressToTopic } from '../../nodes/Ronin/utils/logScanner';
+import { decodeMarketplaceSale } from '../../nodes/Ronin/utils/marketplaceSale';
+
+describe('marketplaceSale', () => {
+	const iface = new ethers.Interface(MARKETPLACE_ABI);
+	const seller = '0x1111111111111111111111111111111111111111';
+	const buyer = '0x2222222222222222222222222222222222222222';
+	const treasury = '0x3333333333333333333333333333333333333333';
+	const sellHash = ethers.id('sell');
+
+	const makeLog = (fields: Partial<ethers.Log>): ethers.Log =>
+		({ blockNumber: 1, transactionHash: '0xtx', index: 0, ...fields }) as ethers.Log;
+
+	const saleLog = (price: bigint) => {
+		const encoded = iface.encodeEventLog('OrdersMatched', [ethers.id('buy'), sellHash, seller, buyer, price]);
+		return makeLog({ address: MAINNET_CONTRACTS.MARKETPLACE_V2, topics: encoded.topics, data: encoded.data });
+	};
+
+	const nftTransfer = makeLog({
+		address: MAINNET_CONTRACTS.AXIE_CONTRACT,
+		topics: [TRANSFER_TOPIC, addressToTopic(seller), addressToTopic(buyer), ethers.toBeHex(42, 32)],
+		data: '0x',
+	});
+
+	const tokenTransfer = (token: string, from: string, to: string, amount: bigint) =>
+		makeLog({
+			address: token,
+			topics: [TRANSFER_TOPIC, addressToTopic(from), addressToTopic(to)],
+			data: ethers.toBeHex(amount, 32),
+		});
+
+	it('should decode seller, buyer, token and price', () => {
+		const price = ethers.parseEther('10');
+		const logs = [
+			tokenTransfer(MAINNET_CONTRACTS.WETH, buyer, seller, ethers.parseEther('9.5')),
+			tokenTransfer(MAINNET_CONTRACTS.WETH, buyer, treasury, ethers.parseEther('0.5')),
+			nftTransfer,
+		];
+
+		const sale = decodeMarketplaceSale(saleLog(price), logs, 'mainnet');
+
+		expect(sale).toMatchObject({
+			orderHash: sellHash,
+			seller,
+			buyer,
+			nftContract: MAINNET_CONTRACTS.AXIE_CONTRACT,
+			tokenId: '42',
+			paymentToken: MAINNET_CONTRACTS.WETH,
+			paymentSymbol: 'WETH',
+			price: '10.0',
+			marketFee: '0.5',
+		});
+	});
+
+	it('should pair each sale of a bulk buy with its own transfers', () => {
+		const otherSeller = '0x4444444444444444444444444444444444444444';
+		const secondSale = iface.encodeEventLog('OrdersMatched', [ethers.id('buy2'), ethers.id('sell2'), otherSeller, buyer, ethers.parseEther('2')]);
+		const logs = [
+			tokenTransfer(MAINNET_CONTRACTS.WETH, buyer, seller, ethers.parseEther('0.95')),
+			nftTransfer,
+			saleLog(ethers.parseEther('1')),
+			tokenTransfer(MAINNET_CONTRACTS.WETH, buyer, otherSeller, ethers.parseEther('1.9')),
+			makeLog({
+				address: MAINNET_CONTRACTS.AXIE_CONTRACT,
+				topics: [TRANSFER_TOPIC, addressToTopic(otherSeller), addressToTopic(buyer), ethers.toBeHex(7, 32)],
+				data: '0x',
+			}),
+			makeLog({ address: MAINNET_CONTRACTS.MARKETPLACE_V2, topics: secondSale.topics, data: secondSale.data }),
+		].map((log, index) => ({ ...log, index }) as ethers.Log);
+
+		const [first, second] = [logs[2], logs[5]].map((log) => decodeMarketplaceSale(log, logs, 'mainnet'));
+
+		expect(first).toMatchObject({ seller, buyer, tokenId: '42', price: '1.0', marketFee: '0.05' });
+		expect(second).toMatchObject({ seller: otherSeller, buyer, tokenId: '7', price: '2.0', marketFee: '0.1' });
+	});
+
+	it('should fall back to the order parties and RON without transfer logs', () => {
+		const sale = decodeMarketplaceSale(saleLog(ethers.parseEther('1')), [], 'mainnet');
+
+		expect(sale.seller).toBe(seller);
+		expect(sale.buyer).toBe(buyer);
+		expect(sale.nftContract).toBeNull();
+		expect(sale.paymentSymbol).toBe('RON');
+		expect(sale.marketFee).toBeNull();
+	});
+
+	it('should reject logs that are not sales', () => {
+		expect(() => decodeMarketplaceSale(nftTransfer, [], 'mainnet')).toThrow();
+	});
+});
@@ -0,0 +1,75 @@
+/*
+ * Copyright (c) Velocity BPA, LLC
+ * Licensed under the Business Source License 1.1
+ * Commercial use requires a separate commercial license.
+ * See LICENSE file for details.
+ */
+
+import { SeenTransactions, flattenTxpool } from '../../nodes/Ronin/utils/mempool';
+
+describe('mempool', () => {
+	describe('flattenTxpool', () => {
+		it('should flatten pending transactions and skip queued ones', () => {
+			const transactions = flattenTxpool({
+				pending: {
+					'0xAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAA': {
+						'7': {
+							hash: '0x01',
+							from: '0xAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAA',
+							to: '0xBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBB',
+							input: '0xa9059cbb',
+							value: '0xde0b6b3a7640000',
+							nonce: '0x7',
+						},
+					},
+				},
+				queued: {
+					'0xCCCCCCCCCCCCCCCCCCCCCCCCCCCCCCCCCCCCCCCC': {
+						'9': { hash: '0x02', from: '0xCCCCCCCCCCCCCCCCCCCCCCCCCCCCCCCCCCCCCCCC' },
+					},
+				},
+			});
+
+			expect(transactions).toEqual([{
+				hash: '0x01',
+				from: '0xaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaa',
+				to: '0xbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbb',
+				input: '0xa9059cbb',
+				value: BigInt('1000000000000000000'),
+				nonce: 7,
+			}]);
+		});
+
+		it('should handle an empty pool', () => {
+			expect(flattenTxpool({})).toEqual([]);
+		});
+	});
+
+	describe('SeenTransactions', () => {
+		it('should report each hash once', () => {
+			const seen = new SeenTransactions();
+			expect(seen.add('0xAB')).toBe(true);
+			expect(seen.add('0xab')).toBe(false);
+		});
+
+		it('should forget hashes that left the pool', () => {
+			const seen = new SeenTransactions();
+			seen.add('0x01');
+			seen.add('0x02');
+			seen.retain(['0x02']);
+
+			expect(seen.size).toBe(1);
+			expect(seen.add('0x01')).toBe(true);
+		});
+
+		it('should evict the oldest hashes past the size limit', () => {
+			const seen = new SeenTransactions(2);
+			seen.add('0x01');
+			seen.add('0x02');
+			seen.add('0x03');
+
+			expect(seen.size).toBe(2);
+			expect(seen.add('0x01')).toBe(true);
+		});
+	});
+});
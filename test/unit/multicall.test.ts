@@ -0,0 +1,90 @@
+/*
+ * Copyright (c) Velocity BPA, LLC
+ * Licensed under the Business Source License 1.1
+ * Commercial use requires a separate commercial license.
+ * See LICENSE file for details.
+ */
+
+import { ethers } from 'ethers';
+import { ERC20_ABI } from '../../nodes/Ronin/constants/contracts';
+import {
+	MulticallCall,
+	decodeMulticall,
+	encodeMulticall,
+	parseBatchCalls,
+	toPlainValue,
+} from '../../nodes/Ronin/utils/multicall';
+
+describe('multicall', () => {
+	const token = '0x97a9107c1793bc407d6f527b77e7fff4d812bece';
+	const holder = '0x1111111111111111111111111111111111111111';
+	const erc20 = new ethers.Interface(ERC20_ABI);
+	const coder = ethers.AbiCoder.defaultAbiCoder();
+
+	const calls: MulticallCall[] = [
+		{ target: token, abi: ERC20_ABI, method: 'balanceOf', params: [holder] },
+		{ target: token, abi: erc20, method: 'symbol', allowFailure: false },
+	];
+
+	describe('encodeMulticall', () => {
+		it('should encode calldata and default to allowing failures', () => {
+			expect(encodeMulticall(calls)).toEqual([
+				{ target: token, allowFailure: true, callData: erc20.encodeFunctionData('balanceOf', [holder]) },
+				{ target: token, allowFailure: false, callData: erc20.encodeFunctionData('symbol') },
+			]);
+		});
+	});
+
+	describe('decodeMulticall', () => {
+		it('should unwrap single return values', () => {
+			const results = decodeMulticall(calls, [
+				[true, coder.encode(['uint256'], [BigInt(42)])],
+				[true, coder.encode(['string'], ['AXS'])],
+			]);
+
+			expect(results).toEqual([
+				{ success: true, value: BigInt(42) },
+				{ success: true, value: 'AXS' },
+			]);
+		});
+
+		it('should report reverts and empty return data', () => {
+			const revert = ethers.concat(['0x08c379a0', coder.encode(['string'], ['paused'])]);
+			const results = decodeMulticall(calls, [[false, revert], [true, '0x']]);
+
+			expect(results).toEqual([
+				{ success: false, value: null, error: 'paused' },
+				{ success: false, value: null, error: 'No return data (not a contract?)' },
+			]);
+		});
+	});
+
+	describe('parseBatchCalls', () => {
+		it('should use the default ABI for calls without their own', () => {
+			const parsed = parseBatchCalls(
+				JSON.stringify([{ contractAddress: 'ronin:97a9107c1793bc407d6f527b77e7fff4d812bece', functionName: 'totalSupply' }]),
+				ERC20_ABI,
+				true
+			);
+
+			expect(parsed).toEqual([
+				{ target: ethers.getAddress(token), abi: ERC20_ABI, method: 'totalSupply', params: [], allowFailure: true },
+			]);
+		});
+
+		it('should reject invalid calls', () => {
+			expect(() => parseBatchCalls([], ERC20_ABI, true)).toThrow('non-empty');
+			expect(() => parseBatchCalls([{ contractAddress: 'nope', functionName: 'symbol' }], ERC20_ABI, true))
+				.toThrow('Call 1: invalid contract address');
+			expect(() => parseBatchCalls([{ contractAddress: token }], ERC20_ABI, true))
+				.toThrow('Call 1: functionName is required');
+		});
+	});
+
+	describe('toPlainValue', () => {
+		it('should convert bigints and results', () => {
+			const decoded = coder.decode(['uint256', 'address[]'], coder.encode(['uint256', 'address[]'], [BigInt(7), [holder]]));
+			expect(toPlainValue(decoded)).toEqual(['7', [holder]]);
+		});
+	});
+});
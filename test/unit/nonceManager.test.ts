@@ -0,0 +1,95 @@
+/*
+ * Copyright (c) Velocity BPA, LLC
+ * Licensed under the Business Source License 1.1
+ * Commercial use requires a separate commercial license.
+ * See LICENSE file for details.
+ */
+
+import { NonceManager, getNonceAccount, parseNonceOverride } from '../../nodes/Ronin/transport/nonceManager';
+
+describe('nonceManager', () => {
+	const account = getNonceAccount(2020, '0x1111111111111111111111111111111111111111');
+	let clock: number;
+	let manager: NonceManager;
+
+	beforeEach(() => {
+		clock = 0;
+		manager = new NonceManager({ droppedAfter: 1000, now: () => clock });
+	});
+
+	describe('parseNonceOverride', () => {
+		it('should treat empty and auto as automatic', () => {
+			expect(parseNonceOverride('')).toBeUndefined();
+			expect(parseNonceOverride('auto')).toBeUndefined();
+			expect(parseNonceOverride(undefined)).toBeUndefined();
+		});
+
+		it('should parse explicit nonces', () => {
+			expect(parseNonceOverride('7')).toBe(7);
+			expect(parseNonceOverride(0)).toBe(0);
+		});
+
+		it('should reject invalid nonces', () => {
+			expect(() => parseNonceOverride('-1')).toThrow('Invalid nonce');
+			expect(() => parseNonceOverride('1.5')).toThrow('Invalid nonce');
+		});
+	});
+
+	it('should hand out distinct consecutive nonces to concurrent sends', async () => {
+		// The node only sees transactions once they are broadcast, so its count lags behind
+		const getPendingCount = async () => {
+			await new Promise((resolve) => setTimeout(resolve, 1));
+			return 5;
+		};
+
+		const nonces = await Promise.all(
+			Array.from({ length: 50 }, () => manager.acquire(account, getPendingCount))
+		);
+
+		expect([...nonces].sort((a, b) => a - b)).toEqual(Array.from({ length: 50 }, (_, i) => 5 + i));
+	});
+
+	it('should track accounts independently', async () => {
+		const other = getNonceAccount(2021, '0x1111111111111111111111111111111111111111');
+
+		expect(await manager.acquire(account, async () => 3)).toBe(3);
+		expect(await manager.acquire(other, async () => 3)).toBe(3);
+	});
+
+	it('should reuse released nonces to fill gaps', async () => {
+		const first = await manager.acquire(account, async () => 0);
+		const second = await manager.acquire(account, async () => 0);
+		manager.markSent(account, second);
+		manager.release(account, first);
+
+		expect(await manager.acquire(account, async () => 0)).toBe(0);
+		expect(await manager.acquire(account, async () => 0)).toBe(2);
+	});
+
+	it('should skip nonces used outside of the manager', async () => {
+		const nonce = await manager.acquire(account, async () => 0);
+		manager.markSent(account, nonce);
+
+		expect(await manager.acquire(account, async () => 4)).toBe(4);
+		expect(manager.getReserved(account)).toEqual([4]);
+	});
+
+	it('should hand out dropped nonces again', async () => {
+		const nonce = await manager.acquire(account, async () => 0);
+		manager.markSent(account, nonce);
+
+		clock = 500;
+		expect(await manager.acquire(account, async () => 0)).toBe(1);
+
+		clock = 2000;
+		expect(await manager.acquire(account, async () => 0)).toBe(0);
+	});
+
+	it('should release the lock when the pending count cannot be read', async () => {
+		await expect(manager.acquire(account, async () => {
+			throw new Error('rpc down');
+		})).rejects.toThrow('rpc down');
+
+		expect(await manager.acquire(account, async () => 1)).toBe(1);
+	});
+});
@@ -0,0 +1,119 @@
+/*
+ * Copyright (c) Velocity BPA, LLC
+ * Licensed under the Business Source License 1.1
+ * Commercial use requires a separate commercial license.
+ * See LICENSE file for details.
+ */
+
+import { ethers } from 'ethers';
+import {
+	ORDER_TUPLE,
+	ORDER_TYPES,
+	Order,
+	encodeOrder,
+	getCurrentPrice,
+	getOrderDomain,
+	getOrderHash,
+	hasOfferCriteria,
+	matchesOfferCriteria,
+	parseOrder,
+	recoverOrderSigner,
+} from '../../nodes/Ronin/utils/orderUtils';
+
+describe('orderUtils', () => {
+	const order: Order = {
+		maker: '0x1111111111111111111111111111111111111111',
+		kind: 1,
+		assets: [{ erc: 1, addr: '0x32950db2a7164ae833121501c797d79e7b79d74c', id: '42', quantity: '1' }],
+		expiredAt: 2000,
+		paymentToken: '0xc99a6a985ed2cac1ef41640596c5a5f9f4e19ef5',
+		startedAt: 1000,
+		basePrice: '1000',
+		endedAt: 1500,
+		endedPrice: '500',
+		expectedState: '0',
+		nonce: 3,
+		marketFeePercentage: 425,
+	};
+
+	describe('getCurrentPrice', () => {
+		it('should decline linearly during the auction', () => {
+			expect(getCurrentPrice(order, 1000)).toBe(BigInt(1000));
+			expect(getCurrentPrice(order, 1250)).toBe(BigInt(750));
+			expect(getCurrentPrice(order, 1499)).toBe(BigInt(501));
+		});
+
+		it('should hold the start and end prices outside the auction', () => {
+			expect(getCurrentPrice(order, 900)).toBe(BigInt(1000));
+			expect(getCurrentPrice(order, 1800)).toBe(BigInt(500));
+		});
+
+		it('should keep the base price of fixed-price orders', () => {
+			expect(getCurrentPrice({ ...order, endedAt: 0, endedPrice: '0' }, 1800)).toBe(BigInt(1000));
+			expect(getCurrentPrice({ ...order, endedAt: 2000, endedPrice: '1000' }, 1800)).toBe(BigInt(1000));
+		});
+	});
+
+	describe('encodeOrder', () => {
+		it('should encode the order as the exchange tuple', () => {
+			const [decoded] = ethers.AbiCoder.defaultAbiCoder().decode([ORDER_TUPLE], encodeOrder(order));
+
+			expect(decoded.maker).toBe(order.maker);
+			expect(decoded.assets[0].id).toBe(BigInt(42));
+			expect(decoded.marketFeePercentage).toBe(BigInt(425));
+		});
+	});
+
+	describe('recoverOrderSigner', () => {
+		it('should recover the signer for the domain of the chain', async () => {
+			const wallet = new ethers.Wallet('0x59c6995e998f97a5a0044966f0945389dc9e86dae88c7a8412f4603b6b78690d');
+			const gateway = '0xfff9ce5f71ca6178d3beecedb61e7eff1602950e';
+			const signature = await wallet.signTypedData(getOrderDomain(2021, gateway), ORDER_TYPES, order);
+
+			expect(recoverOrderSigner(order, signature, getOrderDomain(2021, gateway))).toBe(wallet.address);
+			expect(recoverOrderSigner(order, signature, getOrderDomain(2020, gateway))).not.toBe(wallet.address);
+		});
+	});
+
+	describe('parseOrder', () => {
+		it('should parse JSON orders with Ronin addresses', () => {
+			const json = JSON.stringify({ ...order, maker: `ronin:${order.maker.slice(2)}` });
+
+			expect(parseOrder(json)).toEqual({
+				...order,
+				maker: ethers.getAddress(order.maker),
+				paymentToken: ethers.getAddress(order.paymentToken),
+				assets: [{ ...order.assets[0], addr: ethers.getAddress(order.assets[0].addr) }],
+			});
+		});
+
+		it('should report missing fields', () => {
+			expect(() => parseOrder({ ...order, nonce: undefined, expectedState: undefined })).toThrow('Order is missing expectedState, nonce');
+			expect(() => parseOrder('{')).toThrow('not valid JSON');
+		});
+	});
+
+	describe('getOrderHash', () => {
+		it('should return the EIP-712 struct hash of the order', () => {
+			expect(getOrderHash(order)).toBe(ethers.TypedDataEncoder.hashStruct('Order', ORDER_TYPES, order));
+			expect(getOrderHash({ ...order, nonce: 4 })).not.toBe(getOrderHash(order));
+		});
+	});
+
+	describe('matchesOfferCriteria', () => {
+		const axie = { class: 'Aquatic', parts: [{ id: 'eyes-zeal' }, { id: 'mouth-risky-fish' }] };
+
+		it('should match any of the classes and all of the parts', () => {
+			expect(matchesOfferCriteria(axie, { classes: ['beast', 'aquatic'], parts: ['Eyes-Zeal'] })).toBe(true);
+			expect(matchesOfferCriteria(axie, { classes: ['beast'] })).toBe(false);
+			expect(matchesOfferCriteria(axie, { parts: ['eyes-zeal', 'horn-shoal-star'] })).toBe(false);
+		});
+
+		it('should match any Axie without criteria', () => {
+			expect(matchesOfferCriteria(axie, null)).toBe(true);
+			expect(matchesOfferCriteria(axie, {})).toBe(true);
+			expect(hasOfferCriteria({ classes: [], parts: [] })).toBe(false);
+			expect(hasOfferCriteria({ parts: ['eyes-zeal'] })).toBe(true);
+		});
+	});
+});
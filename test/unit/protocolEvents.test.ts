@@ -0,0 +1,104 @@
+/*
+ * Copyright (c) Velocity BPA, LLC
+ * Licensed under the Business Source License 1.1
+ * Commercial use requires a separate commercial license.
+ * See LICENSE file for details.
+ */
+
+import { ethers } from 'ethers';
+import { getToken } from '../../nodes/Ronin/constants/tokens';
+import {
+	BRIDGE_INTERFACE,
+	KATANA_PAIR_INTERFACE,
+	STAKING_INTERFACE,
+	buildKatanaPair,
+	decodeBridgeLog,
+	decodeKatanaLog,
+	decodeStakingLog,
+} from '../../nodes/Ronin/utils/protocolEvents';
+
+describe('protocolEvents', () => {
+	const user = '0x1111111111111111111111111111111111111111';
+	const validator = '0x2222222222222222222222222222222222222222';
+
+	const makeLog = (iface: ethers.Interface, name: string, args: unknown[], address = ethers.ZeroAddress) => {
+		const encoded = iface.encodeEventLog(name, args);
+		return { address, topics: encoded.topics, data: encoded.data, transactionHash: '0xtx' } as unknown as ethers.Log;
+	};
+
+	describe('decodeStakingLog', () => {
+		it('should decode a delegation in RON', () => {
+			const log = makeLog(STAKING_INTERFACE, 'Delegated', [user, validator, ethers.parseEther('250')]);
+			const decoded = decodeStakingLog(log);
+
+			expect(decoded.fields).toMatchObject({
+				event: 'delegated',
+				delegator: 'ronin:' + user.slice(2),
+				validator: 'ronin:' + validator.slice(2),
+				amount: '250.0',
+			});
+			expect(decoded.parties).toEqual([user]);
+		});
+
+		it('should use the claiming user as delegator for reward claims', () => {
+			const log = makeLog(STAKING_INTERFACE, 'RewardClaimed', [validator, user, ethers.parseEther('1.5')]);
+			expect(decodeStakingLog(log).fields).toMatchObject({ event: 'rewardClaimed', amount: '1.5' });
+			expect(decodeStakingLog(log).parties).toEqual([user]);
+		});
+	});
+
+	describe('decodeBridgeLog', () => {
+		const usdc = getToken('mainnet', 'USDC')!;
+
+		it('should decode deposits with token decimals', () => {
+			const amount = ethers.parseUnits('100', usdc.decimals);
+			const log = makeLog(BRIDGE_INTERFACE, 'Deposited', [usdc.address, user, user, amount]);
+
+			expect(decodeBridgeLog(log, 'mainnet').fields).toMatchObject({
+				event: 'deposited',
+				tokenSymbol: 'USDC',
+				amount: '100.0',
+			});
+		});
+
+		it('should decode withdrawal ids', () => {
+			const requested = makeLog(BRIDGE_INTERFACE, 'WithdrawalRequested', [7, user, usdc.address, BigInt(1)]);
+			const completed = makeLog(BRIDGE_INTERFACE, 'WithdrawalCompleted', [7]);
+
+			expect(decodeBridgeLog(requested, 'mainnet').fields.withdrawalId).toBe('7');
+			expect(decodeBridgeLog(completed, 'mainnet').fields).toEqual({ event: 'withdrawalCompleted', withdrawalId: '7' });
+		});
+	});
+
+	describe('decodeKatanaLog', () => {
+		const wron = getToken('mainnet', 'WRON')!;
+		const axs = getToken('mainnet', 'AXS')!;
+		const pair = buildKatanaPair('0x3333333333333333333333333333333333333333', wron, axs);
+
+		it('should sort pair tokens by address', () => {
+			expect(pair.token0.address.toLowerCase() < pair.token1.address.toLowerCase()).toBe(true);
+		});
+
+		it('should decode swap direction and amounts', () => {
+			const amountIn = ethers.parseUnits('10', pair.token0.decimals);
+			const amountOut = ethers.parseUnits('2', pair.token1.decimals);
+			const log = makeLog(KATANA_PAIR_INTERFACE, 'Swap', [user, amountIn, 0, 0, amountOut, user]);
+
+			expect(decodeKatanaLog(log, pair).fields).toMatchObject({
+				event: 'swap',
+				tokenIn: pair.token0.symbol,
+				amountIn: '10.0',
+				tokenOut: pair.token1.symbol,
+				amountOut: '2.0',
+			});
+		});
+
+		it('should decode reserves per token', () => {
+			const log = makeLog(KATANA_PAIR_INTERFACE, 'Sync', [ethers.parseEther('5'), ethers.parseEther('6')]);
+			const { fields } = decodeKatanaLog(log, pair);
+
+			expect(fields[`reserve${pair.token0.symbol}`]).toBe('5.0');
+			expect(fields[`reserve${pair.token1.symbol}`]).toBe('6.0');
+		});
+	});
+});
@@ -0,0 +1,73 @@
+/*
+ * Copyright (c) Velocity BPA, LLC
+ * Licensed under the Business Source License 1.1
+ * Commercial use requires a separate commercial license.
+ * See LICENSE file for details.
+ */
+
+import {
+	ReorgState,
+	getTrackedBlocks,
+	pruneEmissions,
+	recordEmission,
+	takeReorgedBlocks,
+} from '../../nodes/Ronin/utils/reorgTracker';
+
+describe('reorgTracker', () => {
+	let state: ReorgState;
+
+	beforeEach(() => {
+		state = {};
+		recordEmission(state, 100, '0xaaa', ['0xtx1']);
+		recordEmission(state, 102, '0xbbb', ['0xtx2', '0xtx3']);
+		recordEmission(state, 105, '0xccc', ['0xtx4']);
+	});
+
+	describe('recordEmission', () => {
+		it('should track emitted blocks in ascending order', () => {
+			expect(getTrackedBlocks(state)).toEqual([100, 102, 105]);
+		});
+
+		it('should merge transactions emitted for the same block', () => {
+			recordEmission(state, 100, '0xaaa', ['0xtx1', '0xtx5']);
+			expect(state.emittedBlocks![100].txHashes).toEqual(['0xtx1', '0xtx5']);
+		});
+	});
+
+	describe('pruneEmissions', () => {
+		it('should drop blocks below the minimum height', () => {
+			pruneEmissions(state, 101);
+			expect(getTrackedBlocks(state)).toEqual([102, 105]);
+		});
+	});
+
+	describe('takeReorgedBlocks', () => {
+		it('should return nothing when hashes are unchanged', () => {
+			const hashes = new Map([[100, '0xaaa'], [102, '0xbbb'], [105, '0xccc']]);
+			expect(takeReorgedBlocks(state, hashes)).toEqual([]);
+			expect(getTrackedBlocks(state)).toEqual([100, 102, 105]);
+		});
+
+		it('should return the changed block and every block above it', () => {
+			const hashes = new Map([[100, '0xaaa'], [102, '0xddd'], [105, '0xccc']]);
+			const reorged = takeReorgedBlocks(state, hashes);
+
+			expect(reorged.map((b) => b.blockNumber)).toEqual([102, 105]);
+			expect(reorged[0]).toEqual({
+				blockNumber: 102,
+				hash: '0xbbb',
+				newHash: '0xddd',
+				txHashes: ['0xtx2', '0xtx3'],
+			});
+			expect(getTrackedBlocks(state)).toEqual([100]);
+		});
+
+		it('should treat a missing block as reorged', () => {
+			const hashes = new Map<number, string | null>([[100, '0xaaa'], [102, '0xbbb'], [105, null]]);
+			const reorged = takeReorgedBlocks(state, hashes);
+
+			expect(reorged).toHaveLength(1);
+			expect(reorged[0].newHash).toBeNull();
+		});
+	});
+});
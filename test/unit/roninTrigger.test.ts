@@ -0,0 +1,122 @@
+/*
+ * Copyright (c) Velocity BPA, LLC
+ * Licensed under the Business Source License 1.1
+ * Commercial use requires a separate commercial license.
+ * See LICENSE file for details.
+ */
+
+import { AddressInfo } from 'net';
+import { Server, createServer } from 'http';
+import { ethers } from 'ethers';
+import { IDataObject, INodeExecutionData, ITriggerFunctions } from 'n8n-workflow';
+import { ERC20_ABI } from '../../nodes/Ronin/constants/contracts';
+import { RoninTrigger } from '../../nodes/Ronin/RoninTrigger.node';
+
+describe('RoninTrigger', () => {
+	const sender = '0x1111111111111111111111111111111111111111';
+	const token = '0xa8754b9fa15fc18bb59458815510e40a12cd2014';
+	const erc20 = new ethers.Interface(ERC20_ABI);
+
+	const poolTx = (nonce: number, input: string) => ({
+		hash: ethers.id(`tx-${nonce}`),
+		from: sender,
+		to: token,
+		input,
+		value: '0x0',
+		nonce: `0x${nonce.toString(16)}`,
+	});
+	const txpool = {
+		pending: {
+			[sender]: {
+				'0': poolTx(0, erc20.encodeFunctionData('transfer', [token, 1])),
+				'1': poolTx(1, erc20.encodeFunctionData('approve', [token, 1])),
+				'2': poolTx(2, erc20.encodeFunctionData('transferFrom', [sender, token, 1])),
+			},
+		},
+	};
+
+	let server: Server;
+	let url: string;
+	// txpool_content calls answered before the node stops exposing it
+	let txpoolCalls: number;
+
+	beforeEach(() => {
+		txpoolCalls = Infinity;
+	});
+
+	beforeAll(async () => {
+		const handleRpc = ({ id, method }: { id: number; method: string }) => {
+			const results: Record<string, unknown> = { eth_chainId: '0x7e4', eth_blockNumber: '0x10' };
+			if (method === 'txpool_content' && txpoolCalls-- > 0) {
+				results.txpool_content = txpool;
+			}
+			return method in results
+				? { jsonrpc: '2.0', id, result: results[method] }
+				: { jsonrpc: '2.0', id, error: { code: -32601, message: `Unsupported method ${method}` } };
+		};
+
+		server = createServer((req, res) => {
+			let body = '';
+			req.on('data', (chunk) => (body += chunk));
+			req.on('end', () => {
+				const payload = JSON.parse(body);
+				res.setHeader('content-type', 'application/json');
+				res.end(JSON.stringify(Array.isArray(payload) ? payload.map(handleRpc) : handleRpc(payload)));
+			});
+		});
+		await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+		url = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+	});
+
+	afterAll(async () => {
+		await new Promise((resolve) => server.close(resolve));
+	});
+
+	const runTrigger = async (parameters: IDataObject) => {
+		const emitted: INodeExecutionData[][][] = [];
+		const errors: unknown[] = [];
+		const context = {
+			getNodeParameter: (name: string, fallback?: unknown) => parameters[name] ?? fallback,
+			getCredentials: async () => ({ network: 'custom', rpcUrl: url }),
+			getWorkflowStaticData: () => ({}),
+			emit: (data: INodeExecutionData[][]) => emitted.push(data),
+			helpers: { returnJsonArray: (items: IDataObject[]) => items.map((json) => ({ json })) },
+			logger: { error: (...args: unknown[]) => errors.push(args), warn: () => undefined, info: () => undefined, debug: () => undefined },
+		} as unknown as ITriggerFunctions;
+
+		const response = await new RoninTrigger().trigger.call(context);
+		await response.closeFunction?.();
+		return { emitted, errors };
+	};
+
+	describe('pending transactions', () => {
+		it('should filter by multi-argument function signatures', async () => {
+			const { emitted, errors } = await runTrigger({
+				event: 'pendingTransaction',
+				pollingInterval: 60,
+				watchAddress: sender,
+				methodSelectors: 'transfer(address,uint256), approve(address,uint256)',
+			});
+
+			expect(errors).toEqual([]);
+			expect(emitted).toHaveLength(1);
+			expect(emitted[0][0].map((item) => item.json.selector)).toEqual(['0xa9059cbb', '0x095ea7b3']);
+		});
+
+		it('should fail activation when the node has no txpool and no WebSocket URL is set', async () => {
+			txpoolCalls = 0;
+
+			await expect(runTrigger({ event: 'pendingTransaction', pollingInterval: 60 }))
+				.rejects.toThrow('does not expose txpool_content');
+		});
+
+		it('should log poll errors through the node logger', async () => {
+			txpoolCalls = 1;
+
+			const { emitted, errors } = await runTrigger({ event: 'pendingTransaction', pollingInterval: 60 });
+
+			expect(emitted).toEqual([]);
+			expect(errors).toEqual([[expect.stringContaining('does not expose txpool_content')]]);
+		});
+	});
+});
@@ -0,0 +1,190 @@
+/*
+ * Copyright (c) Velocity BPA, LLC
+ * Licensed under the Business Source License 1.1
+ * Commercial use requires a separate commercial license.
+ * See LICENSE file for details.
+ */
+
+import { AddressInfo } from 'net';
+import { Server, createServer } from 'http';
+import { ethers } from 'ethers';
+import { IExecuteFunctions } from 'n8n-workflow';
+import { executeUtility } from '../../nodes/Ronin/actions/utility';
+import { createRoninClient } from '../../nodes/Ronin/transport/roninClient';
+import { RemoteSigner, createSigner, deriveMnemonicWallet } from '../../nodes/Ronin/transport/signers';
+
+describe('signers', () => {
+	const mnemonic = 'test test test test test test test test test test test junk';
+	const key = '0x59c6995e998f97a5a0044966f0945389dc9e86dae88c7a8412f4603b6b78690d';
+	const account = new ethers.Wallet(key);
+
+	describe('createSigner', () => {
+		it('should create a wallet from a private key', async () => {
+			const signer = await createSigner({ privateKey: key }, 2020);
+			expect(signer?.address).toBe(account.address);
+		});
+
+		it('should return undefined without a key', async () => {
+			expect(await createSigner({ signerType: 'privateKey', privateKey: '' }, 2020)).toBeUndefined();
+		});
+
+		it('should decrypt keystores', async () => {
+			const keystore = ethers.encryptKeystoreJsonSync(
+				{ address: account.address, privateKey: key },
+				'secret',
+				{ scrypt: { N: 16 } }
+			);
+
+			const signer = await createSigner({ signerType: 'keystore', keystore, keystorePassword: 'secret' }, 2020);
+			expect(signer?.address).toBe(account.address);
+
+			await expect(createSigner({ signerType: 'keystore', keystore, keystorePassword: 'wrong' }, 2020))
+				.rejects.toThrow('Unable to decrypt keystore');
+		});
+
+		it('should derive mnemonic accounts', async () => {
+			const signer = await createSigner({ signerType: 'mnemonic', mnemonic, accountIndex: 1 }, 2020);
+			expect(signer?.address).toBe('0x70997970C51812dc3A010C7d01b50e0d17dc79C8');
+		});
+	});
+
+	describe('deriveMnemonicWallet', () => {
+		it('should append the index to the derivation path', () => {
+			expect(deriveMnemonicWallet(mnemonic).address).toBe('0xf39Fd6e51aad88F6F4ce6aB8827279cffFb92266');
+			expect(deriveMnemonicWallet(mnemonic, "m/44'/60'/0'/0/", 1).path).toBe("m/44'/60'/0'/0/1");
+		});
+
+		it('should reject invalid indexes', () => {
+			expect(() => deriveMnemonicWallet(mnemonic, undefined, -1)).toThrow('Invalid account index');
+		});
+
+		it('should match the accounts listed by Derive Addresses', async () => {
+			const derivationPath = "m/44'/60'/{index}'/0/0";
+			const parameters: Record<string, unknown> = { operation: 'deriveAddresses', pathTemplate: '', startIndex: 2, count: 1 };
+			const context = {
+				getNodeParameter: (name: string) => parameters[name],
+				getCredentials: async () => ({ signerType: 'mnemonic', mnemonic, derivationPath }),
+			} as unknown as IExecuteFunctions;
+
+			const [derived] = (await executeUtility.call(context, 0)) as Array<{ path: string; addressHex: string }>;
+			const wallet = deriveMnemonicWallet(mnemonic, derivationPath, 2);
+
+			expect(derived.path).toBe(wallet.path);
+			expect(derived.addressHex).toBe(wallet.address);
+		});
+	});
+
+	describe('RemoteSigner', () => {
+		let server: Server;
+		let url: string;
+		const requests: Array<{ method: string; params: unknown[]; auth?: string }> = [];
+
+		// Signing service stub holding the key of `account`
+		beforeAll(async () => {
+			server = createServer((req, res) => {
+				let body = '';
+				req.on('data', (chunk) => (body += chunk));
+				req.on('end', async () => {
+					const { id, method, params } = JSON.parse(body);
+					requests.push({ method, params, auth: req.headers.authorization });
+
+					let result: unknown;
+					if (method === 'eth_accounts') {
+						result = [account.address.toLowerCase()];
+					} else if (method === 'eth_signTransaction') {
+						const tx = params[0];
+						const raw = await account.signTransaction({
+							to: tx.to,
+							value: BigInt(tx.value ?? 0),
+							data: tx.data ?? tx.input,
+							nonce: Number(tx.nonce),
+							gasLimit: BigInt(tx.gas),
+							maxFeePerGas: BigInt(tx.maxFeePerGas),
+							maxPriorityFeePerGas: BigInt(tx.maxPriorityFeePerGas),
+							chainId: BigInt(tx.chainId),
+							type: 2,
+						});
+						result = { raw, tx };
+					} else if (method === 'eth_sign') {
+						result = await account.signMessage(ethers.getBytes(params[1]));
+					}
+
+					res.setHeader('content-type', 'application/json');
+					res.end(JSON.stringify({ jsonrpc: '2.0', id, result }));
+				});
+			});
+			await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+			url = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+		});
+
+		afterAll(async () => {
+			await new Promise((resolve) => server.close(resolve));
+		});
+
+		it('should use the first account of the signer', async () => {
+			const signer = await RemoteSigner.connectTo(url, { chainId: 2021, token: 'abc' });
+
+			expect(signer.address).toBe(account.address);
+			expect(requests[requests.length - 1]).toEqual({ method: 'eth_accounts', params: [], auth: 'Bearer abc' });
+		});
+
+		it('should sign transactions with eth_signTransaction', async () => {
+			const signer = await createSigner(
+				{ signerType: 'remote', remoteSignerUrl: url, remoteSignerAddress: `ronin:${account.address.slice(2)}` },
+				2021
+			);
+			const raw = await signer!.signTransaction({
+				to: '0x1111111111111111111111111111111111111111',
+				value: BigInt(1000),
+				nonce: 3,
+				gasLimit: BigInt(21000),
+				maxFeePerGas: BigInt(20000000000),
+				maxPriorityFeePerGas: BigInt(1000000000),
+				chainId: BigInt(2021),
+			});
+
+			const tx = ethers.Transaction.from(raw);
+			expect(tx.from).toBe(account.address);
+			expect(tx.nonce).toBe(3);
+			expect(tx.value).toBe(BigInt(1000));
+			expect(requests[requests.length - 1].params[0]).toMatchObject({ from: account.address.toLowerCase(), nonce: '0x3' });
+		});
+
+		it('should reject transactions signed by another account', async () => {
+			const signer = new RemoteSigner(
+				'0x2222222222222222222222222222222222222222',
+				new ethers.JsonRpcProvider(url, ethers.Network.from(2021), { staticNetwork: true, batchMaxCount: 1 })
+			);
+
+			await expect(signer.signTransaction({
+				to: '0x1111111111111111111111111111111111111111',
+				nonce: 0,
+				gasLimit: BigInt(21000),
+				maxFeePerGas: BigInt(1),
+				maxPriorityFeePerGas: BigInt(1),
+				chainId: BigInt(2021),
+			})).rejects.toThrow('Remote signer signed for');
+		});
+
+		it('should sign messages with eth_sign', async () => {
+			const signer = await RemoteSigner.connectTo(url, { chainId: 2021, address: account.address });
+			const signature = await signer.signMessage('hello');
+
+			expect(ethers.verifyMessage('hello', signature)).toBe(account.address);
+		});
+
+		it('should only reach the signer once a client needs it', async () => {
+			const context = {
+				getCredentials: async () => ({ network: 'custom', rpcUrl: url, signerType: 'remote', remoteSignerUrl: url }),
+			} as unknown as IExecuteFunctions;
+			requests.length = 0;
+
+			const client = await createRoninClient(context);
+			expect(requests).toEqual([]);
+
+			expect(await client.getSenderAddress()).toBe(account.address);
+			expect(await client.getSenderAddress()).toBe(account.address);
+			expect(requests.map((request) => request.method)).toEqual(['eth_accounts']);
+		});
+	});
+});
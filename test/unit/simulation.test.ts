@@ -0,0 +1,159 @@
+/*
+ * Copyright (c) Velocity BPA, LLC
+ * Licensed under the Business Source License 1.1
+ * Commercial use requires a separate commercial license.
+ * See LICENSE file for details.
+ */
+
+import { ethers } from 'ethers';
+import {
+	canDeriveBalanceDeltas,
+	computeBalanceDeltas,
+	decodeApprovalSpender,
+	decodeRevertReason,
+	decodeTransferCall,
+	getRevertReason,
+	parseBlockTag,
+	toRpcBlockTag,
+} from '../../nodes/Ronin/utils/simulation';
+
+describe('simulation', () => {
+	const sender = '0x1111111111111111111111111111111111111111';
+	const recipient = '0x2222222222222222222222222222222222222222';
+	const token = '0x3333333333333333333333333333333333333333';
+	const erc20 = new ethers.Interface([
+		'function transfer(address to, uint256 amount)',
+		'function transferFrom(address from, address to, uint256 amount)',
+		'function approve(address spender, uint256 amount)',
+		'function setApprovalForAll(address operator, bool approved)',
+	]);
+
+	describe('parseBlockTag', () => {
+		it('should accept tags, decimal and hex block numbers', () => {
+			expect(parseBlockTag('')).toBe('latest');
+			expect(parseBlockTag('pending')).toBe('pending');
+			expect(parseBlockTag('12345')).toBe(12345);
+			expect(parseBlockTag('0x10')).toBe(16);
+			expect(toRpcBlockTag(16)).toBe('0x10');
+		});
+
+		it('should reject other input', () => {
+			expect(() => parseBlockTag('yesterday')).toThrow('Invalid simulation block');
+		});
+	});
+
+	describe('decodeRevertReason', () => {
+		it('should decode Error(string)', () => {
+			const data = '0x08c379a0' + ethers.AbiCoder.defaultAbiCoder().encode(['string'], ['insufficient balance']).slice(2);
+			expect(decodeRevertReason(data)).toBe('insufficient balance');
+		});
+
+		it('should decode panics', () => {
+			const data = '0x4e487b71' + ethers.AbiCoder.defaultAbiCoder().encode(['uint256'], [0x11]).slice(2);
+			expect(decodeRevertReason(data)).toBe('Panic: arithmetic overflow or underflow');
+		});
+
+		it('should fall back to the selector of custom errors', () => {
+			expect(decodeRevertReason('0xdeadbeef')).toBe('Custom error 0xdeadbeef');
+			expect(decodeRevertReason('0x')).toBeNull();
+		});
+
+		it('should find revert data nested in provider errors', () => {
+			const data = '0x08c379a0' + ethers.AbiCoder.defaultAbiCoder().encode(['string'], ['paused']).slice(2);
+			expect(getRevertReason({ message: 'call failed', info: { error: { data } } })).toBe('paused');
+			expect(getRevertReason({ shortMessage: 'missing revert data' })).toBe('missing revert data');
+		});
+	});
+
+	describe('decodeTransferCall', () => {
+		it('should decode transfer and transferFrom', () => {
+			expect(decodeTransferCall(erc20.encodeFunctionData('transfer', [recipient, 5]), sender)).toEqual({
+				from: sender,
+				to: ethers.getAddress(recipient),
+				amount: BigInt(5),
+			});
+			expect(decodeTransferCall(erc20.encodeFunctionData('transferFrom', [recipient, sender, 7]), sender)).toEqual({
+				from: ethers.getAddress(recipient),
+				to: ethers.getAddress(sender),
+				amount: BigInt(7),
+			});
+		});
+
+		it('should ignore other calls', () => {
+			expect(decodeTransferCall(erc20.encodeFunctionData('approve', [recipient, 5]), sender)).toBeNull();
+			expect(decodeTransferCall('0x', sender)).toBeNull();
+		});
+	});
+
+	describe('decodeApprovalSpender', () => {
+		it('should decode the spender of approvals', () => {
+			expect(decodeApprovalSpender(erc20.encodeFunctionData('approve', [recipient, 5]))).toBe(recipient.toLowerCase());
+			expect(decodeApprovalSpender(erc20.encodeFunctionData('setApprovalForAll', [recipient, true]))).toBe(recipient.toLowerCase());
+		});
+
+		it('should ignore revocations and other calls', () => {
+			expect(decodeApprovalSpender(erc20.encodeFunctionData('approve', [recipient, 0]))).toBeNull();
+			expect(decodeApprovalSpender(erc20.encodeFunctionData('transfer', [recipient, 5]))).toBeNull();
+			expect(decodeApprovalSpender('0x')).toBeNull();
+		});
+	});
+
+	describe('canDeriveBalanceDeltas', () => {
+		const transfer = { token, from: sender, to: recipient, amount: BigInt(5), symbol: 'USDC', decimals: 6 };
+
+		it('should derive RON transfers, token transfers and approvals', () => {
+			expect(canDeriveBalanceDeltas('0x', null)).toBe(true);
+			expect(canDeriveBalanceDeltas(erc20.encodeFunctionData('transfer', [recipient, 5]), transfer)).toBe(true);
+			expect(canDeriveBalanceDeltas(erc20.encodeFunctionData('approve', [recipient, 5]), null)).toBe(true);
+		});
+
+		it('should not derive other contract calls', () => {
+			const swap = new ethers.Interface(['function swapExactTokensForTokens(uint256,uint256,address[],address,uint256)'])
+				.encodeFunctionData('swapExactTokensForTokens', [1, 1, [token, recipient], sender, 1]);
+			expect(canDeriveBalanceDeltas(swap, null)).toBe(false);
+		});
+	});
+
+	describe('computeBalanceDeltas', () => {
+		const ron = ethers.parseEther('1');
+		const fee = ethers.parseEther('0.01');
+
+		it('should charge value and fee to the sender', () => {
+			expect(computeBalanceDeltas({ from: sender, to: recipient, value: ron, gasCost: fee })).toEqual([
+				{ address: 'ronin:1111111111111111111111111111111111111111', asset: 'RON', symbol: 'RON', delta: '-1.01', deltaRaw: '-1010000000000000000' },
+				{ address: 'ronin:2222222222222222222222222222222222222222', asset: 'RON', symbol: 'RON', delta: '1.0', deltaRaw: '1000000000000000000' },
+			]);
+		});
+
+		it('should add token deltas for ERC20 transfers', () => {
+			const deltas = computeBalanceDeltas({
+				from: sender,
+				to: token,
+				value: BigInt(0),
+				gasCost: fee,
+				transfer: { token, from: sender, to: recipient, amount: BigInt(2500000), symbol: 'USDC', decimals: 6 },
+			});
+
+			expect(deltas.map(({ address, asset, delta }) => ({ address, asset, delta }))).toEqual([
+				{ address: 'ronin:1111111111111111111111111111111111111111', asset: 'RON', delta: '-0.01' },
+				{ address: 'ronin:1111111111111111111111111111111111111111', asset: token, delta: '-2.5' },
+				{ address: 'ronin:2222222222222222222222222222222222222222', asset: token, delta: '2.5' },
+			]);
+		});
+
+		it('should report NFT transfers by token ID', () => {
+			const deltas = computeBalanceDeltas({
+				from: sender,
+				to: token,
+				value: BigInt(0),
+				gasCost: BigInt(0),
+				transfer: { token, from: sender, to: recipient, amount: BigInt(42), symbol: 'AXIE', decimals: null },
+			});
+
+			expect(deltas).toEqual([
+				{ address: 'ronin:1111111111111111111111111111111111111111', asset: token, symbol: 'AXIE', delta: '-1', deltaRaw: '-1', tokenId: '42' },
+				{ address: 'ronin:2222222222222222222222222222222222222222', asset: token, symbol: 'AXIE', delta: '1', deltaRaw: '1', tokenId: '42' },
+			]);
+		});
+	});
+});
@@ -0,0 +1,215 @@
+/*
+ * Copyright (c) Velocity BPA, LLC
+ * Licensed under the Business Source License 1.1
+ * Commercial use requires a separate commercial license.
+ * See LICENSE file for details.
+ */
+
+import { ethers } from 'ethers';
+import { DISPERSE_ABI, ERC20_ABI, ERC721_ABI } from '../../nodes/Ronin/constants/contracts';
+import {
+	NATIVE_ASSET,
+	PolicyViolationError,
+	SPEND_WINDOW,
+	SpendLedger,
+	checkSpendPolicy,
+	getLedgerKey,
+	getTransactionSpends,
+	parseSpendPolicy,
+	recordSpends,
+} from '../../nodes/Ronin/utils/spendPolicy';
+
+describe('spendPolicy', () => {
+	const slp = '0xa8754b9fa15fc18bb59458815510e40a12cd2014';
+	const axie = '0x32950db2a7164ae833121501c797d79e7b79d74c';
+	const sender = '0x1111111111111111111111111111111111111111';
+	const alice = '0x2222222222222222222222222222222222222222';
+	const bob = '0x3333333333333333333333333333333333333333';
+	const account = `2020:${sender}`;
+	const erc20 = new ethers.Interface(ERC20_ABI);
+
+	describe('parseSpendPolicy', () => {
+		it('should return null when no policy is configured', () => {
+			expect(parseSpendPolicy('', 'mainnet')).toBeNull();
+			expect(parseSpendPolicy(undefined, 'mainnet')).toBeNull();
+		});
+
+		it('should normalize assets, addresses and methods', () => {
+			const policy = parseSpendPolicy(JSON.stringify({
+				limits: { ron: { maxPerTransaction: '10' }, SLP: { maxPer24h: 5000 } },
+				allowedRecipients: [`ronin:${alice.slice(2)}`],
+				blockedMethods: ['approve(address,uint256)', '0xA22CB465'],
+				requireConfirmation: true,
+			}), 'mainnet');
+
+			expect(policy).toEqual({
+				limits: {
+					RON: { maxPerTransaction: '10', maxPer24h: undefined },
+					[slp]: { maxPerTransaction: undefined, maxPer24h: '5000' },
+				},
+				allowedRecipients: [alice],
+				blockedRecipients: [],
+				blockedMethods: ['0x095ea7b3', '0xa22cb465'],
+				requireConfirmation: true,
+			});
+		});
+
+		it('should reject invalid policies', () => {
+			expect(() => parseSpendPolicy('{', 'mainnet')).toThrow('not valid JSON');
+			expect(() => parseSpendPolicy({ limits: { NOPE: {} } }, 'mainnet')).toThrow('unknown token "NOPE"');
+			expect(() => parseSpendPolicy({ blockedRecipients: ['x'] }, 'mainnet')).toThrow('invalid address "x"');
+		});
+	});
+
+	describe('getTransactionSpends', () => {
+		it('should read RON transfers', () => {
+			expect(getTransactionSpends({ to: alice, value: BigInt(5) })).toEqual({
+				spends: [{ asset: NATIVE_ASSET, amount: BigInt(5), recipient: alice, kind: 'native' }],
+				recipients: [alice],
+			});
+		});
+
+		it('should decode token and NFT transfers', () => {
+			const transfer = getTransactionSpends({ to: slp, data: erc20.encodeFunctionData('transfer', [bob, 40]) });
+			expect(transfer.spends).toEqual([{ asset: slp, amount: BigInt(40), recipient: bob, kind: 'token' }]);
+			expect(transfer.recipients).toEqual([bob]);
+
+			const nft = getTransactionSpends({
+				to: axie,
+				data: new ethers.Interface(ERC721_ABI).encodeFunctionData('safeTransferFrom(address,address,uint256)', [sender, bob, 123]),
+			});
+			expect(nft.spends).toEqual([{ asset: axie, amount: BigInt(1), recipient: bob, kind: 'nft' }]);
+		});
+
+		it('should decode disperse batches', () => {
+			const data = new ethers.Interface(DISPERSE_ABI).encodeFunctionData('disperseEther', [[alice, bob], [1, 2]]);
+			const { spends, recipients } = getTransactionSpends({ to: sender, value: BigInt(3), data });
+
+			expect(spends.map((spend) => spend.amount)).toEqual([BigInt(1), BigInt(2)]);
+			expect(recipients).toEqual([alice, bob]);
+		});
+
+		it('should check other contract calls against the contract', () => {
+			const data = erc20.encodeFunctionData('balanceOf', [bob]);
+			expect(getTransactionSpends({ to: slp, data })).toEqual({ spends: [], recipients: [slp] });
+		});
+
+		it('should check approvals against their spender', () => {
+			const approve = erc20.encodeFunctionData('approve', [bob, ethers.MaxUint256]);
+			expect(getTransactionSpends({ to: slp, data: approve })).toEqual({ spends: [], recipients: [bob] });
+
+			const increase = new ethers.Interface(['function increaseAllowance(address,uint256)'])
+				.encodeFunctionData('increaseAllowance', [alice, 1]);
+			expect(getTransactionSpends({ to: slp, data: increase }).recipients).toEqual([alice]);
+
+			const operator = new ethers.Interface(ERC721_ABI).encodeFunctionData('setApprovalForAll', [bob, true]);
+			expect(getTransactionSpends({ to: axie, data: operator }).recipients).toEqual([bob]);
+		});
+
+		it('should not check revocations against any recipient', () => {
+			const revoke = erc20.encodeFunctionData('approve', [bob, 0]);
+			expect(getTransactionSpends({ to: slp, data: revoke }).recipients).toEqual([]);
+
+			const operator = new ethers.Interface(ERC721_ABI).encodeFunctionData('setApprovalForAll', [bob, false]);
+			expect(getTransactionSpends({ to: axie, data: operator }).recipients).toEqual([]);
+		});
+	});
+
+	describe('checkSpendPolicy', () => {
+		const policy = parseSpendPolicy({
+			limits: { RON: { maxPerTransaction: '10', maxPer24h: '15' } },
+			blockedRecipients: [bob],
+			blockedMethods: ['approve(address,uint256)'],
+		}, 'mainnet')!;
+
+		const check = (overrides: Partial<Parameters<typeof checkSpendPolicy>[1]> = {}) => checkSpendPolicy(policy, {
+			spends: [],
+			recipients: [],
+			selector: null,
+			confirmed: false,
+			account,
+			ledger: {},
+			now: SPEND_WINDOW * 2,
+			decimals: { RON: 18 },
+			...overrides,
+		});
+
+		const ron = (amount: string) => [{ asset: NATIVE_ASSET, amount: ethers.parseEther(amount), recipient: alice, kind: 'native' as const }];
+
+		it('should allow transactions within the policy', () => {
+			expect(check({ spends: ron('10'), recipients: [alice] })).toEqual([]);
+		});
+
+		it('should enforce the per-transaction cap', () => {
+			expect(check({ spends: ron('10.5') })).toEqual([expect.objectContaining({
+				rule: 'maxPerTransaction',
+				asset: NATIVE_ASSET,
+				limit: ethers.parseEther('10').toString(),
+			})]);
+		});
+
+		it('should enforce the rolling 24h cap over the ledger', () => {
+			const ledger: SpendLedger = {
+				[getLedgerKey(account, NATIVE_ASSET)]: [
+					{ at: 1, amount: ethers.parseEther('9').toString() },
+					{ at: SPEND_WINDOW + 10, amount: ethers.parseEther('6').toString() },
+				],
+			};
+
+			expect(check({ spends: ron('9'), ledger })).toEqual([]);
+			expect(check({ spends: ron('9.5'), ledger })).toEqual([expect.objectContaining({
+				rule: 'maxPer24h',
+				spentInWindow: ethers.parseEther('6').toString(),
+			})]);
+		});
+
+		it('should reject approvals to blocked or non-allowlisted spenders', () => {
+			const { spends, recipients } = getTransactionSpends({
+				to: slp,
+				data: erc20.encodeFunctionData('approve', [bob, ethers.MaxUint256]),
+			});
+			const checkApproval = (overrides: Partial<typeof policy>) => checkSpendPolicy(
+				{ ...policy, blockedMethods: [], ...overrides },
+				{ spends, recipients, selector: null, confirmed: false, account, ledger: {}, now: 0, decimals: {} }
+			);
+
+			expect(checkApproval({}).map((violation) => violation.rule)).toEqual(['recipientBlocked']);
+			expect(checkApproval({ blockedRecipients: [], allowedRecipients: [slp] })).toEqual([
+				expect.objectContaining({ rule: 'recipientNotAllowed', recipient: bob }),
+			]);
+		});
+
+		it('should report blocked recipients, methods and missing confirmations together', () => {
+			const strict = { ...policy, allowedRecipients: [alice], requireConfirmation: true };
+			const violations = checkSpendPolicy(strict, {
+				spends: [],
+				recipients: [bob, slp],
+				selector: '0x095ea7b3',
+				confirmed: false,
+				account,
+				ledger: {},
+				now: 0,
+				decimals: {},
+			});
+
+			expect(violations.map((violation) => violation.rule)).toEqual([
+				'confirmationRequired',
+				'methodBlocked',
+				'recipientBlocked',
+				'recipientNotAllowed',
+			]);
+			expect(new PolicyViolationError(violations).message).toMatch(/^Spend policy violation: /);
+		});
+	});
+
+	describe('recordSpends', () => {
+		it('should add spends and drop entries outside the window', () => {
+			const key = getLedgerKey(account, slp);
+			const ledger: SpendLedger = { [key]: [{ at: 0, amount: '5' }] };
+
+			recordSpends(ledger, account, [{ asset: slp, amount: BigInt(7), recipient: bob, kind: 'token' }], SPEND_WINDOW + 1);
+
+			expect(ledger).toEqual({ [key]: [{ at: SPEND_WINDOW + 1, amount: '7' }] });
+		});
+	});
+});
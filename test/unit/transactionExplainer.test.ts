@@ -0,0 +1,127 @@
+/*
+ * Copyright (c) Velocity BPA, LLC
+ * Licensed under the Business Source License 1.1
+ * Commercial use requires a separate commercial license.
+ * See LICENSE file for details.
+ */
+
+import { ethers } from 'ethers';
+import { ERC20_ABI, ERC721_ABI, KATANA_PAIR_ABI, KATANA_ROUTER_ABI } from '../../nodes/Ronin/constants/contracts';
+import { buildAbiRegistry, explainLog, explainTransaction } from '../../nodes/Ronin/utils/transactionExplainer';
+
+describe('transactionExplainer', () => {
+	const router = '0x7d0556d55ca1a92708681e2e231733ebd922597d';
+	const weth = '0xc99a6a985ed2cac1ef41640596c5a5f9f4e19ef5';
+	const slp = '0xa8754b9fa15fc18bb59458815510e40a12cd2014';
+	const axie = '0x32950db2a7164ae833121501c797d79e7b79d74c';
+	const pair = '0x4444444444444444444444444444444444444444';
+	const sender = '0x1111111111111111111111111111111111111111';
+	const alice = '0x2222222222222222222222222222222222222222';
+	const ronin = (address: string) => `ronin:${address.slice(2)}`;
+
+	const toLog = (index: number, address: string, iface: ethers.Interface, event: string, args: unknown[]) => {
+		const { topics, data } = iface.encodeEventLog(event, args);
+		return { index, address, topics, data };
+	};
+
+	const erc20Transfer = (index: number, token: string, from: string, to: string, amount: bigint) =>
+		toLog(index, token, new ethers.Interface(ERC20_ABI), 'Transfer', [from, to, amount]);
+
+	describe('buildAbiRegistry', () => {
+		it('should register tokens, collections and protocol contracts', () => {
+			const registry = buildAbiRegistry('mainnet');
+
+			expect(registry.get(weth)?.name).toBe('Wrapped Ether');
+			expect(registry.get(axie)?.name).toBe('Axie Infinity');
+			expect(registry.get(router)?.name).toBe('Katana Router');
+		});
+	});
+
+	describe('explainLog', () => {
+		it('should tell ERC721 transfers from ERC20 transfers', () => {
+			const nft = explainLog(
+				toLog(0, axie, new ethers.Interface(ERC721_ABI), 'Transfer', [sender, alice, 42]),
+				[]
+			);
+
+			expect(nft.event).toBe('Transfer');
+			expect(nft.args).toEqual({ from: sender, to: alice, tokenId: '42' });
+		});
+
+		it('should keep the raw log when no ABI matches', () => {
+			const topic = ethers.id('Unknown(uint256)');
+			const decoded = explainLog({ index: 3, address: pair, topics: [topic], data: '0x01' }, []);
+
+			expect(decoded).toEqual({
+				logIndex: 3,
+				address: pair,
+				event: null,
+				signature: null,
+				args: {},
+				topics: [topic],
+				data: '0x01',
+			});
+		});
+	});
+
+	describe('explainTransaction', () => {
+		const deadline = 1700000000;
+		const tx = {
+			hash: '0xabc',
+			from: sender,
+			to: router,
+			value: ethers.parseEther('2'),
+			data: new ethers.Interface(KATANA_ROUTER_ABI).encodeFunctionData(
+				'swapExactRONForTokens',
+				[1000, [weth, slp], alice, deadline]
+			),
+		};
+		const logs = [
+			erc20Transfer(0, weth, router, pair, ethers.parseEther('2')),
+			erc20Transfer(1, slp, pair, alice, BigInt(1500)),
+			toLog(2, pair, new ethers.Interface(KATANA_PAIR_ABI), 'Swap', [router, ethers.parseEther('2'), 0, 0, 1500, alice]),
+		];
+
+		it('should decode the method and logs of known contracts', () => {
+			const explained = explainTransaction(tx, { status: 1, logs }, 'mainnet');
+
+			expect(explained.status).toBe('success');
+			expect(explained.contract).toBe('Katana Router');
+			expect(explained.method).toMatchObject({
+				name: 'swapExactRONForTokens',
+				args: { amountOutMin: '1000', path: [ethers.getAddress(weth), ethers.getAddress(slp)], to: alice, deadline: String(deadline) },
+			});
+			expect(explained.events.map((event) => [event.contract, event.event])).toEqual([
+				['Wrapped Ether', 'Transfer'],
+				['Smooth Love Potion', 'Transfer'],
+				[null, 'Swap'],
+			]);
+		});
+
+		it('should list RON and token movements', () => {
+			const { movements } = explainTransaction(tx, { status: 1, logs }, 'mainnet');
+
+			expect(movements).toEqual([
+				{ type: 'RON', token: null, symbol: 'RON', from: ronin(sender), to: ronin(router), amount: '2.0', amountRaw: '2000000000000000000', tokenId: null },
+				{ type: 'ERC20', token: weth, symbol: 'WETH', from: ronin(router), to: ronin(pair), amount: '2.0', amountRaw: '2000000000000000000', tokenId: null },
+				{ type: 'ERC20', token: slp, symbol: 'SLP', from: ronin(pair), to: ronin(alice), amount: '1500', amountRaw: '1500', tokenId: null },
+			]);
+		});
+
+		it('should report no movements for failed transactions', () => {
+			const explained = explainTransaction(tx, { status: 0, logs: [] }, 'mainnet');
+
+			expect(explained.status).toBe('failed');
+			expect(explained.movements).toEqual([]);
+		});
+
+		it('should decode plain token calls to unknown contracts', () => {
+			const data = new ethers.Interface(ERC20_ABI).encodeFunctionData('transfer', [alice, 5]);
+			const explained = explainTransaction({ ...tx, to: pair, value: BigInt(0), data }, null, 'mainnet');
+
+			expect(explained.status).toBe('pending');
+			expect(explained.contract).toBeNull();
+			expect(explained.method?.name).toBe('transfer');
+		});
+	});
+});
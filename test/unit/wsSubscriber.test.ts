@@ -0,0 +1,230 @@
+/*
+ * Copyright (c) Velocity BPA, LLC
+ * Licensed under the Business Source License 1.1
+ * Commercial use requires a separate commercial license.
+ * See LICENSE file for details.
+ */
+
+import { AddressInfo } from 'net';
+import { createServer } from 'http';
+import { ethers } from 'ethers';
+import { IDataObject, INodeExecutionData, ITriggerFunctions } from 'n8n-workflow';
+import WebSocket, { WebSocketServer } from 'ws';
+import { RoninTrigger } from '../../nodes/Ronin/RoninTrigger.node';
+import { WsSubscriber, getReconnectDelay } from '../../nodes/Ronin/transport/wsSubscriber';
+
+/**
+ * Minimal eth_subscribe server that can push heads and drop clients
+ */
+class MockNode {
+	server: WebSocketServer;
+	clients = new Set<WebSocket>();
+	subscribeRequests: unknown[][] = [];
+	private subscriptionCount = 0;
+
+	constructor() {
+		this.server = new WebSocketServer({ port: 0 });
+		this.server.on('connection', (socket) => {
+			this.clients.add(socket);
+			socket.on('close', () => this.clients.delete(socket));
+			socket.on('message', (data) => {
+				const request = JSON.parse(data.toString());
+				this.subscribeRequests.push(request.params);
+				this.subscriptionCount += 1;
+				socket.send(JSON.stringify({ jsonrpc: '2.0', id: request.id, result: `0xsub${this.subscriptionCount}` }));
+			});
+		});
+	}
+
+	get url(): string {
+		return `ws://127.0.0.1:${(this.server.address() as AddressInfo).port}`;
+	}
+
+	pushHead(blockNumber: number): void {
+		for (const socket of this.clients) {
+			socket.send(JSON.stringify({
+				jsonrpc: '2.0',
+				method: 'eth_subscription',
+				params: { subscription: `0xsub${this.subscriptionCount}`, result: { number: `0x${blockNumber.toString(16)}` } },
+			}));
+		}
+	}
+
+	dropClients(): void {
+		for (const socket of this.clients) {
+			socket.terminate();
+		}
+	}
+
+	close(): Promise<void> {
+		return new Promise((resolve) => this.server.close(() => resolve()));
+	}
+}
+
+const waitFor = async (condition: () => boolean, timeout = 3000): Promise<void> => {
+	const start = Date.now();
+	while (!condition()) {
+		if (Date.now() - start > timeout) {
+			throw new Error('Timed out waiting for condition');
+		}
+		await new Promise((resolve) => setTimeout(resolve, 10));
+	}
+};
+
+describe('wsSubscriber', () => {
+	let node: MockNode;
+	let subscriber: WsSubscriber | undefined;
+
+	beforeEach(() => {
+		node = new MockNode();
+	});
+
+	afterEach(async () => {
+		subscriber?.close();
+		subscriber = undefined;
+		await node.close();
+	});
+
+	describe('getReconnectDelay', () => {
+		it('should back off exponentially up to the maximum', () => {
+			expect(getReconnectDelay(0, 100, 1000)).toBe(100);
+			expect(getReconnectDelay(2, 100, 1000)).toBe(400);
+			expect(getReconnectDelay(10, 100, 1000)).toBe(1000);
+		});
+	});
+
+	it('should subscribe to new heads and forward notifications', async () => {
+		const heads: unknown[] = [];
+		subscriber = new WsSubscriber({
+			url: node.url,
+			onNotification: (type, result) => heads.push({ type, result }),
+		});
+		subscriber.start();
+
+		await waitFor(() => subscriber!.isSubscribed);
+		node.pushHead(5);
+		await waitFor(() => heads.length === 1);
+
+		expect(node.subscribeRequests).toEqual([['newHeads']]);
+		expect(heads[0]).toEqual({ type: 'newHeads', result: { number: '0x5' } });
+	});
+
+	it('should subscribe to logs when a filter is given', async () => {
+		subscriber = new WsSubscriber({
+			url: node.url,
+			logFilter: { address: '0x1111111111111111111111111111111111111111' },
+			onNotification: () => undefined,
+		});
+		subscriber.start();
+
+		await waitFor(() => subscriber!.isSubscribed);
+		expect(node.subscribeRequests).toEqual([['logs', { address: '0x1111111111111111111111111111111111111111' }]]);
+	});
+
+	it('should not lose or repeat trigger blocks across reconnects', async () => {
+		// HTTP node of a chain whose head the test moves
+		let head = 0;
+		const getBlock = (blockNumber: number) => ({
+			hash: ethers.id(`block-${blockNumber}`),
+			parentHash: blockNumber > 0 ? ethers.id(`block-${blockNumber - 1}`) : ethers.ZeroHash,
+			number: ethers.toQuantity(blockNumber),
+			timestamp: ethers.toQuantity(1700000000 + blockNumber),
+			nonce: '0x0000000000000000',
+			difficulty: '0x0',
+			gasLimit: '0x1c9c380',
+			gasUsed: '0x0',
+			miner: ethers.ZeroAddress,
+			extraData: '0x',
+			transactions: [],
+		});
+		const handleRpc = ({ id, method, params }: { id: number; method: string; params: unknown[] }) => {
+			const results: Record<string, () => unknown> = {
+				eth_chainId: () => '0x7e4',
+				eth_blockNumber: () => ethers.toQuantity(head),
+				eth_getBlockByNumber: () => (Number(params[0]) <= head ? getBlock(Number(params[0])) : null),
+			};
+			return method in results
+				? { jsonrpc: '2.0', id, result: results[method]() }
+				: { jsonrpc: '2.0', id, error: { code: -32601, message: `Unsupported method ${method}` } };
+		};
+		const rpc = createServer((req, res) => {
+			let body = '';
+			req.on('data', (chunk) => (body += chunk));
+			req.on('end', () => {
+				const payload = JSON.parse(body);
+				res.setHeader('content-type', 'application/json');
+				res.end(JSON.stringify(Array.isArray(payload) ? payload.map(handleRpc) : handleRpc(payload)));
+			});
+		});
+		await new Promise<void>((resolve) => rpc.listen(0, '127.0.0.1', resolve));
+
+		// ethers reuses a block number read within the last 250ms
+		const nextPoll = () => new Promise((resolve) => setTimeout(resolve, 300));
+		const emitted: number[] = [];
+		const errors: unknown[] = [];
+		const parameters: IDataObject = { event: 'newBlock', pollingInterval: 3600 };
+		const context = {
+			getNodeParameter: (name: string, fallback?: unknown) => parameters[name] ?? fallback,
+			getCredentials: async () => ({
+				network: 'custom',
+				rpcUrl: `http://127.0.0.1:${(rpc.address() as AddressInfo).port}`,
+				wsUrl: node.url,
+			}),
+			getWorkflowStaticData: () => ({}),
+			emit: (data: INodeExecutionData[][]) => emitted.push(...data[0].map((item) => item.json.blockNumber as number)),
+			helpers: { returnJsonArray: (items: IDataObject[]) => items.map((json) => ({ json })) },
+			logger: { error: (...args: unknown[]) => errors.push(args), warn: () => undefined, info: () => undefined, debug: () => undefined },
+		} as unknown as ITriggerFunctions;
+
+		const response = await new RoninTrigger().trigger.call(context);
+		try {
+			await waitFor(() => node.clients.size === 1 && node.subscribeRequests.length === 1);
+			await nextPoll();
+
+			head = 2;
+			node.pushHead(2);
+			await waitFor(() => emitted.length === 2);
+
+			// Blocks 3-5 are produced without notifications while the connection drops
+			head = 5;
+			node.dropClients();
+			await waitFor(() => node.subscribeRequests.length === 2 && emitted.length === 5);
+			await nextPoll();
+
+			// A repeated notification finds nothing new past the checkpoint
+			head = 6;
+			node.pushHead(6);
+			node.pushHead(6);
+			await waitFor(() => emitted.length === 6);
+			await nextPoll();
+		} finally {
+			await response.closeFunction?.();
+			await new Promise((resolve) => rpc.close(resolve));
+		}
+
+		expect(emitted).toEqual([1, 2, 3, 4, 5, 6]);
+		expect(node.subscribeRequests).toEqual([['newHeads'], ['newHeads']]);
+		expect(errors).toEqual([]);
+	});
+
+	it('should stop reconnecting once closed', async () => {
+		let connects = 0;
+		subscriber = new WsSubscriber({
+			url: node.url,
+			minReconnectDelay: 10,
+			onNotification: () => undefined,
+			onConnect: () => {
+				connects += 1;
+			},
+		});
+		subscriber.start();
+		await waitFor(() => connects === 1);
+
+		subscriber.close();
+		node.dropClients();
+		await new Promise((resolve) => setTimeout(resolve, 100));
+
+		expect(connects).toBe(1);
+		expect(node.clients.size).toBe(0);
+	});
+});